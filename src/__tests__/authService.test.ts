@@ -0,0 +1,84 @@
+import RefreshToken from '../models/RefreshToken';
+import User from '../models/User';
+import { AuthenticationError, AuthService, hashPassword } from '../services/authService';
+import { verifyToken } from '../utils/jwt';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const PASSWORD = 'correct horse battery';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('AuthService', () => {
+  const auth = new AuthService(900, 30);
+  let userId: string;
+
+  beforeAll(async () => {
+    await startDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearDatabase();
+    const user = await User.create({ username: 'reader_user', passwordHash: await hashPassword(PASSWORD) });
+    userId = String(user._id);
+  });
+
+  afterAll(async () => {
+    await stopDatabase();
+  });
+
+  it('issues an access token for the user and a refresh token', async () => {
+    const tokens = await auth.login('reader_user', PASSWORD);
+
+    expect(verifyToken(tokens.accessToken)).toMatchObject({ sub: userId, username: 'reader_user' });
+    expect(tokens).toMatchObject({ tokenType: 'Bearer', expiresIn: 900 });
+    await expect(auth.login('reader_user', 'not the password')).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(auth.login('nobody_here', PASSWORD)).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('rotates refresh tokens, each working once', async () => {
+    const first = await auth.login('reader_user', PASSWORD);
+    const second = await auth.refresh(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(verifyToken(second.accessToken).sub).toBe(userId);
+    await expect(auth.refresh(second.refreshToken)).resolves.toMatchObject({ tokenType: 'Bearer' });
+  });
+
+  it('revokes the whole login when a rotated token is presented again', async () => {
+    const first = await auth.login('reader_user', PASSWORD);
+    const second = await auth.refresh(first.refreshToken);
+    const other = await auth.login('reader_user', PASSWORD);
+
+    await expect(auth.refresh(first.refreshToken)).rejects.toThrow('Refresh token has already been used');
+    await expect(auth.refresh(second.refreshToken)).rejects.toThrow('Refresh token has already been used');
+    await expect(auth.refresh(other.refreshToken)).resolves.toMatchObject({ tokenType: 'Bearer' });
+  });
+
+  it('lets only one of two concurrent refreshes with the same token succeed', async () => {
+    const { refreshToken } = await auth.login('reader_user', PASSWORD);
+
+    const results = await Promise.allSettled([auth.refresh(refreshToken), auth.refresh(refreshToken)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('refuses expired refresh tokens', async () => {
+    const { refreshToken, refreshExpiresAt } = await auth.login('reader_user', PASSWORD);
+
+    expect(refreshExpiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+    await expect(auth.refresh(refreshToken, refreshExpiresAt)).rejects.toThrow('Invalid or expired refresh token');
+    expect(await RefreshToken.countDocuments({ revokedAt: { $exists: true } })).toBe(0);
+  });
+
+  it('ends every session when logging out or changing the password', async () => {
+    const first = await auth.login('reader_user', PASSWORD);
+    const second = await auth.login('reader_user', PASSWORD);
+
+    await auth.logout(first.refreshToken);
+    await expect(auth.refresh(first.refreshToken)).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(auth.logout(first.refreshToken)).resolves.toBeUndefined();
+
+    await auth.setPassword(userId, 'a brand new password');
+    await expect(auth.refresh(second.refreshToken)).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(auth.login('reader_user', 'a brand new password')).resolves.toMatchObject({ tokenType: 'Bearer' });
+  });
+});
@@ -0,0 +1,130 @@
+import { Request } from 'express';
+import { API_KEY_SCOPES, ApiKeyScope } from '../models/ApiKey';
+import User, { UserRole } from '../models/User';
+import { assertCanModify, can } from '../middleware';
+import { ensureBootstrapAdmin, roleCan, scopesCan } from '../services/authorizationService';
+import { ForbiddenError } from '../utils/errors';
+import { verifyPassword } from '../services/authService';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const PASSWORD = 'correct horse battery';
+
+type CallerRequest = Pick<Request, 'user' | 'caller'>;
+
+const asUser = (role: UserRole, id: string = 'user-1'): CallerRequest => {
+  const user = { id, username: `${role}_user`, role };
+  return { user, caller: { type: 'user', user } };
+};
+
+/** An API key with `scopes`, issued to a user with `role` or, without one, to an application. */
+const withKey = (scopes: ApiKeyScope[], role?: UserRole): CallerRequest => {
+  const user = role && { id: 'user-1', username: `${role}_user`, role };
+  return { user, caller: { type: 'apiKey', user, apiKey: { id: 'key-1', name: 'worker', scopes } } };
+};
+
+describe('roles', () => {
+  it('grants each role everything the roles before it can do', () => {
+    expect(roleCan('reader', 'interactions:write')).toBe(true);
+    expect(roleCan('reader', 'articles:create')).toBe(false);
+    expect(roleCan('author', 'articles:edit:own')).toBe(true);
+    expect(roleCan('author', 'articles:publish')).toBe(false);
+    expect(roleCan('editor', 'articles:publish')).toBe(true);
+    expect(roleCan('editor', 'users:manage')).toBe(false);
+    expect(roleCan('admin', 'users:manage')).toBe(true);
+  });
+
+  it('grants nothing to anonymous callers', () => {
+    expect(can({}, 'interactions:write')).toBe(false);
+  });
+});
+
+describe('API key scopes', () => {
+  it('only grant what a scope lists', () => {
+    expect(scopesCan(['write:articles'], 'articles:publish')).toBe(true);
+    expect(scopesCan(['read:articles'], 'articles:create')).toBe(false);
+    expect(scopesCan(['read:articles', 'write:interactions'], 'interactions:write')).toBe(true);
+  });
+
+  it('never grant permissions no scope lists', () => {
+    const everyScope = withKey([...API_KEY_SCOPES], 'admin');
+
+    expect(can(everyScope, 'users:manage')).toBe(false);
+    expect(can(everyScope, 'comments:moderate')).toBe(false);
+  });
+
+  it('are limited to the role of the user they were issued to', () => {
+    expect(can(withKey(['write:articles'], 'editor'), 'articles:publish')).toBe(true);
+    expect(can(withKey(['write:articles'], 'author'), 'articles:publish')).toBe(false);
+    expect(can(withKey(['write:articles'], 'author'), 'articles:create')).toBe(true);
+  });
+
+  it('do not extend a role beyond their scopes', () => {
+    expect(can(withKey(['read:articles'], 'admin'), 'articles:create')).toBe(false);
+    expect(can(asUser('admin'), 'articles:create')).toBe(true);
+  });
+
+  it('grant application keys exactly their scopes', () => {
+    expect(can(withKey(['write:sources']), 'sources:manage')).toBe(true);
+    expect(can(withKey(['write:sources']), 'articles:create')).toBe(false);
+  });
+});
+
+describe('assertCanModify', () => {
+  it('lets owners use their own-resource permission', () => {
+    expect(() => assertCanModify(asUser('author'), 'user-1', 'articles:edit', 'articles:edit:own')).not.toThrow();
+    expect(() => assertCanModify(asUser('author'), 'user-2', 'articles:edit', 'articles:edit:own')).toThrow(ForbiddenError);
+    expect(() => assertCanModify(asUser('editor', 'user-3'), 'user-2', 'articles:edit', 'articles:edit:own')).not.toThrow();
+  });
+
+  it('keeps API key scopes in force for owners', () => {
+    expect(() => assertCanModify(withKey(['read:articles'], 'author'), 'user-1', 'articles:edit', 'articles:edit:own'))
+      .toThrow(ForbiddenError);
+  });
+});
+
+describe('ensureBootstrapAdmin', () => {
+  beforeAll(async () => {
+    await startDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearDatabase();
+  });
+
+  afterAll(async () => {
+    await stopDatabase();
+  });
+
+  it('does nothing without a configured username', async () => {
+    expect(await ensureBootstrapAdmin(undefined, PASSWORD)).toEqual({ created: false });
+    expect(await User.countDocuments()).toBe(0);
+  });
+
+  it('creates the admin while there is none', async () => {
+    expect(await ensureBootstrapAdmin('root_admin', PASSWORD)).toEqual({ created: true });
+
+    const admin = await User.findOne({ username: 'root_admin' }).select('+passwordHash');
+    expect(admin?.role).toBe('admin');
+    expect(await verifyPassword(PASSWORD, admin!.passwordHash!)).toBe(true);
+  });
+
+  it('leaves an existing admin alone on later startups', async () => {
+    await ensureBootstrapAdmin('root_admin', PASSWORD);
+
+    expect(await ensureBootstrapAdmin('other_admin', PASSWORD)).toEqual({ created: false });
+    expect(await User.countDocuments({ role: 'admin' })).toBe(1);
+  });
+
+  it('never promotes a registered account with the same name', async () => {
+    await User.create({ username: 'root_admin' });
+
+    await expect(ensureBootstrapAdmin('root_admin', PASSWORD)).rejects.toThrow('names existing user');
+    expect((await User.findOne({ username: 'root_admin' }))?.role).toBe('reader');
+  });
+
+  it('needs a usable password to create the admin', async () => {
+    await expect(ensureBootstrapAdmin('root_admin', undefined)).rejects.toThrow('BOOTSTRAP_ADMIN_PASSWORD');
+    await expect(ensureBootstrapAdmin('root_admin', 'short')).rejects.toThrow('BOOTSTRAP_ADMIN_PASSWORD');
+    expect(await User.countDocuments()).toBe(0);
+  });
+});
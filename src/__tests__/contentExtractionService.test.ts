@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { AxiosInstance } from 'axios';
+import { ContentExtractionService } from '../services/contentExtractionService';
+import { BlockedAddressError } from '../utils/publicAddress';
+import { PublicHttpClient } from '../utils/publicHttp';
+
+const fixture = (name: string): string => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('ContentExtractionService', () => {
+  const service = new ContentExtractionService();
+
+  describe('extract', () => {
+    const article = service.extract(fixture('article.html'), 'https://news.example.com/science/currents');
+
+    it('reads the metadata', () => {
+      expect(article.title).toBe('Deep-sea currents are slowing, researchers find');
+      expect(article.author).toBe('Maria Lopez');
+      expect(article.publishedAt).toEqual(new Date('2024-03-05T09:30:00Z'));
+      expect(article.imageUrl).toBe('https://news.example.com/images/currents.jpg');
+    });
+
+    it('keeps the story and drops the page chrome', () => {
+      expect(article.content).toMatch(/^The deep ocean currents/);
+      expect(article.content).toContain('Melting ice sheets');
+      expect(article.content).toContain('separate it from the effects of warming');
+      expect(article.content).not.toMatch(/cookies|Related stories|Sea ice hits|Copyright|analytics/);
+      expect(article.signals.paragraphCount).toBe(7);
+    });
+
+    it('is confident about an article page', () => {
+      expect(article.signals.linkDensity).toBeLessThan(0.1);
+      expect(article.confidence).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('has little confidence in a page of links', () => {
+      const index = service.extract(fixture('link-index.html'));
+
+      expect(index.title).toBe('Science');
+      expect(index.author).toBeUndefined();
+      expect(index.content).toBe('');
+      expect(index.confidence).toBeLessThan(0.3);
+      expect(index.confidence).toBeLessThan(article.confidence);
+    });
+  });
+
+  describe('extractFromUrl', () => {
+    it('refuses non-public addresses without connecting', async () => {
+      const http = { get: jest.fn() } as unknown as AxiosInstance;
+      const guarded = new ContentExtractionService(new PublicHttpClient(http));
+
+      await expect(guarded.extractFromUrl('http://169.254.169.254/latest/meta-data')).rejects.toBeInstanceOf(BlockedAddressError);
+      await expect(guarded.extractFromUrl('http://[::ffff:127.0.0.1]/')).rejects.toBeInstanceOf(BlockedAddressError);
+      await expect(guarded.extractFromUrl('file:///etc/passwd')).rejects.toThrow('Unsupported protocol');
+      expect(http.get).not.toHaveBeenCalled();
+    });
+
+    it('checks every redirect target', async () => {
+      const get = jest.fn().mockResolvedValueOnce({
+        status: 302,
+        headers: { location: 'http://127.0.0.1:8080/admin' },
+        data: ''
+      });
+      const guarded = new ContentExtractionService(new PublicHttpClient({ get } as unknown as AxiosInstance));
+
+      await expect(guarded.extractFromUrl('https://93.184.216.34/story')).rejects.toBeInstanceOf(BlockedAddressError);
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('extracts the page it is redirected to', async () => {
+      const get = jest.fn()
+        .mockResolvedValueOnce({ status: 301, headers: { location: '/science/currents' }, data: '' })
+        .mockResolvedValueOnce({ status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, data: fixture('article.html') });
+      const guarded = new ContentExtractionService(new PublicHttpClient({ get } as unknown as AxiosInstance));
+
+      const extracted = await guarded.extractFromUrl('https://93.184.216.34/s/1');
+
+      expect(get.mock.calls[1][0]).toBe('https://93.184.216.34/science/currents');
+      expect(extracted.url).toBe('https://93.184.216.34/science/currents');
+      expect(extracted.title).toBe('Deep-sea currents are slowing, researchers find');
+    });
+  });
+});
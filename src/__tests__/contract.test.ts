@@ -0,0 +1,294 @@
+import request, { Response } from 'supertest';
+import app from '../app';
+import User from '../models/User';
+import { routeRegistry } from '../routes/registry';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+import { ResponseValidator } from './helpers/openapi';
+
+const validator = new ResponseValidator();
+
+interface CallOptions {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean>;
+  body?: unknown;
+  token?: string;
+  apiKey?: string;
+}
+
+const exercised = new Set<string>();
+
+/**
+ * Calls `route`, spelled as in the registry (`GET /articles/:id`), expects
+ * `status` and checks the response against the spec.
+ */
+const call = async (route: string, status: number, options: CallOptions = {}): Promise<Response> => {
+  const [method, fullPath] = route.split(' ');
+  const path = fullPath.replace(/:(\w+)/g, (_, name) => encodeURIComponent(String(options.params?.[name])));
+
+  let req = request(app)[method.toLowerCase() as 'get' | 'post' | 'put' | 'delete'](`/api${path}`);
+  if (options.query) req = req.query(options.query);
+  if (options.token) req = req.set('Authorization', `Bearer ${options.token}`);
+  if (options.apiKey) req = req.set('X-API-Key', options.apiKey);
+  const res = options.body === undefined ? await req : await req.send(options.body as object);
+
+  expect({ route, status: res.status, body: res.body }).toMatchObject({ route, status });
+  expect(validator.validate(method, fullPath, res)).toEqual([]);
+
+  exercised.add(route);
+  return res;
+};
+
+const PASSWORD = 'correct horse battery';
+
+describe('API contract', () => {
+  describe('problem documents', () => {
+    it('describes unknown routes with the shared NotFound response', async () => {
+      const res = await request(app).get('/api/does-not-exist');
+
+      expect(res.status).toBe(404);
+      expect(validator.validateShared('NotFound', res)).toEqual([]);
+    });
+
+    it('describes malformed JSON bodies as documented 400s', async () => {
+      const res = await request(app)
+        .post('/api/auth/login')
+        .set('Content-Type', 'application/json')
+        .send('{"username": ');
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('malformed_body');
+      expect(validator.validate('post', '/auth/login', res)).toEqual([]);
+    });
+
+    it('describes missing credentials as documented 401s', async () => {
+      const res = await request(app).get('/api/auth/me');
+
+      expect(res.status).toBe(401);
+      expect(validator.validate('get', '/auth/me', res)).toEqual([]);
+    });
+  });
+
+  describe('routes', () => {
+    beforeAll(async () => {
+      await startDatabase();
+      await clearDatabase();
+    });
+
+    afterAll(async () => {
+      await stopDatabase();
+    });
+
+    it('answers every registered route as the spec documents', async () => {
+      // Users and sessions
+      await call('POST /users', 201, { body: { username: 'admin_user', password: PASSWORD } });
+      const author = await call('POST /users', 201, { body: { username: 'author_user', password: PASSWORD } });
+      const reader = await call('POST /users', 201, {
+        body: { username: 'reader_user', password: PASSWORD, interests: ['science'] }
+      });
+      await call('POST /users', 409, { body: { username: 'reader_user', password: PASSWORD } });
+      await User.updateOne({ username: 'admin_user' }, { role: 'admin' });
+
+      const authorId = author.body.data._id;
+      const readerId = reader.body.data._id;
+
+      const login = async (username: string): Promise<string> =>
+        (await call('POST /auth/login', 200, { body: { username, password: PASSWORD } })).body.data.accessToken;
+
+      await call('POST /auth/login', 401, { body: { username: 'admin_user', password: 'not the password' } });
+      const adminSession = await call('POST /auth/login', 200, { body: { username: 'admin_user', password: PASSWORD } });
+      const adminToken = adminSession.body.data.accessToken;
+      const refreshed = await call('POST /auth/refresh', 200, { body: { refreshToken: adminSession.body.data.refreshToken } });
+      await call('POST /auth/refresh', 401, { body: { refreshToken: 'not-a-refresh-token' } });
+      await call('GET /auth/me', 200, { token: adminToken });
+
+      await call('GET /users', 200);
+      await call('GET /users/:id', 200, { params: { id: readerId } });
+      await call('GET /users/:id', 404, { params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('PUT /users/:id/role', 200, { token: adminToken, params: { id: authorId }, body: { role: 'author' } });
+      await call('PUT /users/:id/password', 200, { token: adminToken, params: { id: authorId }, body: { password: PASSWORD } });
+
+      const authorToken = await login('author_user');
+      const readerToken = await login('reader_user');
+
+      await call('PUT /users/:id', 200, { token: readerToken, params: { id: readerId }, body: { interests: ['science', 'climate'] } });
+      await call('PUT /users/:id/role', 403, { token: readerToken, params: { id: readerId }, body: { role: 'admin' } });
+
+      // API keys
+      const apiKey = await call('POST /api-keys', 201, {
+        token: adminToken,
+        body: { name: 'contract-worker', scopes: ['read:articles', 'write:sources'] }
+      });
+      await call('GET /api-keys', 200, { token: adminToken });
+      await call('GET /users/trash', 403, { apiKey: apiKey.body.data.key });
+
+      // Articles
+      const first = await call('POST /articles', 201, {
+        token: adminToken,
+        body: {
+          title: 'How tides are measured',
+          content: 'Tide gauges record the height of the sea surface every few minutes at harbours around the world.',
+          author: 'Admin User',
+          summary: 'Tide gauges record sea level at harbours.',
+          tags: ['oceans']
+        }
+      });
+      const second = await call('POST /articles', 201, {
+        token: authorToken,
+        body: {
+          title: 'Why volcanoes erupt',
+          content: 'Magma rises because it is less dense than the surrounding rock, and dissolved gases drive eruptions.',
+          author: 'Author User',
+          tags: ['geology']
+        }
+      });
+      await call('POST /articles/from-url', 502, { token: adminToken, body: { url: 'http://127.0.0.1/story' } });
+
+      const firstId = first.body.data._id;
+      const secondId = second.body.data._id;
+
+      // Drafts answer like missing articles to callers who cannot read them.
+      await call('POST /interactions', 404, { token: readerToken, body: { article_id: secondId, interaction_type: 'like' } });
+
+      await call('POST /articles/:id/status', 200, { token: authorToken, params: { id: secondId }, body: { status: 'in_review' } });
+      await call('POST /articles/:id/status', 409, { token: adminToken, params: { id: secondId }, body: { status: 'archived' } });
+      await call('POST /articles/:id/status', 200, { token: adminToken, params: { id: secondId }, body: { status: 'published' } });
+      await call('POST /articles/:id/status', 200, { token: adminToken, params: { id: firstId }, body: { status: 'in_review' } });
+      await call('POST /articles/:id/status', 200, { token: adminToken, params: { id: firstId }, body: { status: 'published' } });
+      const copy = await call('POST /articles', 409, {
+        token: authorToken,
+        body: { title: 'Tides', content: first.body.data.content, author: 'Author User' }
+      });
+      expect(copy.body).toMatchObject({ code: 'duplicate_article', matchedId: firstId, distance: 0 });
+
+      await call('GET /articles', 200);
+      await call('GET /articles', 200, { query: { facets: true, collapse: true } });
+      await call('GET /articles', 403, { query: { status: 'draft' } });
+      await call('GET /articles/stats', 200);
+      await call('GET /articles/tags/:tags', 200, { params: { tags: 'oceans,geology' } });
+      await call('GET /articles/:id', 200, { params: { id: firstId } });
+      await call('GET /articles/:id', 404, { params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('GET /articles/:id/cluster', 200, { params: { id: firstId } });
+
+      await call('PUT /articles/:id', 200, {
+        token: adminToken,
+        params: { id: firstId },
+        body: { content: 'Tide gauges and satellite altimeters together record the height of the sea surface worldwide.' }
+      });
+      await call('PUT /articles/:id', 403, { token: readerToken, params: { id: firstId }, body: { title: 'Not allowed here' } });
+      await call('GET /articles/:id/revisions', 200, { params: { id: firstId } });
+      await call('GET /articles/:id/revisions/diff', 200, { params: { id: firstId } });
+      await call('GET /articles/:id/revisions/:revision', 200, { params: { id: firstId, revision: 1 } });
+      await call('GET /articles/:id/revisions/:revision', 404, { params: { id: firstId, revision: 99 } });
+      await call('POST /articles/:id/revisions/:revision/restore', 200, { token: adminToken, params: { id: firstId, revision: 1 } });
+
+      await call('POST /articles/:id/summary/regenerate', 200, { token: adminToken, params: { id: secondId }, body: {} });
+      await call('GET /articles/providers/status', 200, { token: adminToken });
+      await call('DELETE /articles/providers/cache', 200, { token: adminToken });
+      // The regenerated summary came from a provider, so it is queued once and then left alone while pending.
+      await call('POST /articles/bulk/regenerate-summaries', 202, { token: adminToken, body: { summaryMethod: 'ai' } });
+      await call('POST /articles/bulk/regenerate-summaries', 200, { token: adminToken, body: { summaryMethod: 'ai' } });
+
+      const jobs = await call('GET /summary-jobs', 200, { token: adminToken });
+      await call('GET /summary-jobs/:id', 200, { token: adminToken, params: { id: jobs.body.data[0]._id } });
+      await call('GET /summary-jobs/:id', 404, { token: adminToken, params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('GET /clusters', 200);
+
+      // Interactions
+      await call('POST /interactions', 201, { token: readerToken, body: { article_id: firstId, interaction_type: 'like' } });
+      await call('POST /interactions', 409, { token: readerToken, body: { article_id: firstId, interaction_type: 'like' } });
+      await call('POST /interactions', 404, {
+        token: readerToken,
+        body: { article_id: '65f1a2b3c4d5e6f7a8b9c0d1', interaction_type: 'like' }
+      });
+      await call('POST /interactions', 201, {
+        token: readerToken,
+        body: { article_id: firstId, interaction_type: 'share', shareMetadata: { platform: 'twitter' } }
+      });
+      const comment = await call('POST /interactions', 201, {
+        token: readerToken,
+        body: { article_id: firstId, interaction_type: 'comment', content: 'Clear and useful explanation.' }
+      });
+
+      await call('GET /interactions/user/:userId', 200, { params: { userId: readerId } });
+      await call('GET /interactions/user/:userId/article/:articleId', 200, { params: { userId: readerId, articleId: firstId } });
+      await call('GET /interactions/article/:articleId', 200, { params: { articleId: firstId } });
+      await call('GET /interactions/article/:articleId/comments', 200, { params: { articleId: firstId } });
+      await call('GET /interactions/article/:articleId/shares', 200, { params: { articleId: firstId } });
+      await call('GET /interactions/article/:articleId/stats', 200, { params: { articleId: firstId } });
+      await call('PUT /interactions/:id', 200, {
+        token: readerToken,
+        params: { id: comment.body.data._id },
+        body: { content: 'Clear, useful and well sourced.' }
+      });
+
+      // Recommendations
+      await call('GET /recommendations/user/:user_id', 200, { params: { user_id: readerId } });
+      await call('GET /recommendations/user/:user_id', 404, { params: { user_id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('GET /recommendations/user/:user_id/insights', 200, { params: { user_id: readerId } });
+      await call('GET /recommendations/trending', 200);
+      await call('GET /recommendations/popular', 200);
+
+      await call('DELETE /interactions/remove', 200, { token: readerToken, body: { article_id: firstId, interaction_type: 'like' } });
+      await call('DELETE /interactions/remove', 404, { token: readerToken, body: { article_id: firstId, interaction_type: 'like' } });
+      await call('DELETE /interactions/:id', 200, { token: readerToken, params: { id: comment.body.data._id } });
+      await call('DELETE /interactions/:id', 404, { token: readerToken, params: { id: comment.body.data._id } });
+
+      // Sources
+      const source = await call('POST /sources', 201, {
+        token: adminToken,
+        body: { feedUrl: 'http://127.0.0.1:9/feed.xml', defaultTags: ['feeds'] }
+      });
+      await call('POST /sources', 409, { token: adminToken, body: { feedUrl: 'http://127.0.0.1:9/feed.xml' } });
+      const sourceId = source.body.data._id;
+
+      await call('GET /sources', 200);
+      await call('GET /sources/:id', 200, { params: { id: sourceId } });
+      await call('GET /sources/:id', 404, { params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('PUT /sources/:id', 200, { token: adminToken, params: { id: sourceId }, body: { pollIntervalMinutes: 30 } });
+      await call('POST /sources/:id/pause', 200, { apiKey: apiKey.body.data.key, params: { id: sourceId } });
+      await call('POST /sources/:id/resume', 200, { token: adminToken, params: { id: sourceId } });
+      // Loopback is not a public address, so the feed is never fetched.
+      const refresh = await call('POST /sources/:id/refresh', 502, { token: adminToken, params: { id: sourceId } });
+      expect(refresh.body.detail).toBe('The feed could not be fetched or parsed');
+      expect((await call('GET /sources/:id', 200, { params: { id: sourceId } })).body.data.lastError).toBeUndefined();
+      expect((await call('GET /sources/:id', 200, { token: adminToken, params: { id: sourceId } })).body.data.lastError)
+        .toMatch(/non-public address/);
+      await call('POST /sources/:id/refresh', 404, { token: adminToken, params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('GET /sources/:id/articles', 200, { params: { id: sourceId } });
+
+      const opml = `<?xml version="1.0"?><opml version="2.0"><body>
+        <outline text="Second feed" type="rss" xmlUrl="https://feeds.example.com/space.xml"/>
+      </body></opml>`;
+      await call('POST /sources/opml/import', 201, { token: adminToken, body: { opml } });
+      await call('POST /sources/opml/import', 200, { token: adminToken, body: { opml } });
+      await call('GET /sources/opml/export', 200);
+      await call('DELETE /sources/:id', 200, { token: adminToken, params: { id: sourceId }, query: { cascade: true } });
+      await call('DELETE /sources/:id', 404, { token: adminToken, params: { id: sourceId } });
+
+      // Trash
+      await call('DELETE /articles/:id', 200, { token: authorToken, params: { id: secondId } });
+      await call('DELETE /articles/:id', 404, { token: authorToken, params: { id: secondId } });
+      await call('GET /articles/trash', 200, { token: adminToken });
+      await call('POST /articles/:id/restore', 200, { token: adminToken, params: { id: secondId } });
+      await call('POST /articles/:id/restore', 404, { token: adminToken, params: { id: secondId } });
+
+      await call('DELETE /users/:id', 200, { token: adminToken, params: { id: authorId } });
+      await call('GET /users/trash', 200, { token: adminToken });
+      await call('POST /users/:id/restore', 200, { token: adminToken, params: { id: authorId } });
+      await call('PUT /users/:id/password', 404, { token: adminToken, params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' }, body: { password: PASSWORD } });
+
+      await call('DELETE /api-keys/:id', 200, { token: adminToken, params: { id: apiKey.body.data._id } });
+      await call('DELETE /api-keys/:id', 404, { token: adminToken, params: { id: '65f1a2b3c4d5e6f7a8b9c0d1' } });
+      await call('POST /auth/logout', 200, { body: { refreshToken: refreshed.body.data.refreshToken } });
+
+    });
+
+    it('exercises every registered route', () => {
+      const unexercised = routeRegistry
+        .map(route => `${route.method.toUpperCase()} ${route.fullPath}`)
+        .filter(route => !exercised.has(route));
+
+      expect(unexercised).toEqual([]);
+    });
+  });
+});
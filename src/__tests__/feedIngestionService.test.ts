@@ -0,0 +1,119 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import Article from '../models/Article';
+import Source, { ISource } from '../models/Source';
+import SummaryJob from '../models/SummaryJob';
+import { FeedIngestionService } from '../services/feedIngestionService';
+import { TrashService } from '../services/trashService';
+import { PublicHttpClient } from '../utils/publicHttp';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const RSS = fs.readFileSync(path.join(__dirname, 'fixtures', 'rss.xml'), 'utf8');
+
+/** Serves the RSS fixture with an ETag, answering 304 when the client already has that version. */
+const feed = {
+  etag: '"v1"',
+  status: 200,
+  requests: [] as http.IncomingHttpHeaders[]
+};
+
+const server = http.createServer((req, res) => {
+  feed.requests.push(req.headers);
+
+  if (feed.status !== 200) {
+    res.writeHead(feed.status).end();
+  } else if (req.headers['if-none-match'] === feed.etag) {
+    res.writeHead(304, { ETag: feed.etag }).end();
+  } else {
+    res.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: feed.etag }).end(RSS);
+  }
+});
+
+describe('FeedIngestionService', () => {
+  // The fixture server listens on loopback, which the default client refuses to reach.
+  const service = new FeedIngestionService(new PublicHttpClient(undefined, () => true));
+  let source: ISource;
+
+  beforeAll(async () => {
+    await startDatabase();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await stopDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearDatabase();
+    Object.assign(feed, { etag: '"v1"', status: 200, requests: [] });
+
+    const { port } = server.address() as AddressInfo;
+    source = await new Source({ feedUrl: `http://127.0.0.1:${port}/feed.xml`, defaultTags: ['science'] }).save();
+  });
+
+  it('creates published articles for new entries and queues their summaries', async () => {
+    const result = await service.ingestSource(source);
+
+    expect(result).toMatchObject({ status: 'updated', fetched: 3, created: 2, skipped: 1, failed: 0 });
+
+    const articles = await Article.find({ sourceId: source._id }).sort({ guid: 1 }).lean();
+    expect(articles.map(article => article.guid)).toEqual([
+      'https://science.example.com/2024/volcanoes',
+      'science-desk-1042'
+    ]);
+    expect(articles[1]).toMatchObject({
+      title: "Currents & climate: what's changing",
+      author: 'Maria Lopez',
+      url: 'https://science.example.com/2024/currents',
+      status: 'published',
+      summaryStatus: 'pending'
+    });
+    expect(articles[1].tags).toEqual(['science', 'oceans', 'climate']);
+    expect(await SummaryJob.countDocuments()).toBe(2);
+
+    const saved = await Source.findById(source._id).lean();
+    expect(saved).toMatchObject({ etag: '"v1"', title: 'Example Science Desk', siteUrl: 'https://science.example.com/', lastFetchStatus: 'updated' });
+  });
+
+  it('sends the stored ETag and treats 304 as not modified', async () => {
+    await service.ingestSource(source);
+    const result = await service.ingestSource(source);
+
+    expect(feed.requests[1]['if-none-match']).toBe('"v1"');
+    expect(result).toMatchObject({ status: 'not_modified', fetched: 0, created: 0 });
+    expect(await Article.countDocuments({ sourceId: source._id })).toBe(2);
+    expect((await Source.findById(source._id).lean())!.lastFetchStatus).toBe('not_modified');
+  });
+
+  it('skips entries whose guid was already ingested, including trashed ones', async () => {
+    await service.ingestSource(source);
+    await new TrashService().trashArticles({ guid: 'science-desk-1042' });
+
+    feed.etag = '"v2"';
+    const result = await service.ingestSource(source);
+
+    expect(result).toMatchObject({ status: 'updated', fetched: 3, created: 0, skipped: 3 });
+    expect(await Article.countDocuments({ sourceId: source._id })).toBe(1);
+  });
+
+  it('refuses feeds on non-public addresses by default', async () => {
+    const result = await new FeedIngestionService().ingestSource(source);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/non-public address/);
+    expect(feed.requests).toHaveLength(0);
+  });
+
+  it('records failed fetches on the source', async () => {
+    feed.status = 500;
+
+    const result = await service.ingestSource(source);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/^HTTP 500/);
+    expect(await Source.findById(source._id).lean()).toMatchObject({ lastFetchStatus: 'failed', lastError: result.error });
+  });
+});
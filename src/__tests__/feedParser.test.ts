@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { FeedParser, htmlToText } from '../services/feedParser';
+
+const fixture = (name: string): string => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('FeedParser', () => {
+  const parser = new FeedParser();
+
+  describe('RSS 2.0', () => {
+    const feed = parser.parse(fixture('rss.xml'));
+    const [currents, volcanoes, short] = feed.entries;
+
+    it('reads the channel', () => {
+      expect(feed.format).toBe('rss');
+      expect(feed.title).toBe('Example Science Desk');
+      expect(feed.siteUrl).toBe('https://science.example.com/');
+      expect(feed.entries).toHaveLength(3);
+    });
+
+    it('prefers full content in CDATA over the description', () => {
+      expect(currents.title).toBe("Currents & climate: what's changing");
+      expect(currents.content).toBe(
+        'The deep ocean currents that carry cold water away from the poles have slowed by roughly a tenth since the 1990s.\n'
+        + 'Researchers say melting ice is the likely cause & want longer records.'
+      );
+    });
+
+    it('uses a guid that is not a permalink as the identity and keeps the link', () => {
+      expect(currents.guid).toBe('science-desk-1042');
+      expect(currents.link).toBe('https://science.example.com/2024/currents');
+      expect(volcanoes.guid).toBe('https://science.example.com/2024/volcanoes');
+    });
+
+    it('reads authors, dates and lowercased categories', () => {
+      expect(currents.author).toBe('Maria Lopez');
+      expect(currents.publishedAt).toEqual(new Date('2024-03-05T09:30:00Z'));
+      expect(currents.categories).toEqual(['oceans', 'climate']);
+      expect(volcanoes.author).toBe('desk@science.example.com (Sam Okafor)');
+      expect(volcanoes.categories).toEqual([]);
+    });
+
+    it('turns escaped HTML descriptions into text', () => {
+      expect(volcanoes.content).toBe(
+        'New satellite radar lets observatories track ground swelling around volcanoes every few days instead of every few weeks.'
+      );
+      expect(short.content).toBe('Brief.');
+      expect(short.link).toBeUndefined();
+    });
+  });
+
+  describe('Atom', () => {
+    const feed = parser.parse(fixture('atom.xml'));
+    const [galaxies, comets] = feed.entries;
+
+    it('reads the feed and its alternate link rather than self', () => {
+      expect(feed.format).toBe('atom');
+      expect(feed.title).toBe('Example Space Blog');
+      expect(feed.siteUrl).toBe('https://space.example.com/');
+    });
+
+    it('links entries to their rel="alternate" page', () => {
+      expect(galaxies.link).toBe('https://space.example.com/2024/faint-galaxies');
+      expect(comets.link).toBe('https://space.example.com/2024/comets');
+    });
+
+    it('maps ids, HTML titles, content and dates', () => {
+      expect(galaxies.guid).toBe('tag:space.example.com,2024:88');
+      expect(galaxies.title).toBe('Faintest galaxies yet recorded');
+      expect(galaxies.content).toMatch(/^A new telescope has recorded galaxies/);
+      expect(galaxies.publishedAt).toEqual(new Date('2024-03-06T18:30:02Z'));
+      expect(galaxies.categories).toEqual(['astronomy']);
+      expect(comets.publishedAt).toEqual(new Date('2024-03-05T10:00:00Z'));
+    });
+
+    it('falls back to the feed author and to the summary', () => {
+      expect(galaxies.author).toBe('Space Desk');
+      expect(comets.author).toBe('Priya Raman');
+      expect(comets.content).toMatch(/^Two comets will be visible/);
+    });
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parser.parse('<html><body>Not a feed</body></html>')).toThrow('Unsupported feed format');
+  });
+});
+
+describe('htmlToText', () => {
+  it('drops scripts and tags and decodes entities', () => {
+    expect(htmlToText('<p>Fish &amp; chips&nbsp;&#8211; &#x2764;</p><script>alert(1)</script><p>Second<br>line</p>'))
+      .toBe('Fish & chips – ❤\nSecond\nline');
+  });
+});
@@ -0,0 +1,22 @@
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+let replSet: MongoMemoryReplSet | undefined;
+
+/** Starts a single-node replica set, since cascades and source deletion run in transactions. */
+export const startDatabase = async (): Promise<void> => {
+  replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+  await mongoose.connect(replSet.getUri());
+  await Promise.all(Object.values(mongoose.models).map(model => model.init()));
+};
+
+export const stopDatabase = async (): Promise<void> => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+  replSet = undefined;
+};
+
+export const clearDatabase = async (): Promise<void> => {
+  const collections = await mongoose.connection.db!.collections();
+  await Promise.all(collections.map(collection => collection.deleteMany({})));
+};
@@ -0,0 +1,97 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { Response } from 'supertest';
+import { buildSpecs } from '../../config/swagger';
+import { OpenApiObject } from '../../utils/joiToOpenApi';
+
+const SCHEMA_REF = '#/components/schemas/';
+const RESPONSE_REF = '#/components/responses/';
+
+/** `/articles/:id` as the spec spells it, `/articles/{id}`. */
+export const specPath = (fullPath: string): string => fullPath.replace(/:(\w+)/g, '{$1}');
+
+/**
+ * Turns OpenAPI 3.0 schema objects into JSON Schema Ajv compiles: component
+ * references point at `#/definitions/...` in the compiled schema, and
+ * `nullable` without a `type`, as on `allOf` wrappers, becomes a null alternative.
+ */
+const toJsonSchema = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(toJsonSchema);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const { nullable, ...rest } = value;
+  const schema = Object.fromEntries(Object.entries(rest).map(([key, child]) =>
+    key === '$ref' && typeof child === 'string' && child.startsWith(SCHEMA_REF)
+      ? [key, `#/definitions/${child.slice(SCHEMA_REF.length)}`]
+      : [key, toJsonSchema(child)]
+  ));
+
+  if (nullable !== true) {
+    return schema;
+  }
+  return schema.type ? { ...schema, nullable } : { anyOf: [{ type: 'null' }, schema] };
+};
+
+const mediaType = (res: Response): string => String(res.headers['content-type'] || '').split(';')[0].trim();
+
+/**
+ * Checks responses against the OpenAPI document built from the route
+ * registry: the status must be documented for the operation and the body
+ * must match the schema of the media type it was served as.
+ */
+export class ResponseValidator {
+  private readonly ajv = new Ajv({ strict: false, validateFormats: false, allErrors: true });
+  private readonly definitions: OpenApiObject;
+  private readonly compiled = new Map<string, ValidateFunction>();
+
+  constructor(readonly spec: OpenApiObject = buildSpecs()) {
+    this.definitions = toJsonSchema(spec.components.schemas);
+  }
+
+  /** What is wrong with the response, or an empty list when it matches the spec. */
+  validate(method: string, fullPath: string, res: Response): string[] {
+    const label = `${method.toUpperCase()} ${fullPath}`;
+    const operation = this.spec.paths[specPath(fullPath)]?.[method.toLowerCase()];
+
+    if (!operation) {
+      return [`${label} is not in the spec`];
+    }
+
+    const documented = operation.responses[res.status];
+    if (!documented) {
+      return [`${label} answered ${res.status}, which is not documented`];
+    }
+
+    return this.check(`${label} ${res.status}`, documented, res);
+  }
+
+  /** Checks a response against a shared response in components, such as NotFound. */
+  validateShared(name: string, res: Response): string[] {
+    return this.check(name, { $ref: `${RESPONSE_REF}${name}` }, res);
+  }
+
+  private check(label: string, response: OpenApiObject, res: Response): string[] {
+    const resolved = response.$ref ? this.spec.components.responses[response.$ref.slice(RESPONSE_REF.length)] : response;
+    const type = mediaType(res);
+    const content = resolved.content?.[type];
+
+    if (!content) {
+      return [`${label} was served as ${type || 'nothing'}, documented as ${Object.keys(resolved.content || {}).join(', ')}`];
+    }
+
+    const key = `${label} ${type}`;
+    if (!this.compiled.has(key)) {
+      this.compiled.set(key, this.ajv.compile({ allOf: [toJsonSchema(content.schema)], definitions: this.definitions }));
+    }
+
+    const validator = this.compiled.get(key)!;
+    const body = /json$/.test(type) ? res.body : res.text;
+
+    return validator(body)
+      ? []
+      : (validator.errors || []).map(error => `${label}: ${error.instancePath || 'body'} ${error.message}`);
+  }
+}
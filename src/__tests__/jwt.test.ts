@@ -0,0 +1,63 @@
+import { InvalidTokenError, signToken, verifyToken } from '../utils/jwt';
+import { signingSecret } from '../utils/secrets';
+
+const ISSUED = new Date('2024-03-05T09:30:00Z');
+const seconds = (count: number): Date => new Date(ISSUED.getTime() + count * 1000);
+
+/** `token` with its payload replaced by `claims`, keeping the original signature. */
+const withClaims = (token: string, claims: object): string => {
+  const [header, , signature] = token.split('.');
+  return `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+};
+
+describe('signToken and verifyToken', () => {
+  const token = signToken('user-1', 900, { role: 'author' }, ISSUED);
+
+  it('round-trips the subject and claims', () => {
+    const iat = ISSUED.getTime() / 1000;
+
+    expect(verifyToken(token, seconds(60))).toEqual({ role: 'author', sub: 'user-1', iat, exp: iat + 900 });
+  });
+
+  it('rejects tokens once they expire', () => {
+    expect(verifyToken(token, seconds(899)).sub).toBe('user-1');
+    expect(() => verifyToken(token, seconds(900))).toThrow('Access token has expired');
+  });
+
+  it('rejects tampered claims', () => {
+    const claims = verifyToken(token, ISSUED);
+
+    expect(() => verifyToken(withClaims(token, { ...claims, role: 'admin' }), ISSUED)).toThrow(InvalidTokenError);
+    expect(() => verifyToken(withClaims(token, { ...claims, exp: claims.exp + 3600 }), seconds(1000))).toThrow(InvalidTokenError);
+  });
+
+  it('rejects other signatures, algorithms and malformed tokens', () => {
+    const [header, payload] = token.split('.');
+    const unsigned = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect(() => verifyToken(`${header}.${payload}.${'A'.repeat(43)}`, ISSUED)).toThrow(InvalidTokenError);
+    expect(() => verifyToken(`${unsigned}.${payload}.`, ISSUED)).toThrow(InvalidTokenError);
+    expect(() => verifyToken('not-a-token', ISSUED)).toThrow(InvalidTokenError);
+  });
+});
+
+describe('signingSecret', () => {
+  afterEach(() => {
+    delete process.env.TEST_SIGNING_SECRET;
+  });
+
+  it('uses the configured secret', () => {
+    process.env.TEST_SIGNING_SECRET = 'a0f1c6d3e87b';
+    expect(signingSecret('TEST_SIGNING_SECRET')).toBe('a0f1c6d3e87b');
+  });
+
+  it('falls back to a random secret when unset', () => {
+    expect(signingSecret('TEST_SIGNING_SECRET')).toMatch(/^[0-9a-f]{64}$/);
+    expect(signingSecret('TEST_SIGNING_SECRET')).not.toBe(signingSecret('TEST_SIGNING_SECRET'));
+  });
+
+  it('refuses placeholder values', () => {
+    process.env.TEST_SIGNING_SECRET = 'change_me';
+    expect(() => signingSecret('TEST_SIGNING_SECRET')).toThrow('TEST_SIGNING_SECRET is set to the placeholder');
+  });
+});
@@ -0,0 +1,85 @@
+import { Types } from 'mongoose';
+import { cursorPage, cursorPosition, decodeCursor, encodeCursor, InvalidCursorError, usesOffsetPagination } from '../utils/pagination';
+
+const item = (id: string, createdAt: string) => ({ _id: new Types.ObjectId(id), createdAt: new Date(createdAt) });
+
+const ITEMS = [
+  item('65f1a2b3c4d5e6f7a8b9c003', '2024-03-07T00:00:00Z'),
+  item('65f1a2b3c4d5e6f7a8b9c002', '2024-03-06T00:00:00Z'),
+  item('65f1a2b3c4d5e6f7a8b9c001', '2024-03-05T00:00:00Z')
+];
+
+const req = { baseUrl: '/api/articles', path: '/', query: { limit: 2, tags: 'oceans', cursor: 'old' } };
+
+/** `cursor` with its payload replaced by `payload`, keeping the original signature. */
+const withPayload = (cursor: string, payload: object): string =>
+  `${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${cursor.split('.')[1]}`;
+
+describe('cursors', () => {
+  const cursor = encodeCursor(ITEMS[1], 'next');
+
+  it('round-trips the position and direction', () => {
+    expect(decodeCursor(cursor)).toEqual({
+      createdAt: '2024-03-06T00:00:00.000Z',
+      id: '65f1a2b3c4d5e6f7a8b9c002',
+      direction: 'next'
+    });
+  });
+
+  it('rejects cursors whose payload was changed', () => {
+    const payload = decodeCursor(cursor);
+
+    expect(() => decodeCursor(withPayload(cursor, { ...payload, createdAt: '2030-01-01T00:00:00.000Z' })))
+      .toThrow(InvalidCursorError);
+    expect(() => decodeCursor(withPayload(cursor, { ...payload, direction: 'prev' }))).toThrow(InvalidCursorError);
+  });
+
+  it('rejects forged signatures and malformed cursors', () => {
+    expect(() => decodeCursor(`${cursor.split('.')[0]}.${'A'.repeat(43)}`)).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(cursor.split('.')[0])).toThrow(InvalidCursorError);
+    expect(() => cursorPosition('not a cursor')).toThrow('Invalid or tampered pagination cursor');
+  });
+
+  it('turns a cursor into a range after its position', () => {
+    expect(cursorPosition(cursor)).toEqual({
+      filter: {
+        $or: [
+          { createdAt: { $lt: ITEMS[1].createdAt } },
+          { createdAt: ITEMS[1].createdAt, _id: { $lt: ITEMS[1]._id } }
+        ]
+      },
+      sort: { createdAt: -1, _id: -1 },
+      direction: 'next',
+      hasCursor: true
+    });
+    expect(cursorPosition()).toMatchObject({ filter: {}, direction: 'next', hasCursor: false });
+  });
+});
+
+describe('cursorPage', () => {
+  it('links to the next page with the other query parameters kept', () => {
+    const { items, pagination, links } = cursorPage(req, ITEMS, 2, cursorPosition());
+
+    expect(items).toEqual(ITEMS.slice(0, 2));
+    expect(pagination).toMatchObject({ hasNext: true, hasPrev: false, prevCursor: null });
+    expect(decodeCursor(pagination.nextCursor!)).toMatchObject({ id: String(ITEMS[1]._id), direction: 'next' });
+    expect(links.next).toBe(`/api/articles?limit=2&tags=oceans&cursor=${pagination.nextCursor}`);
+  });
+
+  it('reverses pages walked backwards', () => {
+    const position = cursorPosition(encodeCursor(ITEMS[0], 'prev'));
+    const { items, pagination } = cursorPage(req, [...ITEMS].reverse(), 2, position);
+
+    expect(items).toEqual([ITEMS[1], ITEMS[2]]);
+    expect(pagination).toMatchObject({ hasNext: true, hasPrev: true });
+  });
+});
+
+describe('usesOffsetPagination', () => {
+  it('only uses offsets when asked for without a cursor', () => {
+    expect(usesOffsetPagination({})).toBe(false);
+    expect(usesOffsetPagination({ offset: 0 })).toBe(true);
+    expect(usesOffsetPagination({ page: 2 })).toBe(true);
+    expect(usesOffsetPagination({ page: 2, cursor: 'abc' })).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BlockedAddressError, isPublicAddress } from '../utils/publicAddress';
+import { createPublicHttp, PublicHttpClient } from '../utils/publicHttp';
+
+// Redirects by path, so each test can script the hops it needs.
+const server = http.createServer((req, res) => {
+  const [, kind, target] = req.url!.match(/^\/(\w+)\/?(.*)$/) || [];
+
+  if (kind === 'to') {
+    res.writeHead(302, { Location: decodeURIComponent(target) }).end();
+  } else if (kind === 'loop') {
+    res.writeHead(301, { Location: '/loop' }).end();
+  } else if (kind === 'cached') {
+    res.writeHead(304).end();
+  } else {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end(`served ${req.url}`);
+  }
+});
+
+describe('PublicHttpClient', () => {
+  // Loopback stands in for the public internet; everything else non-public stays blocked.
+  const client = new PublicHttpClient(createPublicHttp(), address => address === '127.0.0.1' || isPublicAddress(address));
+  let base: string;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('refuses non-public addresses by default without connecting', async () => {
+    await expect(new PublicHttpClient().get(`${base}/page`)).rejects.toBeInstanceOf(BlockedAddressError);
+    // Hostnames are checked when resolved, inside axios, which wraps the error.
+    await expect(new PublicHttpClient().get('http://localhost:1/')).rejects.toThrow('Refusing to connect to non-public address');
+  });
+
+  it('follows redirects and reports where the response came from', async () => {
+    const response = await client.get<string>(`${base}/to/${encodeURIComponent('/page')}`, { responseType: 'text' });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toBe('served /page');
+    expect(response.url.href).toBe(`${base}/page`);
+  });
+
+  it('checks every redirect target before requesting it', async () => {
+    const metadata = encodeURIComponent('http://169.254.169.254/latest/meta-data');
+
+    await expect(client.get(`${base}/to/${metadata}`)).rejects.toBeInstanceOf(BlockedAddressError);
+  });
+
+  it('gives up on redirect loops', async () => {
+    await expect(client.get(`${base}/loop`)).rejects.toThrow('Too many redirects');
+  });
+
+  it('leaves statuses other than redirects to the caller', async () => {
+    const response = await client.get(`${base}/cached`, { validateStatus: status => status === 304 });
+
+    expect(response.status).toBe(304);
+    await expect(client.get(`${base}/cached`)).rejects.toThrow('status code 304');
+  });
+
+  it('caps response sizes', () => {
+    expect(createPublicHttp().defaults.maxContentLength).toBe(5 * 1024 * 1024);
+  });
+});
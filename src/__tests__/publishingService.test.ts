@@ -0,0 +1,128 @@
+import Article, { ArticleStatus, IArticle } from '../models/Article';
+import {
+  ALLOWED_TRANSITIONS,
+  InvalidScheduleError,
+  InvalidTransitionError,
+  PublishingService,
+  PublishScheduler
+} from '../services/publishingService';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const NOW = new Date('2024-03-05T09:30:00Z');
+const later = (minutes: number): Date => new Date(NOW.getTime() + minutes * 60 * 1000);
+
+describe('PublishingService', () => {
+  const publishing = new PublishingService();
+
+  describe('transition rules', () => {
+    it('only allows the documented moves', () => {
+      expect(publishing.canTransition('draft', 'in_review')).toBe(true);
+      expect(publishing.canTransition('in_review', 'published')).toBe(true);
+      expect(publishing.canTransition('published', 'archived')).toBe(true);
+      expect(publishing.canTransition('archived', 'draft')).toBe(true);
+      expect(publishing.canTransition('draft', 'published')).toBe(false);
+      expect(publishing.canTransition('published', 'draft')).toBe(false);
+      expect(publishing.canTransition('archived', 'published')).toBe(false);
+    });
+
+    it('never allows staying in the same state', () => {
+      (Object.keys(ALLOWED_TRANSITIONS) as ArticleStatus[]).forEach(status => {
+        expect(publishing.canTransition(status, status)).toBe(false);
+      });
+    });
+
+    it('lets authors only submit drafts for review', () => {
+      expect(publishing.isAuthorTransition('draft', 'in_review')).toBe(true);
+      expect(publishing.isAuthorTransition('in_review', 'published')).toBe(false);
+      expect(publishing.isAuthorTransition('published', 'archived')).toBe(false);
+    });
+
+    it('lists the allowed moves in the problem document', () => {
+      expect(new InvalidTransitionError('draft', 'published').toProblem()).toMatchObject({
+        status: 409,
+        code: 'invalid_transition',
+        from: 'draft',
+        to: 'published',
+        allowed: ['in_review', 'archived']
+      });
+    });
+  });
+
+  describe('transition', () => {
+    const create = (status: ArticleStatus, fields: Partial<IArticle> = {}): Promise<IArticle> => Article.create({
+      title: 'How tides are measured',
+      content: 'Tide gauges record the height of the sea surface every few minutes at harbours around the world.',
+      author: 'Maria Lopez',
+      status,
+      ...fields
+    });
+
+    beforeAll(async () => {
+      await startDatabase();
+    });
+
+    beforeEach(async () => {
+      await clearDatabase();
+    });
+
+    afterAll(async () => {
+      await stopDatabase();
+    });
+
+    it('refuses moves the workflow does not allow', async () => {
+      const draft = await create('draft');
+
+      await expect(publishing.transition(draft, 'published', undefined, NOW)).rejects.toBeInstanceOf(InvalidTransitionError);
+      expect((await Article.findById(draft._id))?.status).toBe('draft');
+    });
+
+    it('stamps the publication time and keeps it through archiving', async () => {
+      const review = await create('in_review');
+
+      const published = await publishing.transition(review, 'published', undefined, NOW);
+      expect(published).toMatchObject({ status: 'published', publishedAt: NOW });
+
+      const archived = await publishing.transition(published!, 'archived', undefined, later(60));
+      expect(archived).toMatchObject({ status: 'archived', publishedAt: NOW });
+    });
+
+    it('keeps a publication time the article already has', async () => {
+      const review = await create('in_review', { publishedAt: later(-60) });
+
+      expect(await publishing.transition(review, 'published', undefined, NOW)).toMatchObject({ publishedAt: later(-60) });
+    });
+
+    it('needs a future publishAt to schedule', async () => {
+      const review = await create('in_review');
+
+      await expect(publishing.transition(review, 'scheduled', undefined, NOW)).rejects.toBeInstanceOf(InvalidScheduleError);
+      await expect(publishing.transition(review, 'scheduled', later(-1), NOW)).rejects.toThrow('publishAt must be in the future');
+
+      const scheduled = await publishing.transition(review, 'scheduled', later(30), NOW);
+      expect(scheduled).toMatchObject({ status: 'scheduled', publishAt: later(30) });
+
+      const back = await publishing.transition(scheduled!, 'in_review', undefined, NOW);
+      expect(back?.publishAt).toBeUndefined();
+    });
+
+    it('lets only one of two racing transitions win', async () => {
+      const review = await create('in_review');
+      const stale = await Article.findById(review._id);
+
+      expect(await publishing.transition(review, 'published', undefined, NOW)).not.toBeNull();
+      expect(await publishing.transition(stale!, 'draft', undefined, NOW)).toBeNull();
+      expect((await Article.findById(review._id))?.status).toBe('published');
+    });
+
+    it('publishes scheduled articles once they are due', async () => {
+      const due = await create('scheduled', { publishAt: later(-5) });
+      const upcoming = await create('scheduled', { publishAt: later(30) });
+      const scheduler = new PublishScheduler(publishing);
+
+      expect(await scheduler.tick(NOW)).toBe(1);
+      expect(await Article.findById(due._id).lean()).toMatchObject({ status: 'published', publishedAt: later(-5) });
+      expect(await Article.findById(upcoming._id).lean()).toMatchObject({ status: 'scheduled', publishAt: later(30) });
+      expect(await scheduler.tick(NOW)).toBe(0);
+    });
+  });
+});
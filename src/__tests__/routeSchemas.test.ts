@@ -0,0 +1,87 @@
+import '../app';
+import Joi from 'joi';
+import { buildSpecs } from '../config/swagger';
+import { routeRegistry } from '../routes/registry';
+import { joiToOpenApi, OpenApiObject, schemaKeys } from '../utils/joiToOpenApi';
+import { specPath } from './helpers/openapi';
+
+const spec = buildSpecs();
+
+const routes = routeRegistry.map(route => ({
+  name: `${route.method.toUpperCase()} ${route.fullPath}`,
+  route,
+  operation: spec.paths[specPath(route.fullPath)]?.[route.method] as OpenApiObject | undefined
+}));
+
+const documented = (operation: OpenApiObject | undefined, location: 'path' | 'query'): string[] =>
+  (operation?.parameters ?? [])
+    .filter((parameter: OpenApiObject) => parameter.in === location)
+    .map((parameter: OpenApiObject) => parameter.name)
+    .sort();
+
+const declared = (schema: Joi.ObjectSchema | undefined): string[] => (schema ? schemaKeys(schema) : []).sort();
+
+describe('route schemas', () => {
+  it('registers routes', () => {
+    expect(routes.length).toBeGreaterThan(0);
+  });
+
+  it('documents exactly the registered operations', () => {
+    const operations = Object.entries(spec.paths as Record<string, OpenApiObject>)
+      .flatMap(([path, methods]) => Object.keys(methods).map(method => `${method.toUpperCase()} ${path}`))
+      .sort();
+
+    expect(operations).toEqual(routes.map(({ route }) => `${route.method.toUpperCase()} ${specPath(route.fullPath)}`).sort());
+  });
+
+  it.each(routes)('$name documents every path parameter as required', ({ route, operation }) => {
+    const inPath = [...route.fullPath.matchAll(/:(\w+)/g)].map(([, name]) => name).sort();
+
+    expect(documented(operation, 'path')).toEqual(inPath);
+    expect(declared(route.request.params)).toEqual(inPath);
+    (operation?.parameters ?? [])
+      .filter((parameter: OpenApiObject) => parameter.in === 'path')
+      .forEach((parameter: OpenApiObject) => expect(parameter.required).toBe(true));
+  });
+
+  it.each(routes)('$name documents the query keys it validates', ({ route, operation }) => {
+    expect(documented(operation, 'query')).toEqual(declared(route.request.query));
+  });
+
+  it.each(routes)('$name documents the body it validates', ({ route, operation }) => {
+    if (!route.request.body) {
+      expect(operation?.requestBody).toBeUndefined();
+      return;
+    }
+
+    const content = operation?.requestBody?.content ?? {};
+    expect(content['application/json']).toBeDefined();
+    (route.textBody ?? []).forEach(type => expect(content[type]).toBeDefined());
+
+    // Alternatives such as OPML-as-text-or-JSON document their structured form for JSON.
+    const schema = joiToOpenApi(route.request.body);
+    const structured = schema.oneOf?.find((alternative: OpenApiObject) => alternative.type === 'object') ?? schema;
+    const jsonSchema = content['application/json'].schema;
+
+    expect(Object.keys(jsonSchema.properties ?? {}).sort()).toEqual(Object.keys(structured.properties ?? {}).sort());
+    expect((jsonSchema.required ?? []).slice().sort()).toEqual((structured.required ?? []).slice().sort());
+  });
+
+  it('validates a body on every route that creates or changes a resource from one', () => {
+    // Routes here act on the path alone, e.g. pausing a source; anything else that writes takes a validated body.
+    const bodiless = new Set([
+      'POST /articles/:id/restore',
+      'POST /articles/:id/revisions/:revision/restore',
+      'POST /users/:id/restore',
+      'POST /sources/:id/pause',
+      'POST /sources/:id/resume',
+      'POST /sources/:id/refresh'
+    ]);
+
+    const missing = routes
+      .filter(({ route, name }) => (route.method === 'post' || route.method === 'put') && !route.request.body && !bodiless.has(name))
+      .map(({ name }) => name);
+
+    expect(missing).toEqual([]);
+  });
+});
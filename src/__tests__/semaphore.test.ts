@@ -0,0 +1,60 @@
+import { Semaphore } from '../utils/semaphore';
+
+/** A task that runs until `release` is called. */
+const deferred = () => {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  return { task: () => done, release };
+};
+
+describe('Semaphore', () => {
+  it('queues tasks beyond the limit in arrival order', async () => {
+    const semaphore = new Semaphore(1);
+    const order: number[] = [];
+    const first = deferred();
+
+    const runs = [
+      semaphore.run(() => { order.push(1); return first.task(); }),
+      semaphore.run(async () => { order.push(2); }),
+      semaphore.run(async () => { order.push(3); })
+    ];
+
+    expect([semaphore.running, semaphore.pending]).toEqual([1, 2]);
+    first.release();
+    await Promise.all(runs);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect([semaphore.running, semaphore.pending]).toEqual([0, 0]);
+  });
+
+  it('never lets a newcomer take a slot handed to a waiting task', async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let peak = 0;
+
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      running--;
+    };
+
+    // A new call arriving in the same tick a task finishes used to start
+    // before the woken waiter, which then ran beyond the limit.
+    const runs = Array.from({ length: 6 }, () => semaphore.run(task));
+    await runs[0];
+    runs.push(semaphore.run(task), semaphore.run(task));
+    await Promise.all(runs);
+
+    expect(peak).toBe(2);
+    expect(semaphore.running).toBe(0);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    const semaphore = new Semaphore(1);
+
+    await expect(semaphore.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(semaphore.run(async () => 'next')).resolves.toBe('next');
+    expect(semaphore.running).toBe(0);
+  });
+});
@@ -0,0 +1,4 @@
+// Runs before each test file's imports, so modules reading configuration at load time see these values.
+process.env.JWT_SECRET = 'test-secret';
+process.env.SUMMARY_PROVIDERS = 'fake';
+process.env.SUMMARY_CACHE_ENABLED = 'false';
@@ -0,0 +1,76 @@
+import { fingerprintBands, hammingDistance, MAX_DETECTABLE_DISTANCE, simhash } from '../utils/simhash';
+
+const STORY = 'The deep ocean currents that carry cold, dense water away from the poles have slowed by roughly a tenth '
+  + 'since the 1990s, according to a study published on Tuesday. Researchers combined three decades of readings from '
+  + 'moored instruments, research cruises and drifting floats, and found the weakening was strongest in the Southern Ocean.';
+
+/** `fingerprint` with the lowest bit of each listed hex digit flipped. */
+const flip = (fingerprint: string, positions: number[]): string => {
+  const digits = fingerprint.split('');
+  positions.forEach(position => {
+    digits[position] = (parseInt(digits[position], 16) ^ 1).toString(16);
+  });
+  return digits.join('');
+};
+
+const sharesBand = (a: string, b: string): boolean => {
+  const bands = new Set(fingerprintBands(a));
+  return fingerprintBands(b).some(band => bands.has(band));
+};
+
+describe('simhash', () => {
+  it('returns a stable 64-bit hex fingerprint', () => {
+    expect(simhash(STORY)).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(STORY)).toBe(simhash(STORY));
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(simhash(STORY.toUpperCase().replace(/[,.]/g, ''))).toBe(simhash(STORY));
+  });
+
+  it('puts lightly edited copies closer than unrelated text', () => {
+    const edited = STORY.replace('on Tuesday', 'this week').replace('roughly', 'about');
+    const unrelated = 'Magma rises because it is less dense than the surrounding rock, and the gases dissolved in it '
+      + 'expand as it nears the surface, so the silica content decides how explosive an eruption will be.';
+
+    const near = hammingDistance(simhash(STORY), simhash(edited));
+
+    expect(near).toBeLessThanOrEqual(MAX_DETECTABLE_DISTANCE);
+    expect(near).toBeLessThan(hammingDistance(simhash(STORY), simhash(unrelated)));
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('00000000000000f0', '0000000000000011')).toBe(4);
+  });
+});
+
+describe('fingerprintBands', () => {
+  const fingerprint = '0123456789abcdef';
+
+  it('splits a fingerprint into eight prefixed bands', () => {
+    expect(fingerprintBands(fingerprint)).toEqual(['0:01', '1:23', '2:45', '3:67', '4:89', '5:ab', '6:cd', '7:ef']);
+  });
+
+  it('only matches equal bytes in the same position', () => {
+    expect(sharesBand(fingerprint, '23456789abcdef01')).toBe(false);
+  });
+
+  it('always shares a band within the detectable distance', () => {
+    // The worst case spreads the differing bits over as many bands as possible.
+    const spread = flip(fingerprint, [0, 2, 4, 6, 8, 10, 12]);
+
+    expect(hammingDistance(fingerprint, spread)).toBe(MAX_DETECTABLE_DISTANCE);
+    expect(sharesBand(fingerprint, spread)).toBe(true);
+  });
+
+  it('can miss fingerprints one bit further apart', () => {
+    const spread = flip(fingerprint, [0, 2, 4, 6, 8, 10, 12, 14]);
+
+    expect(hammingDistance(fingerprint, spread)).toBe(MAX_DETECTABLE_DISTANCE + 1);
+    expect(sharesBand(fingerprint, spread)).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+import request from 'supertest';
+import app from '../app';
+import Article from '../models/Article';
+import User from '../models/User';
+import { SummaryCacheService } from '../services/summaryCacheService';
+import { SummaryJobService } from '../services/summaryJobService';
+import { FakeSummaryProvider, SummaryProvider, SummaryProviderRegistry } from '../services/summaryProviders';
+import { AISummaryService, SummaryService } from '../services/summaryService';
+import { contentHash } from '../utils/contentHash';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const CONTENT = 'The deep ocean currents that carry cold, dense water away from the poles have slowed by roughly a tenth '
+  + 'since the 1990s, according to a study published on Tuesday. Researchers combined three decades of readings from '
+  + 'moored instruments, research cruises and drifting floats, and found the weakening was strongest in the Southern '
+  + 'Ocean, where most of the world\'s bottom water forms. They link the slowdown to fresh water from melting ice.';
+
+const GOOD_SUMMARY = 'Deep ocean currents carrying cold water from the poles have slowed by about a tenth since the 1990s.';
+
+/** An AI service that tries `providers` in the order given, through a registry of its own. */
+const aiServiceFor = (...providers: SummaryProvider[]): AISummaryService => {
+  const registry = new SummaryProviderRegistry();
+  providers.forEach(provider => registry.register(provider));
+  return new AISummaryService(registry, providers.map(({ name }) => ({ name })));
+};
+
+const uncached = new SummaryCacheService(30, false);
+
+describe('AISummaryService', () => {
+  describe('generateBestSummary', () => {
+    it('falls back past failing and invalid providers in order', async () => {
+      const failing = new FakeSummaryProvider({ name: 'failing', failureRate: 1 });
+      const invalid = new FakeSummaryProvider({ name: 'invalid', invalidRate: 1 });
+      const good = new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] });
+      const unused = new FakeSummaryProvider({ name: 'unused', responses: [GOOD_SUMMARY] });
+
+      const result = await aiServiceFor(failing, invalid, good, unused).generateBestSummary(CONTENT);
+
+      expect(result).toEqual({ summary: GOOD_SUMMARY, provider: 'good', model: 'scripted', method: 'ai' });
+      expect([failing.callCount, invalid.callCount, good.callCount, unused.callCount]).toEqual([1, 1, 1, 0]);
+    });
+
+    it('skips providers that are not configured without calling them', async () => {
+      const offline: SummaryProvider = {
+        name: 'offline',
+        defaultModel: 'none',
+        unavailableReason: () => 'No API key configured',
+        summarize: jest.fn()
+      };
+      const good = new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] });
+
+      const result = await aiServiceFor(offline, good).generateBestSummary(CONTENT);
+
+      expect(result.provider).toBe('good');
+      expect(offline.summarize).not.toHaveBeenCalled();
+    });
+
+    it('falls back to an extractive summary when every provider fails', async () => {
+      const providers = [
+        new FakeSummaryProvider({ name: 'failing', failureRate: 1 }),
+        new FakeSummaryProvider({ name: 'invalid', invalidRate: 1 })
+      ];
+
+      const result = await aiServiceFor(...providers).generateBestSummary(CONTENT, { maxSentences: 1 });
+
+      expect(result).toMatchObject({ provider: 'extractive', model: 'tf-idf', method: 'extractive' });
+      expect(CONTENT).toContain(result.summary);
+      expect(providers.map(provider => provider.callCount)).toEqual([1, 1]);
+    });
+
+    it.each([
+      ['too short', 'Currents slowed.'],
+      ['fewer than ten words', 'Just nine words sit in this summary right here.'],
+      ['nearly as long as the content', CONTENT],
+      ['an error message', 'The model ran into an error while reading the article and returned this text.'],
+      ['a failure message', 'Summarization failed for this article, so there is nothing useful to show here.'],
+      ['an undefined value', 'The article says undefined about the currents and their effect on the climate.']
+    ])('rejects output that is %s and asks the next provider', async (_, response) => {
+      const rejected = new FakeSummaryProvider({ name: 'rejected', responses: [response] });
+      const good = new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] });
+
+      const result = await aiServiceFor(rejected, good).generateBestSummary(CONTENT);
+
+      expect(result.provider).toBe('good');
+      expect(rejected.callCount).toBe(1);
+    });
+
+    it('uses the configured model for each provider', async () => {
+      const registry = new SummaryProviderRegistry().register(new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] }));
+      const service = new AISummaryService(registry, [{ name: 'good', model: 'fake-large' }]);
+
+      expect((await service.generateBestSummary(CONTENT)).model).toBe('fake-large');
+    });
+  });
+});
+
+describe('SummaryService', () => {
+  it('records which provider and model wrote a generated summary', async () => {
+    const service = new SummaryService(aiServiceFor(
+      new FakeSummaryProvider({ name: 'failing', failureRate: 1 }),
+      new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] })
+    ), uncached);
+
+    const { summary, provenance } = await service.generateSummaryForArticle(CONTENT);
+
+    expect(summary).toBe(GOOD_SUMMARY);
+    expect(provenance).toEqual({
+      provider: 'good',
+      model: 'scripted',
+      method: 'ai',
+      generated: true,
+      generatedAt: expect.any(Date),
+      contentHash: contentHash(CONTENT)
+    });
+  });
+
+  it('records extractive fallbacks and summaries written by hand', async () => {
+    const service = new SummaryService(aiServiceFor(new FakeSummaryProvider({ failureRate: 1 })), uncached);
+
+    expect((await service.generateSummaryForArticle(CONTENT)).provenance)
+      .toMatchObject({ provider: 'extractive', model: 'tf-idf', method: 'extractive', generated: true });
+    expect((await service.generateSummaryForArticle(CONTENT, '  Written by the author.  ')))
+      .toMatchObject({
+        summary: 'Written by the author.',
+        provenance: { provider: 'user-provided', model: 'none', method: 'manual', generated: false }
+      });
+  });
+});
+
+describe('article summaries', () => {
+  let token: string;
+
+  beforeAll(async () => {
+    await startDatabase();
+    await clearDatabase();
+
+    await request(app).post('/api/users').send({ username: 'author_user', password: 'correct horse battery' });
+    await User.updateOne({ username: 'author_user' }, { role: 'author' });
+    const login = await request(app).post('/api/auth/login').send({ username: 'author_user', password: 'correct horse battery' });
+    token = login.body.data.accessToken;
+  });
+
+  afterAll(async () => {
+    await stopDatabase();
+  });
+
+  const createArticle = (body: object) => request(app)
+    .post('/api/articles')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ title: 'Deep-sea currents are slowing', author: 'Maria Lopez', ...body });
+
+  it('stores a written summary as manual without queueing a job', async () => {
+    const res = await createArticle({ content: CONTENT, summary: 'Ocean currents are slowing.' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.summaryJob).toBeNull();
+    expect(res.body.data).toMatchObject({
+      summary: 'Ocean currents are slowing.',
+      summaryStatus: 'ready',
+      summaryProvenance: { provider: 'user-provided', model: 'none', method: 'manual', generated: false }
+    });
+  });
+
+  it('queues a job for a missing summary and records the provider that writes it', async () => {
+    const content = 'Magma rises because it is less dense than the surrounding rock, and the gases dissolved in it '
+      + 'expand as it nears the surface. Whether an eruption is explosive depends mostly on how easily those gases '
+      + 'escape, which in turn depends on how viscous the magma is and how much silica it contains.';
+    const res = await createArticle({ content });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.summaryStatus).toBe('pending');
+    expect(res.body.data.summary).toBeUndefined();
+    expect(res.body.summaryJob).toMatchObject({ articleId: res.body.data._id, reason: 'create', status: 'pending' });
+
+    const jobs = new SummaryJobService(new SummaryService(aiServiceFor(
+      new FakeSummaryProvider({ name: 'failing', failureRate: 1 }),
+      new FakeSummaryProvider({ name: 'good', responses: [GOOD_SUMMARY] })
+    ), uncached));
+    const job = await jobs.run((await jobs.claimNext())!);
+
+    expect(job).toMatchObject({ status: 'completed', result: { provider: 'good', model: 'scripted', method: 'ai' } });
+    expect(await Article.findById(res.body.data._id).lean()).toMatchObject({
+      summary: GOOD_SUMMARY,
+      summaryStatus: 'ready',
+      summaryProvenance: { provider: 'good', model: 'scripted', method: 'ai', generated: true, contentHash: contentHash(content) }
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Types } from 'mongoose';
+import Article, { IArticle } from '../models/Article';
+import ArticleRevision from '../models/ArticleRevision';
+import Interaction from '../models/Interaction';
+import User, { IUser } from '../models/User';
+import { ANY_DELETION_STATE } from '../models/plugins/softDelete';
+import { RevisionService } from '../services/revisionService';
+import { TrashService } from '../services/trashService';
+import { clearDatabase, startDatabase, stopDatabase } from './helpers/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const afterRetention = (): Date => new Date(Date.now() + 31 * DAY_MS);
+
+/** Interactions of `filter`, live and hidden, as `type:hidden|live` labels for compact assertions. */
+const interactionStates = async (filter: object): Promise<string[]> => {
+  const interactions = await Interaction.find({ ...filter, deletedAt: ANY_DELETION_STATE }).sort({ interactionType: 1 });
+  return interactions.map(({ interactionType, deletedAt }) => `${interactionType}:${deletedAt ? 'hidden' : 'live'}`);
+};
+
+describe('TrashService', () => {
+  const trash = new TrashService(30);
+  let article: IArticle;
+  let reader: IUser;
+  let other: IUser;
+
+  const interact = (user: IUser, articleId: unknown, interactionType: string, fields: object = {}) =>
+    Interaction.create({ userId: user._id, articleId, interactionType, ...fields });
+
+  beforeAll(async () => {
+    await startDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearDatabase();
+
+    article = await Article.create({
+      title: 'How tides are measured',
+      content: 'Tide gauges record the height of the sea surface every few minutes at harbours around the world.',
+      author: 'Maria Lopez',
+      status: 'published'
+    });
+    reader = await User.create({ username: 'reader_user' });
+    other = await User.create({ username: 'other_user' });
+
+    await interact(reader, article._id, 'like');
+    await interact(reader, article._id, 'comment', { content: 'Fascinating.' });
+    await interact(other, article._id, 'view');
+  });
+
+  afterAll(async () => {
+    await stopDatabase();
+  });
+
+  it('hides an article\'s interactions with it and brings them back on restore', async () => {
+    const trashed = await trash.trashArticle(String(article._id));
+
+    expect(trashed?.cascade).toEqual({ interactions: 3 });
+    expect(await Article.findById(article._id)).toBeNull();
+    expect(await interactionStates({ articleId: article._id })).toEqual(['comment:hidden', 'like:hidden', 'view:hidden']);
+    expect(await trash.trashArticle(String(article._id))).toBeNull();
+
+    const restored = await trash.restoreArticle(String(article._id));
+
+    expect(restored?.cascade).toEqual({ interactions: 3 });
+    expect(await interactionStates({ articleId: article._id })).toEqual(['comment:live', 'like:live', 'view:live']);
+    expect(await trash.restoreArticle(String(article._id))).toBeNull();
+  });
+
+  it('keeps interactions hidden while their other side is still in the trash', async () => {
+    await trash.trashUser(String(other._id));
+    await trash.trashArticle(String(article._id));
+
+    await trash.restoreArticle(String(article._id));
+
+    expect(await interactionStates({ userId: reader._id })).toEqual(['comment:live', 'like:live']);
+    expect(await interactionStates({ userId: other._id })).toEqual(['view:hidden']);
+
+    await trash.restoreUser(String(other._id));
+    expect(await interactionStates({ userId: other._id })).toEqual(['view:live']);
+  });
+
+  it('trashes matching articles in bulk with the same cascade', async () => {
+    const sourceId = new Types.ObjectId();
+    await Article.updateOne({ _id: article._id }, { sourceId });
+
+    expect(await trash.trashArticles({ sourceId })).toEqual({ trashed: 1, cascade: { interactions: 3 } });
+    expect(await trash.trashArticles({ sourceId })).toEqual({ trashed: 0, cascade: { interactions: 0 } });
+  });
+
+  it('only purges what has been in the trash past the retention period', async () => {
+    await trash.trashArticle(String(article._id));
+
+    expect(await trash.purgeExpired()).toMatchObject({ articles: 0, users: 0 });
+    expect(await Article.countDocuments({ deletedAt: { $ne: null } })).toBe(1);
+  });
+
+  it('purges an article with its interactions and revisions', async () => {
+    await new RevisionService().recordRevision(article, { reason: 'create' });
+    await trash.trashArticle(String(article._id));
+
+    expect(await trash.purgeExpired(afterRetention())).toEqual({
+      articles: 1,
+      users: 0,
+      interactions: 3,
+      anonymized: 0,
+      revisions: 1
+    });
+    expect(await Article.countDocuments({ deletedAt: ANY_DELETION_STATE })).toBe(0);
+    expect(await Interaction.countDocuments({ deletedAt: ANY_DELETION_STATE })).toBe(0);
+    expect(await ArticleRevision.countDocuments()).toBe(0);
+  });
+
+  it('deletes a purged user\'s engagement and keeps their comments without an author', async () => {
+    await trash.trashUser(String(reader._id));
+
+    expect(await trash.purgeExpired(afterRetention())).toMatchObject({ users: 1, interactions: 1, anonymized: 1 });
+
+    const comment = await Interaction.findOne({ interactionType: 'comment' });
+    expect(comment?.userId).toBeUndefined();
+    expect(comment?.anonymizedAt).toBeInstanceOf(Date);
+    expect(await interactionStates({})).toEqual(['comment:live', 'view:live']);
+  });
+
+  it('keeps anonymized comments hidden while their article is in the trash', async () => {
+    await trash.trashArticle(String(article._id));
+    await trash.trashUser(String(reader._id));
+
+    // The article went to the trash later, so only the user is past retention.
+    await Article.updateOne({ _id: article._id, deletedAt: { $ne: null } }, { deletedAt: new Date(Date.now() + 10 * DAY_MS) });
+    expect(await trash.purgeExpired(afterRetention())).toMatchObject({ articles: 0, users: 1, anonymized: 1 });
+
+    expect(await interactionStates({ interactionType: 'comment' })).toEqual(['comment:hidden']);
+  });
+});
@@ -0,0 +1,54 @@
+import { diffWords } from '../utils/wordDiff';
+
+const words = (prefix: string, count: number): string =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('diffWords', () => {
+  it('reports identical texts as one equal segment', () => {
+    expect(diffWords('Tides rise and fall.', 'Tides rise and fall.')).toEqual({
+      segments: [{ op: 'equal', text: 'Tides rise and fall.' }],
+      added: 0,
+      removed: 0
+    });
+  });
+
+  it('marks replaced words and counts words rather than whitespace', () => {
+    expect(diffWords('Tides rise twice a day.', 'Tides rise roughly twice daily.')).toEqual({
+      segments: [
+        { op: 'equal', text: 'Tides rise ' },
+        { op: 'insert', text: 'roughly ' },
+        { op: 'equal', text: 'twice ' },
+        { op: 'delete', text: 'a day.' },
+        { op: 'insert', text: 'daily.' }
+      ],
+      added: 2,
+      removed: 2
+    });
+  });
+
+  it('treats missing text as empty', () => {
+    expect(diffWords(undefined, 'New text')).toEqual({ segments: [{ op: 'insert', text: 'New text' }], added: 2, removed: 0 });
+    expect(diffWords('Old text', undefined)).toEqual({ segments: [{ op: 'delete', text: 'Old text' }], added: 0, removed: 2 });
+    expect(diffWords()).toEqual({ segments: [], added: 0, removed: 0 });
+  });
+
+  it('replaces the whole text when the texts are too different to diff', () => {
+    const before = words('old', 800);
+    const after = words('new', 800);
+
+    expect(diffWords(before, after)).toEqual({
+      segments: [{ op: 'delete', text: before }, { op: 'insert', text: after }],
+      added: 800,
+      removed: 800
+    });
+  });
+
+  it('replaces the whole text when the texts are too long to diff', () => {
+    const before = words('word', 15000);
+    const after = `${before} one more`;
+
+    expect(diffWords(before, after).segments).toEqual([{ op: 'delete', text: before }, { op: 'insert', text: after }]);
+    expect(diffWords(before.slice(0, 20000), `${before.slice(0, 20000)} one more`).segments)
+      .toEqual([{ op: 'equal', text: before.slice(0, 20000) }, { op: 'insert', text: ' one more' }]);
+  });
+});
@@ -0,0 +1,71 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { errorHandler, notFound, requestLogger } from './middleware';
+import { buildSpecs, swaggerUi } from './config/swagger';
+
+import authRoutes from './routes/auth';
+import apiKeyRoutes from './routes/apiKeys';
+import articleRoutes from './routes/articles';
+import userRoutes from './routes/users';
+import interactionRoutes from './routes/interactions';
+import recommendationRoutes from './routes/recommendations';
+import sourceRoutes from './routes/sources';
+import clusterRoutes from './routes/clusters';
+import summaryJobRoutes from './routes/summaryJobs';
+
+/**
+ * The Express app without any process-level side effects: importing it does
+ * not connect to MongoDB, start background jobs or listen on a port, so tests
+ * can drive it against a database of their choosing.
+ */
+const app = express();
+
+app.use(helmet());
+app.use(cors());
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true }));
+app.use(requestLogger);
+
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    service: 'Smart Content Aggregator API',
+    version: '1.0.0'
+  });
+});
+
+app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(buildSpecs(), {
+  explorer: true,
+  customCss: '.swagger-ui .topbar { display: none }',
+  customSiteTitle: 'Smart Content Aggregator API Documentation',
+  swaggerOptions: {
+    persistAuthorization: true,
+    displayRequestDuration: true
+  }
+}));
+
+app.use('/api/auth', authRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/articles', articleRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/interactions', interactionRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/sources', sourceRoutes);
+app.use('/api/clusters', clusterRoutes);
+app.use('/api/summary-jobs', summaryJobRoutes);
+
+app.get('/', (req, res) => {
+  res.json({
+    message: 'Smart Content Aggregator API',
+    version: '1.0.0',
+    documentation: '/api-docs',
+    health: '/health'
+  });
+});
+
+app.use(notFound);
+app.use(errorHandler);
+
+export default app;
@@ -1,372 +1,1176 @@
-import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
+import { RegisteredRoute, RouteAuth, routeRegistry } from '../routes/registry';
+import { PROBLEM_CONTENT_TYPE } from '../utils/errors';
+import { joiToOpenApi, joiToParameters, OpenApiObject } from '../utils/joiToOpenApi';
 
-const options = {
-  definition: {
-    openapi: '3.0.0',
-    info: {
-      title: 'Smart Content Aggregator API',
-      version: '1.0.0',
-      description: ' A smart content aggregation API with AI-powered features including:',
-      contact: {
-        name: 'API Support',
-        email: 'support@aggregator.com'
-      }
-    },
-    servers: [
-      {
-        url: process.env.NODE_ENV === 'production' 
-          ? 'https://j.com/api' 
-          : 'http://localhost:3000/api',
-        description: process.env.NODE_ENV === 'production' ? 'Production server' : 'Development server'
-      }
-    ],
-    components: {
-      schemas: {
-        Article: {
-          type: 'object',
-          required: ['title', 'content', 'author'],
-          properties: {
-            _id: {
-              type: 'string',
-              description: 'Unique identifier',
-              example: '65f1a2b3c4d5e6f7g8h9i0j1'
-            },
-            title: {
-              type: 'string',
-              minLength: 5,
-              maxLength: 200,
-              description: 'Article title',
-              example: 'Introduction to Machine Learning'
-            },
-            content: {
-              type: 'string',
-              minLength: 50,
-              description: 'Article content',
-              example: 'Machine learning is a subset of artificial intelligence that focuses on...'
-            },
-            author: {
-              type: 'string',
-              minLength: 2,
-              maxLength: 100,
-              description: 'Article author',
-              example: 'John Doe'
-            },
-            summary: {
-              type: 'string',
-              maxLength: 500,
-              description: 'Article summary (auto-generated if not provided)',
-              example: 'This article introduces the basics of machine learning...'
-            },
-            tags: {
-              type: 'array',
-              items: {
-                type: 'string'
+const definition = {
+  openapi: '3.0.0',
+  info: {
+    title: 'Smart Content Aggregator API',
+    version: '1.0.0',
+    description: ' A smart content aggregation API with AI-powered features including:',
+    contact: {
+      name: 'API Support',
+      email: 'support@aggregator.com'
+    }
+  },
+  servers: [
+    {
+      url: process.env.NODE_ENV === 'production' 
+        ? 'https://j.com/api' 
+        : 'http://localhost:3000/api',
+      description: process.env.NODE_ENV === 'production' ? 'Production server' : 'Development server'
+    }
+  ],
+  components: {
+    schemas: {
+      Article: {
+        type: 'object',
+        required: ['title', 'content', 'author'],
+        properties: {
+          _id: {
+            type: 'string',
+            description: 'Unique identifier',
+            example: '65f1a2b3c4d5e6f7g8h9i0j1'
+          },
+          title: {
+            type: 'string',
+            minLength: 5,
+            maxLength: 200,
+            description: 'Article title',
+            example: 'Introduction to Machine Learning'
+          },
+          content: {
+            type: 'string',
+            minLength: 50,
+            description: 'Article content',
+            example: 'Machine learning is a subset of artificial intelligence that focuses on...'
+          },
+          author: {
+            type: 'string',
+            minLength: 2,
+            maxLength: 100,
+            description: 'Article author',
+            example: 'John Doe'
+          },
+          summary: {
+            type: 'string',
+            maxLength: 500,
+            description: 'Article summary (auto-generated if not provided)',
+            example: 'This article introduces the basics of machine learning...'
+          },
+          summaryProvenance: {
+            type: 'object',
+            description: 'How the summary was produced; absent on articles saved before it was recorded',
+            properties: {
+              provider: { type: 'string', example: 'ollama' },
+              model: { type: 'string', example: 'llama2' },
+              method: {
+                type: 'string',
+                enum: ['ai', 'extractive', 'truncated', 'manual'],
+                description: 'truncated is the opening of the content, used when generation failed; manual was written by a person'
               },
-              description: 'Article tags',
-              example: ['machine-learning', 'ai', 'technology']
-            },
-            createdAt: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Creation timestamp'
-            },
-            updatedAt: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Last update timestamp'
+              generated: { type: 'boolean', description: 'False when the summary was user-provided' },
+              generatedAt: { type: 'string', format: 'date-time' },
+              contentHash: { type: 'string', description: 'SHA-256 of the whitespace-normalized content the summary was produced from' }
             }
-          }
-        },
-        User: {
-          type: 'object',
-          required: ['username'],
-          properties: {
-            _id: {
-              type: 'string',
-              description: 'Unique identifier',
-              example: '65f1a2b3c4d5e6f7g8h9i0j2'
-            },
-            username: {
-              type: 'string',
-              minLength: 3,
-              maxLength: 30,
-              pattern: '^[a-zA-Z0-9_]+$',
-              description: 'Unique username',
-              example: 'johndoe123'
+          },
+          summaryStatus: {
+            type: 'string',
+            enum: ['pending', 'ready', 'failed'],
+            description: 'pending while a summary job is queued or running; failed once its retries ran out and the content was truncated instead'
+          },
+          tags: {
+            type: 'array',
+            items: {
+              type: 'string'
             },
-            interests: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'User interests for recommendations',
-              example: ['technology', 'science', 'sports']
+            description: 'Article tags',
+            example: ['machine-learning', 'ai', 'technology']
+          },
+          url: {
+            type: 'string',
+            description: 'Canonical URL of the original article'
+          },
+          imageUrl: {
+            type: 'string',
+            description: 'Lead image URL'
+          },
+          publishedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Original publish date, when known'
+          },
+          status: {
+            type: 'string',
+            enum: ['draft', 'in_review', 'scheduled', 'published', 'archived'],
+            description: 'Editorial workflow state; only published articles are public'
+          },
+          publishAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When a scheduled article will be published'
+          },
+          sourceId: {
+            type: 'string',
+            description: 'Feed source the article was ingested from'
+          },
+          fingerprint: {
+            type: 'string',
+            description: 'SimHash of the content used for near-duplicate detection'
+          },
+          duplicateOf: {
+            type: 'string',
+            description: 'Original article of the story cluster this near-duplicate was merged into'
+          },
+          duplicateCount: {
+            type: 'integer',
+            description: 'Number of merged near-duplicates (only in collapsed listings)'
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Creation timestamp'
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last update timestamp'
+          }
+        }
+      },
+      User: {
+        type: 'object',
+        required: ['username'],
+        properties: {
+          _id: {
+            type: 'string',
+            description: 'Unique identifier',
+            example: '65f1a2b3c4d5e6f7g8h9i0j2'
+          },
+          username: {
+            type: 'string',
+            minLength: 3,
+            maxLength: 30,
+            pattern: '^[a-zA-Z0-9_]+$',
+            description: 'Unique username',
+            example: 'johndoe123'
+          },
+          interests: {
+            type: 'array',
+            items: {
+              type: 'string'
             },
-            createdAt: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Creation timestamp'
+            description: 'User interests for recommendations',
+            example: ['technology', 'science', 'sports']
+          },
+          role: {
+            type: 'string',
+            enum: ['reader', 'author', 'editor', 'admin'],
+            description: 'Readers interact, authors write and edit their own articles, editors manage all articles, sources and comments, admins manage users and summaries',
+            example: 'reader'
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Creation timestamp'
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last update timestamp'
+          }
+        }
+      },
+      Interaction: {
+        type: 'object',
+        required: ['articleId', 'interactionType'],
+        properties: {
+          _id: {
+            type: 'string',
+            description: 'Unique identifier',
+            example: '65f1a2b3c4d5e6f7g8h9i0j3'
+          },
+          userId: {
+            type: 'string',
+            description: 'User ID (absent once the comment has been anonymized)',
+            example: '65f1a2b3c4d5e6f7g8h9i0j2'
+          },
+          articleId: {
+            type: 'string',
+            description: 'Article ID',
+            example: '65f1a2b3c4d5e6f7g8h9i0j1'
+          },
+          interactionType: {
+            type: 'string',
+            enum: ['view', 'like', 'share', 'comment'],
+            description: 'Type of interaction',
+            example: 'like'
+          },
+          anonymizedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the author was purged and the comment kept without them'
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Interaction timestamp'
+          }
+        }
+      },
+      Source: {
+        type: 'object',
+        required: ['feedUrl'],
+        properties: {
+          _id: {
+            type: 'string',
+            description: 'Unique identifier'
+          },
+          title: {
+            type: 'string',
+            description: 'Feed title',
+            example: 'Example Tech Blog'
+          },
+          feedUrl: {
+            type: 'string',
+            format: 'uri',
+            description: 'RSS or Atom feed URL',
+            example: 'https://example.com/feed.xml'
+          },
+          siteUrl: {
+            type: 'string',
+            description: 'Website the feed belongs to'
+          },
+          pollIntervalMinutes: {
+            type: 'integer',
+            description: 'Minutes between polls',
+            example: 30
+          },
+          defaultTags: {
+            type: 'array',
+            items: {
+              type: 'string'
             },
-            updatedAt: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Last update timestamp'
+            description: 'Tags applied to every ingested article'
+          },
+          status: {
+            type: 'string',
+            enum: ['active', 'paused'],
+            description: 'Polling status'
+          },
+          lastFetchedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Time of the last fetch attempt'
+          },
+          lastFetchStatus: {
+            type: 'string',
+            enum: ['updated', 'not_modified', 'failed'],
+            description: 'Outcome of the last fetch attempt'
+          },
+          lastError: {
+            type: 'string',
+            description: 'Error from the last failed fetch; only shown to callers who manage sources'
+          },
+          nextFetchAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Time of the next scheduled fetch'
+          }
+        }
+      },
+      IngestionResult: {
+        type: 'object',
+        properties: {
+          sourceId: { type: 'string' },
+          feedUrl: { type: 'string' },
+          status: {
+            type: 'string',
+            enum: ['updated', 'not_modified', 'failed']
+          },
+          fetched: { type: 'integer' },
+          created: { type: 'integer' },
+          skipped: { type: 'integer' },
+          failed: { type: 'integer' },
+          error: { type: 'string' }
+        }
+      },
+      OpmlImportResult: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          created: { type: 'integer' },
+          duplicates: { type: 'integer' },
+          invalid: { type: 'integer' },
+          entries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                feedUrl: { type: 'string' },
+                status: {
+                  type: 'string',
+                  enum: ['created', 'duplicate', 'invalid']
+                },
+                sourceId: { type: 'string' },
+                tags: {
+                  type: 'array',
+                  items: { type: 'string' }
+                },
+                reason: { type: 'string' }
+              }
             }
           }
-        },
-        Interaction: {
-          type: 'object',
-          required: ['userId', 'articleId', 'interactionType'],
-          properties: {
-            _id: {
-              type: 'string',
-              description: 'Unique identifier',
-              example: '65f1a2b3c4d5e6f7g8h9i0j3'
-            },
-            userId: {
-              type: 'string',
-              description: 'User ID',
-              example: '65f1a2b3c4d5e6f7g8h9i0j2'
-            },
-            articleId: {
-              type: 'string',
-              description: 'Article ID',
-              example: '65f1a2b3c4d5e6f7g8h9i0j1'
-            },
-            interactionType: {
-              type: 'string',
-              enum: ['view', 'like', 'share', 'comment'],
-              description: 'Type of interaction',
-              example: 'like'
-            },
-            createdAt: {
-              type: 'string',
-              format: 'date-time',
-              description: 'Interaction timestamp'
+        }
+      },
+      SummaryJob: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string' },
+          articleId: { type: 'string' },
+          reason: {
+            type: 'string',
+            enum: ['create', 'update', 'bulk', 'ingest'],
+            description: 'What queued the job'
+          },
+          status: {
+            type: 'string',
+            enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+            description: 'cancelled when the summary was set some other way or the article is gone'
+          },
+          maxSentences: { type: 'integer' },
+          attempts: { type: 'integer', description: 'Attempts started so far' },
+          maxAttempts: { type: 'integer' },
+          runAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the job is next due; pushed back with exponential backoff after a failed attempt'
+          },
+          lockedAt: { type: 'string', format: 'date-time' },
+          lastError: { type: 'string' },
+          result: {
+            type: 'object',
+            description: 'How the stored summary was produced, once the job completed',
+            properties: {
+              provider: { type: 'string' },
+              model: { type: 'string' },
+              method: { type: 'string', enum: ['ai', 'extractive', 'truncated', 'manual'] }
+            }
+          },
+          completedAt: { type: 'string', format: 'date-time' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      SummaryCacheStats: {
+        type: 'object',
+        description: 'Hits and misses count lookups since the process started; entries are those not yet expired',
+        properties: {
+          enabled: { type: 'boolean' },
+          ttlDays: { type: 'integer' },
+          hits: { type: 'integer' },
+          misses: { type: 'integer' },
+          hitRate: { type: 'number', minimum: 0, maximum: 1 },
+          entries: { type: 'integer' },
+          providers: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                hits: { type: 'integer' },
+                entries: { type: 'integer' }
+              }
             }
           }
-        },
-        Recommendation: {
-          type: 'object',
-          properties: {
-            article: {
-              $ref: '#/components/schemas/Article'
-            },
-            score: {
-              type: 'number',
-              minimum: 0,
-              maximum: 1,
-              description: 'Recommendation score (0-1)',
-              example: 0.85
-            },
-            reasons: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'Reasons for recommendation',
-              example: ['Matches your interests: technology, ai', 'Popular among users']
+        }
+      },
+      ExtractionMetadata: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'How confident the extractor is that it found the article body'
+          },
+          signals: {
+            type: 'object',
+            properties: {
+              textLength: { type: 'integer' },
+              paragraphCount: { type: 'integer' },
+              linkDensity: { type: 'number' },
+              candidateScore: { type: 'number' }
             }
           }
-        },
-        ApiResponse: {
-          type: 'object',
-          properties: {
-            success: {
-              type: 'boolean',
-              description: 'Request success status'
-            },
-            message: {
-              type: 'string',
-              description: 'Response message'
-            },
-            data: {
+        }
+      },
+      StoryCluster: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Cluster identifier (ID of the representative article)'
+          },
+          representative: {
+            $ref: '#/components/schemas/Article'
+          },
+          members: {
+            type: 'array',
+            items: {
               type: 'object',
-              description: 'Response data'
+              properties: {
+                _id: { type: 'string' },
+                title: { type: 'string' },
+                author: { type: 'string' },
+                createdAt: { type: 'string', format: 'date-time' },
+                similarity: {
+                  type: 'number',
+                  description: 'Cosine similarity to the cluster centroid'
+                }
+              }
+            }
+          },
+          size: { type: 'integer' },
+          sharedTags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Tags used by at least half of the members'
+          },
+          keywords: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Highest weighted stemmed terms of the cluster'
+          },
+          mergedSummary: {
+            type: 'string',
+            description: 'Extractive summary across all member summaries'
+          },
+          firstSeenAt: { type: 'string', format: 'date-time' },
+          lastSeenAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      SearchHit: {
+        type: 'object',
+        description: 'Relevance data added to articles when a search query is given',
+        properties: {
+          score: {
+            type: 'number',
+            description: 'Relevance score (title matches weigh more than summary, summary more than content)'
+          },
+          highlights: {
+            type: 'object',
+            description: 'Matched fragments wrapped in <mark> tags',
+            properties: {
+              title: { type: 'string' },
+              summary: { type: 'string' },
+              content: { type: 'string' }
             }
           }
-        },
-        PaginationResponse: {
-          allOf: [
-            { $ref: '#/components/schemas/ApiResponse' },
-            {
+        }
+      },
+      ArticleRevision: {
+        type: 'object',
+        description: 'Immutable snapshot of an article after a change',
+        properties: {
+          _id: { type: 'string' },
+          articleId: { type: 'string' },
+          revision: {
+            type: 'integer',
+            description: 'Sequential revision number, starting at 1'
+          },
+          title: { type: 'string' },
+          content: { type: 'string' },
+          author: { type: 'string' },
+          summary: { type: 'string' },
+          tags: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          changedFields: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['title', 'content', 'author', 'summary', 'tags']
+            }
+          },
+          editedBy: { type: 'string' },
+          reason: {
+            type: 'string',
+            enum: ['create', 'update', 'restore']
+          },
+          restoredFrom: {
+            type: 'integer',
+            description: 'Revision that was restored (restore revisions only)'
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      RevisionDiff: {
+        type: 'object',
+        properties: {
+          from: { type: 'integer' },
+          to: { type: 'integer' },
+          changedFields: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          fields: {
+            type: 'object',
+            description: 'Word-level diff for each changed field',
+            additionalProperties: {
               type: 'object',
               properties: {
-                pagination: {
-                  type: 'object',
-                  properties: {
-                    total: {
-                      type: 'integer',
-                      description: 'Total number of items'
-                    },
-                    limit: {
-                      type: 'integer',
-                      description: 'Items per page'
-                    },
-                    offset: {
-                      type: 'integer',
-                      description: 'Offset from start'
-                    },
-                    page: {
-                      type: 'integer',
-                      description: 'Current page number'
-                    },
-                    totalPages: {
-                      type: 'integer',
-                      description: 'Total number of pages'
+                segments: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      op: {
+                        type: 'string',
+                        enum: ['equal', 'insert', 'delete']
+                      },
+                      text: { type: 'string' }
                     }
                   }
+                },
+                added: {
+                  type: 'integer',
+                  description: 'Words inserted'
+                },
+                removed: {
+                  type: 'integer',
+                  description: 'Words deleted'
                 }
               }
             }
-          ]
-        },
-        Error: {
-          type: 'object',
-          properties: {
-            error: {
-              type: 'string',
-              description: 'Error type'
-            },
-            message: {
-              type: 'string',
-              description: 'Error message'
-            },
-            details: {
-              type: 'array',
-              items: {
-                type: 'string'
-              },
-              description: 'Error details'
-            }
           }
         }
       },
-      parameters: {
-        LimitParam: {
-          name: 'limit',
-          in: 'query',
-          description: 'Number of items to return',
-          schema: {
-            type: 'integer',
-            minimum: 1,
-            maximum: 100,
-            default: 10
+      TrashInfo: {
+        type: 'object',
+        properties: {
+          deletedAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the item was moved to the trash'
+          },
+          purgeAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'When the item will be permanently removed'
           }
-        },
-        OffsetParam: {
-          name: 'offset',
-          in: 'query',
-          description: 'Number of items to skip',
-          schema: {
+        }
+      },
+      CascadeReport: {
+        type: 'object',
+        description: 'Dependent interactions affected by the operation',
+        properties: {
+          interactions: {
             type: 'integer',
+            description: 'Interactions hidden, restored or removed along with the item'
+          }
+        }
+      },
+      FacetValue: {
+        type: 'object',
+        properties: {
+          value: { type: 'string' },
+          title: {
+            type: 'string',
+            description: 'Display name (sources only)'
+          },
+          count: { type: 'integer' }
+        }
+      },
+      ArticleFacets: {
+        type: 'object',
+        description: 'Counts over every article matching the current filters, not just the returned page',
+        properties: {
+          tags: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/FacetValue' }
+          },
+          authors: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/FacetValue' }
+          },
+          sources: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/FacetValue' }
+          },
+          published: {
+            type: 'object',
+            description: 'Articles published within each window (windows overlap); older counts the rest',
+            properties: {
+              day: { type: 'integer' },
+              week: { type: 'integer' },
+              month: { type: 'integer' },
+              older: { type: 'integer' }
+            }
+          }
+        }
+      },
+      Recommendation: {
+        type: 'object',
+        properties: {
+          article: {
+            $ref: '#/components/schemas/Article'
+          },
+          score: {
+            type: 'number',
             minimum: 0,
-            default: 0
+            maximum: 1,
+            description: 'Recommendation score (0-1)',
+            example: 0.85
+          },
+          reasons: {
+            type: 'array',
+            items: {
+              type: 'string'
+            },
+            description: 'Reasons for recommendation',
+            example: ['Matches your interests: technology, ai', 'Popular among users']
           }
-        },
-        PageParam: {
-          name: 'page',
-          in: 'query',
-          description: 'Page number (alternative to offset)',
-          schema: {
+        }
+      },
+      AuthTokens: {
+        type: 'object',
+        properties: {
+          tokenType: {
+            type: 'string',
+            example: 'Bearer'
+          },
+          accessToken: {
+            type: 'string',
+            description: 'Short-lived JWT to send as `Authorization: Bearer <token>`'
+          },
+          expiresIn: {
             type: 'integer',
-            minimum: 1
-          }
-        },
-        IdParam: {
-          name: 'id',
-          in: 'path',
-          required: true,
-          description: 'Resource ID',
-          schema: {
-            type: 'string',
-            pattern: '^[a-fA-F0-9]{24}$'
+            description: 'Access token lifetime in seconds',
+            example: 900
+          },
+          refreshToken: {
+            type: 'string',
+            description: 'Single-use token for POST /auth/refresh'
+          },
+          refreshExpiresAt: {
+            type: 'string',
+            format: 'date-time'
           }
         }
       },
-      responses: {
-        Success: {
-          description: 'Successful operation',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/ApiResponse'
-              }
-            }
+      ApiKeyScope: {
+        type: 'string',
+        enum: ['read:articles', 'write:articles', 'write:interactions', 'write:sources', 'admin:summaries']
+      },
+      ApiKey: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string' },
+          name: { type: 'string' },
+          prefix: {
+            type: 'string',
+            description: 'Start of the key, for telling keys apart',
+            example: 'sca_Zk3q9XbA'
+          },
+          scopes: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ApiKeyScope' }
+          },
+          userId: {
+            type: 'string',
+            description: 'User the key acts as (absent for application keys)'
+          },
+          application: {
+            type: 'string',
+            description: 'Application the key acts as (absent for user keys)'
+          },
+          createdBy: { type: 'string' },
+          expiresAt: { type: 'string', format: 'date-time' },
+          lastUsedAt: { type: 'string', format: 'date-time' },
+          revokedAt: { type: 'string', format: 'date-time' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      ApiResponse: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            description: 'Request success status'
+          },
+          message: {
+            type: 'string',
+            description: 'Response message'
+          },
+          data: {
+            description: 'Response data; an object, or an array in list responses'
           }
-        },
-        ValidationError: {
-          description: 'Validation error',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
+        }
+      },
+      PaginationResponse: {
+        allOf: [
+          { $ref: '#/components/schemas/ApiResponse' },
+          {
+            type: 'object',
+            properties: {
+              pagination: {
+                type: 'object',
+                description: 'Cursor mode by default; offset mode when offset or page is given',
+                properties: {
+                  mode: {
+                    type: 'string',
+                    enum: ['cursor', 'offset']
+                  },
+                  hasNext: {
+                    type: 'boolean'
+                  },
+                  hasPrev: {
+                    type: 'boolean'
+                  },
+                  nextCursor: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'Cursor for the following (older) page (cursor mode)'
+                  },
+                  prevCursor: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'Cursor for the preceding (newer) page (cursor mode)'
+                  },
+                  total: {
+                    type: 'integer',
+                    description: 'Total number of items (offset mode)'
+                  },
+                  limit: {
+                    type: 'integer',
+                    description: 'Items per page'
+                  },
+                  offset: {
+                    type: 'integer',
+                    description: 'Offset from start'
+                  },
+                  page: {
+                    type: 'integer',
+                    description: 'Current page number'
+                  },
+                  totalPages: {
+                    type: 'integer',
+                    description: 'Total number of pages'
+                  }
+                }
               },
-              example: {
-                error: 'Validation Error',
-                details: ['title is required', 'content must be at least 50 characters']
+              links: {
+                type: 'object',
+                description: 'Ready-made URLs for the neighbouring pages (cursor mode)',
+                properties: {
+                  next: {
+                    type: 'string',
+                    nullable: true
+                  },
+                  prev: {
+                    type: 'string',
+                    nullable: true
+                  }
+                }
               }
             }
           }
-        },
-        NotFound: {
-          description: 'Resource not found',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              },
-              example: {
-                error: 'Not Found',
-                message: 'Resource not found'
+        ]
+      },
+      Problem: {
+        type: 'object',
+        description: 'RFC 7807 problem document, served as application/problem+json',
+        required: ['type', 'title', 'status', 'detail', 'code'],
+        properties: {
+          type: {
+            type: 'string',
+            description: 'URI reference identifying the problem type',
+            example: '/problems/not_found'
+          },
+          title: {
+            type: 'string',
+            description: 'Short summary of the HTTP status',
+            example: 'Not Found'
+          },
+          status: {
+            type: 'integer',
+            example: 404
+          },
+          detail: {
+            type: 'string',
+            description: 'Human-readable explanation, not meant to be parsed',
+            example: 'Article not found'
+          },
+          code: {
+            type: 'string',
+            description: 'Stable machine-readable error code',
+            example: 'not_found'
+          },
+          instance: {
+            type: 'string',
+            description: 'Request path the problem occurred on',
+            example: '/api/articles/507f1f77bcf86cd799439011'
+          },
+          errors: {
+            type: 'array',
+            description: 'Field errors (validation_failed only)',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string' },
+                message: { type: 'string' }
               }
             }
+          },
+          permission: {
+            type: 'string',
+            description: 'Permission the caller lacks (forbidden only)'
+          },
+          scope: {
+            type: 'string',
+            description: 'API key scope the caller lacks (insufficient_scope only)'
           }
-        },
-        ServerError: {
-          description: 'Internal server error',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              },
-              example: {
-                error: 'Internal Server Error',
-                message: 'Something went wrong'
-              }
-            }
+        }
+      },
+      InteractionResponse: {
+        type: 'object',
+        properties: {
+          success: {
+            type: 'boolean',
+            example: true
+          },
+          data: {
+            type: 'object'
+          },
+          message: {
+            type: 'string',
+            example: 'Interaction recorded successfully'
           }
         }
       }
     },
-    tags: [
-      {
-        name: 'Articles',
-        description: 'Article management operations'
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'JWT access token from POST /auth/login. API keys are also accepted as bearer tokens.'
+      },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key'
+      }
+    },
+    responses: {
+      Success: {
+        description: 'Successful operation',
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/ApiResponse'
+            }
+          }
+        }
       },
-      {
-        name: 'Users',
-        description: 'User management operations'
+      ValidationError: {
+        description: 'Validation error',
+        content: {
+          'application/problem+json': {
+            schema: {
+              $ref: '#/components/schemas/Problem'
+            },
+            example: {
+              type: '/problems/validation_failed',
+              title: 'Bad Request',
+              status: 400,
+              detail: 'Request body is invalid',
+              code: 'validation_failed',
+              errors: [
+                { field: 'title', message: '"title" is required' },
+                { field: 'content', message: '"content" length must be at least 50 characters long' }
+              ]
+            }
+          }
+        }
+      },
+      Unauthorized: {
+        description: 'Missing, invalid or expired credentials',
+        content: {
+          'application/problem+json': {
+            schema: {
+              $ref: '#/components/schemas/Problem'
+            },
+            example: {
+              type: '/problems/unauthorized',
+              title: 'Unauthorized',
+              status: 401,
+              detail: 'Authentication required',
+              code: 'unauthorized'
+            }
+          }
+        }
       },
-      {
-        name: 'Interactions',
-        description: 'User interaction tracking'
+      Forbidden: {
+        description: 'Authenticated but not allowed to perform this operation',
+        content: {
+          'application/problem+json': {
+            schema: {
+              $ref: '#/components/schemas/Problem'
+            },
+            example: {
+              type: '/problems/forbidden',
+              title: 'Forbidden',
+              status: 403,
+              detail: 'You do not have permission to perform this operation',
+              code: 'forbidden',
+              permission: 'articles:delete'
+            }
+          }
+        }
       },
-      {
-        name: 'Recommendations',
-        description: 'AI-powered content recommendations'
+      NotFound: {
+        description: 'Resource not found',
+        content: {
+          'application/problem+json': {
+            schema: {
+              $ref: '#/components/schemas/Problem'
+            },
+            example: {
+              type: '/problems/not_found',
+              title: 'Not Found',
+              status: 404,
+              detail: 'Resource not found',
+              code: 'not_found'
+            }
+          }
+        }
       },
- 
-    ]
+      DuplicateArticle: {
+        description: 'A near-duplicate article already exists. Only articles the caller can read are matched.',
+        content: {
+          'application/problem+json': {
+            schema: {
+              allOf: [
+                { $ref: '#/components/schemas/Problem' },
+                {
+                  type: 'object',
+                  properties: {
+                    originalId: { type: 'string' },
+                    matchedId: { type: 'string' },
+                    matchedTitle: { type: 'string' },
+                    distance: {
+                      type: 'integer',
+                      description: 'Hamming distance between content fingerprints'
+                    }
+                  }
+                }
+              ]
+            },
+            example: {
+              type: '/problems/duplicate_article',
+              title: 'Conflict',
+              status: 409,
+              detail: 'A near-duplicate of this article already exists',
+              code: 'duplicate_article',
+              originalId: '507f1f77bcf86cd799439011',
+              matchedId: '507f1f77bcf86cd799439012',
+              matchedTitle: 'Breaking: Markets rally',
+              distance: 3
+            }
+          }
+        }
+      },
+      ServerError: {
+        description: 'Internal server error',
+        content: {
+          'application/problem+json': {
+            schema: {
+              $ref: '#/components/schemas/Problem'
+            },
+            example: {
+              type: '/problems/internal_error',
+              title: 'Internal Server Error',
+              status: 500,
+              detail: 'An unexpected error occurred',
+              code: 'internal_error'
+            }
+          }
+        }
+      }
+    }
   },
-  apis: [
-    './src/routes/*.ts',
-    './src/server.ts'
+  tags: [
+    {
+      name: 'Articles',
+      description: 'Article management operations'
+    },
+    {
+      name: 'Users',
+      description: 'User management operations'
+    },
+    {
+      name: 'Auth',
+      description: 'Login, token refresh and logout'
+    },
+    {
+      name: 'API Keys',
+      description: 'Scoped keys for server-to-server clients'
+    },
+    {
+      name: 'Interactions',
+      description: 'User interaction tracking'
+    },
+    {
+      name: 'Recommendations',
+      description: 'AI-powered content recommendations'
+    },
+    {
+      name: 'Sources',
+      description: 'RSS and Atom feed source management'
+    },
+    {
+      name: 'Clusters',
+      description: 'Story clusters of related articles'
+    },
+    {
+      name: 'Workflow',
+      description: 'Editorial workflow from draft to published'
+    },
+    {
+      name: 'Trash',
+      description: 'Soft-deleted articles and users awaiting purge'
+    },
+    {
+      name: 'Revisions',
+      description: 'Article revision history, diffs and restore'
+    },
+    {
+      name: 'Summary Jobs',
+      description: 'Background summary generation queue'
+    },
+ 
   ]
 };
 
-export const specs = swaggerJsdoc(options);
+export const responseRef = (name: string): OpenApiObject => ({ $ref: `#/components/responses/${name}` });
+
+export const schemaRef = (name: string): OpenApiObject => ({ $ref: `#/components/schemas/${name}` });
+
+export const jsonResponse = (description: string, schema: OpenApiObject): OpenApiObject => ({
+  description,
+  content: {
+    'application/json': { schema }
+  }
+});
+
+/** An error response; `properties` documents extension members beyond the standard problem fields. */
+export const problemResponse = (description: string, properties?: OpenApiObject): OpenApiObject => ({
+  description,
+  content: {
+    [PROBLEM_CONTENT_TYPE]: {
+      schema: properties ? { allOf: [schemaRef('Problem'), { type: 'object', properties }] } : schemaRef('Problem')
+    }
+  }
+});
+
+/** The `ApiResponse` envelope with the given properties, usually `data`. */
+export const dataResponse = (description: string, properties: OpenApiObject): OpenApiObject =>
+  jsonResponse(description, { allOf: [schemaRef('ApiResponse'), { type: 'object', properties }] });
+
+export const paginatedResponse = (description: string, properties: OpenApiObject): OpenApiObject =>
+  jsonResponse(description, { allOf: [schemaRef('PaginationResponse'), { type: 'object', properties }] });
+
+const SECURITY: Record<RouteAuth, OpenApiObject[]> = {
+  optional: [{}, { bearerAuth: [] }, { apiKeyAuth: [] }],
+  required: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  user: [{ bearerAuth: [] }]
+};
+
+// What the middleware in front of a route can answer with; routes only document their own outcomes.
+const defaultResponses = ({ request, auth, scope, permissions = [] }: RegisteredRoute): Record<number, OpenApiObject> => {
+  const responses: Record<number, OpenApiObject> = { 500: responseRef('ServerError') };
+
+  if (request.params || request.query || request.body) {
+    responses[400] = responseRef('ValidationError');
+  }
+  if (auth) {
+    responses[401] = responseRef('Unauthorized');
+  }
+  if (auth === 'user' || scope || permissions.length > 0) {
+    responses[403] = responseRef('Forbidden');
+  }
+
+  return responses;
+};
+
+const requestBody = ({ request, textBody = [] }: RegisteredRoute): OpenApiObject | undefined => {
+  if (!request.body) {
+    return undefined;
+  }
+
+  const schema = joiToOpenApi(request.body);
+  // A body whose keys are all optional, such as batch settings with defaults, may be left out.
+  const required = schema.type !== 'object' || schema.required?.length > 0 || schema.minProperties > 0;
+  // Text media types carry the string form of the body and JSON the structured one.
+  const jsonSchema = textBody.length > 0 && schema.oneOf
+    ? schema.oneOf.find((alternative: OpenApiObject) => alternative.type !== 'string')
+    : schema;
+
+  return {
+    required,
+    content: {
+      ...Object.fromEntries(textBody.map(type => [type, { schema: { type: 'string' } }])),
+      'application/json': { schema: jsonSchema }
+    }
+  };
+};
+
+const operation = (route: RegisteredRoute): OpenApiObject => {
+  const { request, scope } = route;
+  const description = [route.description, scope && `API keys need the \`${scope}\` scope.`]
+    .filter(Boolean)
+    .join(' ');
+  const parameters = [
+    ...(request.params ? joiToParameters(request.params, 'path') : []),
+    ...(request.query ? joiToParameters(request.query, 'query') : [])
+  ];
+  const body = requestBody(route);
+
+  return {
+    summary: route.summary,
+    ...(description && { description }),
+    tags: route.tags,
+    ...(route.auth && { security: SECURITY[route.auth] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && { requestBody: body }),
+    responses: { ...defaultResponses(route), ...route.responses }
+  };
+};
+
+/**
+ * Builds the OpenAPI document from the registered routes, so the documented
+ * parameters and bodies are the Joi schemas `validate` enforces. Call it
+ * once every router module has been imported.
+ */
+export const buildSpecs = (): OpenApiObject => {
+  const paths: Record<string, OpenApiObject> = {};
+
+  routeRegistry.forEach(route => {
+    const path = route.fullPath.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  });
+
+  return { ...definition, paths };
+};
+
 export const swaggerUiInstance: typeof swaggerUi = swaggerUi;
 
 export { swaggerUi };
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { can } from '../middleware';
+import { CreateApiKeyBody, IdParams } from '../validation/schemas';
+
+const apiKeyService = new ApiKeyService();
+
+export class ApiKeyController {
+  async createApiKey(req: Request<{}, {}, CreateApiKeyBody>, res: Response): Promise<void> {
+    const { name, scopes, application, expiresAt } = req.body;
+
+    if (application !== undefined && !can(req, 'apiKeys:applications')) {
+      throw new ForbiddenError('Only admins can issue application API keys', 'apiKeys:applications');
+    }
+
+    const { apiKey, key } = await apiKeyService.issue({ name, scopes, application, expiresAt }, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: { ...apiKey.toJSON(), key },
+      message: 'API key created. Store the key now; it cannot be shown again'
+    });
+  }
+
+  async getApiKeys(req: Request, res: Response): Promise<void> {
+    const apiKeys = await apiKeyService.list(req.user!.id);
+
+    res.json({
+      success: true,
+      data: apiKeys
+    });
+  }
+
+  async revokeApiKey(req: Request<IdParams>, res: Response): Promise<void> {
+    const apiKey = await apiKeyService.revoke(req.params.id, req.user!.id);
+
+    if (!apiKey) {
+      throw new NotFoundError('API key not found or already revoked');
+    }
+
+    res.json({
+      success: true,
+      data: apiKey,
+      message: 'API key revoked'
+    });
+  }
+}
@@ -1,540 +1,901 @@
 import { Request, Response } from 'express';
-import Article from '../models/Article';
-import { SummaryService } from '../services/summaryService';
+import { Types } from 'mongoose';
+import Article, { IArticle, PUBLISHED_FILTER, SummaryProvenance } from '../models/Article';
+import { ArticleSummary, SummaryService } from '../services/summaryService';
+import { ISummaryJob } from '../models/SummaryJob';
+import { SummaryJobService } from '../services/summaryJobService';
+import { ContentExtractionService, ExtractedContent } from '../services/contentExtractionService';
+import { DuplicateArticleError, DuplicateDetectionService } from '../services/duplicateDetectionService';
+import { ClusteringService } from '../services/clusteringService';
+import { ParsedSearchQuery, SearchService } from '../services/searchService';
+import { FacetService, PUBLISHED_RANGES } from '../services/facetService';
+import { RevisionService } from '../services/revisionService';
+import { PublishingService } from '../services/publishingService';
+import { TrashService } from '../services/trashService';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnprocessableError,
+  UpstreamUnavailableError
+} from '../utils/errors';
+import { escapeRegex } from '../utils/regex';
+import { withTransaction } from '../utils/transaction';
+import { cursorPage, cursorPosition, usesOffsetPagination, withCursor } from '../utils/pagination';
+import { assertCanModify, assertReadable, callerName, can, readableFilter } from '../middleware';
+import {
+  ArticleClusterQuery,
+  BulkRegenerateSummariesBody,
+  CreateArticleBody,
+  CreateArticleFromUrlBody,
+  DuplicateQuery,
+  GetArticlesQuery,
+  IdParams,
+  OffsetPageQuery,
+  PageQuery,
+  RegenerateSummaryBody,
+  RevisionDiffQuery,
+  RevisionParams,
+  SummaryCacheQuery,
+  TagsParams,
+  TransitionBody,
+  UpdateArticleBody
+} from '../validation/schemas';
 
 const summaryService = new SummaryService();
-
-interface CreateArticleRequest {
-  title: string;
-  content: string;
-  author: string;
-  summary?: string;
-  tags?: string[];
+const summaryJobService = new SummaryJobService(summaryService);
+const contentExtractionService = new ContentExtractionService();
+const duplicateDetectionService = new DuplicateDetectionService();
+const clusteringService = new ClusteringService();
+const searchService = new SearchService();
+const facetService = new FacetService();
+const revisionService = new RevisionService();
+const publishingService = new PublishingService();
+const trashService = new TrashService();
+
+interface NewArticleInput extends CreateArticleBody {
+  createdBy?: string;
+  editedBy: string;
+  duplicateOf?: Types.ObjectId;
+  url?: string;
+  imageUrl?: string;
+  publishedAt?: Date;
 }
 
-interface UpdateArticleRequest {
-  title?: string;
-  content?: string;
-  author?: string;
-  summary?: string;
-  tags?: string[];
-}
+type SummaryMetadata = Pick<SummaryProvenance, 'generated' | 'provider' | 'model' | 'method'>;
 
-interface PaginationQuery {
-  limit?: string;
-  offset?: string;
-  page?: string;
-  search?: string;
-  tags?: string;
-  author?: string;
-}
+const summaryMetadata = ({ generated, provider, model, method }: SummaryProvenance): SummaryMetadata =>
+  ({ generated, provider, model, method });
 
 export class ArticleController {
-  async createArticle(req: Request<{}, {}, CreateArticleRequest>, res: Response): Promise<void> {
-    try {
-      const { title, content, author, summary, tags } = req.body;
-
-      if (!title || !content || !author) {
-        res.status(400).json({
-          success: false,
-          message: 'Title, content, and author are required fields'
-        });
-        return;
-      }
+  async createArticle(req: Request<{}, {}, CreateArticleBody, DuplicateQuery>, res: Response): Promise<void> {
+    const { title, content, author, summary, tags, status } = req.body;
 
-      if (content.trim().length < 50) {
-        res.status(400).json({
-          success: false,
-          message: 'Content must be at least 50 characters long'
-        });
-        return;
-      }
+    const duplicate = await duplicateDetectionService.findNearDuplicate(content, readableFilter(req));
 
-      let finalSummary = summary;
-      let summaryMetadata = null;
-
-      if (!summary || summary.trim() === '') {
-        try {
-          const summaryResult = await summaryService.generateSummaryForArticle(content);
-          finalSummary = summaryResult.summary;
-          summaryMetadata = {
-            generated: summaryResult.generated,
-            provider: summaryResult.provider,
-            model: summaryResult.model,
-            method: summaryResult.method
-          };
-        } catch (error) {
-          finalSummary = content.substring(0, 200) + '...';
-        }
-      }
+    if (duplicate && req.query.onDuplicate !== 'merge') {
+      throw new DuplicateArticleError(duplicate);
+    }
 
-      const article = new Article({
-        title: title.trim(),
-        content: content.trim(),
-        author: author.trim(),
-        summary: finalSummary,
-        tags: tags?.map(tag => tag.trim().toLowerCase()) || []
-      });
+    const { article, summaryJob } = await this.saveNewArticle({
+      title,
+      content,
+      author,
+      summary,
+      tags,
+      status,
+      createdBy: req.user?.id,
+      editedBy: callerName(req),
+      duplicateOf: duplicate?.canonicalId
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: article,
+      summaryJob,
+      message: duplicate ? 'Article created and merged into an existing story' : 'Article created successfully'
+    });
+  }
 
-      const savedArticle = await article.save();
-      
-      res.status(201).json({
-        success: true,
-        data: savedArticle,
-        metadata: summaryMetadata,
-        message: 'Article created successfully'
-      });
+  async createArticleFromUrl(req: Request<{}, {}, CreateArticleFromUrlBody, DuplicateQuery>, res: Response): Promise<void> {
+    const { url, author, summary, tags, status } = req.body;
 
+    let extracted: ExtractedContent;
+    try {
+      extracted = await contentExtractionService.extractFromUrl(url);
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to create article',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+      // The cause stays in the log: echoing it would tell callers what the server can reach.
+      console.warn(`Fetching ${url} failed:`, error instanceof Error ? error.message : error);
+      throw new UpstreamUnavailableError('The page could not be fetched');
+    }
+
+    const extraction = {
+      url,
+      confidence: extracted.confidence,
+      signals: extracted.signals
+    };
+
+    if (extracted.content.length < 50) {
+      throw new UnprocessableError('Could not extract readable article content from the URL');
+    }
+
+    const duplicate = await duplicateDetectionService.findNearDuplicate(extracted.content, readableFilter(req));
+
+    if (duplicate && req.query.onDuplicate !== 'merge') {
+      throw new DuplicateArticleError(duplicate);
     }
+
+    const { article, summaryJob } = await this.saveNewArticle({
+      createdBy: req.user?.id,
+      editedBy: callerName(req),
+      duplicateOf: duplicate?.canonicalId,
+      title: (extracted.title || new URL(url).hostname).substring(0, 200),
+      content: extracted.content,
+      author: (extracted.author || author || new URL(url).hostname).substring(0, 100),
+      summary,
+      tags,
+      status,
+      url,
+      imageUrl: extracted.imageUrl,
+      publishedAt: extracted.publishedAt
+    });
+
+    res.status(201).json({
+      success: true,
+      data: article,
+      summaryJob,
+      metadata: { extraction },
+      message: 'Article created from URL successfully'
+    });
   }
 
-  async getArticles(req: Request<{}, {}, {}, PaginationQuery>, res: Response): Promise<void> {
-    try {
-      const { 
-        limit = '10', 
-        offset = '0', 
-        page, 
-        search, 
-        tags, 
-        author 
-      } = req.query;
-
-      const filters: any = {};
-      
-      if (search) {
-        filters.$or = [
-          { title: { $regex: search, $options: 'i' } },
-          { content: { $regex: search, $options: 'i' } },
-          { author: { $regex: search, $options: 'i' } }
-        ];
+  async getArticles(req: Request<{}, {}, {}, GetArticlesQuery>, res: Response): Promise<void> {
+    const {
+      limit,
+      offset = 0,
+      page,
+      cursor,
+      search,
+      tags,
+      tagsMode,
+      author,
+      match,
+      published,
+      source,
+      collapse,
+      facets,
+      status,
+      summaryMethod,
+      summaryProvider,
+      summaryStatus
+    } = req.query;
+
+    if (status !== 'published' && !can(req, 'articles:review')) {
+      throw new ForbiddenError('Only editors can list unpublished articles', 'articles:review');
+    }
+
+    const filters: any = { status };
+    const conditions: any[] = [];
+    let parsedSearch: ParsedSearchQuery | null = null;
+    let usesTextIndex = false;
+    
+    if (search) {
+      parsedSearch = searchService.parse(search);
+
+      if (!searchService.isEmpty(parsedSearch)) {
+        const searchFilter = searchService.buildFilter(parsedSearch);
+        Object.assign(filters, searchFilter.filter);
+        usesTextIndex = searchFilter.usesTextIndex;
+      } else {
+        parsedSearch = null;
       }
+    }
+
+    // Several tags or authors may be selected at once. Tags combine with
+    // tagsMode, authors always combine with OR (an article has one author),
+    // and match decides whether both groups must hold or either is enough.
+    const facetClauses: any[] = [];
 
-      if (tags) {
-        const tagArray = tags.split(',').map(tag => tag.trim().toLowerCase());
-        filters.tags = { $in: tagArray };
+    if (tags) {
+      const tagArray = this.splitList(tags).map(tag => tag.toLowerCase());
+      if (tagArray.length > 0) {
+        facetClauses.push({ tags: tagsMode === 'all' ? { $all: tagArray } : { $in: tagArray } });
       }
+    }
 
-      if (author) {
-        filters.author = { $regex: author, $options: 'i' };
+    if (author) {
+      const authorClauses = this.splitList(author).map(name => ({
+        author: { $regex: escapeRegex(name), $options: 'i' }
+      }));
+      if (authorClauses.length > 0) {
+        facetClauses.push(authorClauses.length === 1 ? authorClauses[0] : { $or: authorClauses });
       }
+    }
+
+    if (facetClauses.length > 1 && match === 'any') {
+      conditions.push({ $or: facetClauses });
+    } else {
+      conditions.push(...facetClauses);
+    }
+
+    if (published) {
+      const since = new Date(Date.now() - PUBLISHED_RANGES[published]);
+      conditions.push({
+        $or: [
+          { publishedAt: { $gte: since } },
+          { publishedAt: null, createdAt: { $gte: since } }
+        ]
+      });
+    }
+
+    if (source) {
+      filters.sourceId = new Types.ObjectId(source);
+    }
+
+    if (collapse) {
+      filters.duplicateOf = null;
+    }
+
+    if (summaryMethod) {
+      filters['summaryProvenance.method'] = summaryMethod;
+    }
 
-      const limitNum = Math.min(Number(limit), 100);
-      const pageNum = page ? Number(page) : 1;
-      const offsetNum = page ? (pageNum - 1) * limitNum : Number(offset);
-      
-      const [articles, total] = await Promise.all([
-        Article.find(filters)
-          .sort({ createdAt: -1 })
-          .limit(limitNum)
+    if (summaryProvider) {
+      filters['summaryProvenance.provider'] = summaryProvider;
+    }
+
+    if (summaryStatus) {
+      filters.summaryStatus = summaryStatus;
+    }
+
+    if (conditions.length > 0) {
+      filters.$and = [...(filters.$and || []), ...conditions];
+    }
+
+    const facetCounts = () => facets ? facetService.getArticleFacets(filters) : Promise.resolve(undefined);
+
+    let articles: IArticle[];
+    let pagination: any;
+    let links: any;
+    let facetResult: Awaited<ReturnType<typeof facetCounts>>;
+
+    // Relevance ranking has no stable (createdAt, _id) order to key a cursor
+    // on, so ranked searches always page by offset.
+    if (usesTextIndex || usesOffsetPagination(req.query)) {
+      const pageNum = page ?? 1;
+      const offsetNum = page ? (pageNum - 1) * limit : offset;
+
+      const projection = usesTextIndex ? { score: { $meta: 'textScore' } } : {};
+      const sort: any = usesTextIndex
+        ? { score: { $meta: 'textScore' }, createdAt: -1 }
+        : { createdAt: -1 };
+
+      const [found, total, counts] = await Promise.all([
+        Article.find(filters, projection)
+          .sort(sort)
+          .limit(limit)
           .skip(offsetNum)
-          .select('-__v'), 
-        Article.countDocuments(filters)
+          .select('-__v'),
+        Article.countDocuments(filters),
+        facetCounts()
       ]);
 
-      const totalPages = Math.ceil(total / limitNum);
-      
-      res.json({
-        success: true,
-        data: articles,
-        pagination: {
-          total,
-          limit: limitNum,
-          offset: offsetNum,
-          page: pageNum,
-          totalPages,
-          hasNext: pageNum < totalPages,
-          hasPrev: pageNum > 1
-        },
-        filters: { search, tags, author }
-      });
+      const totalPages = Math.ceil(total / limit);
+      articles = found;
+      facetResult = counts;
+      pagination = {
+        mode: 'offset',
+        total,
+        limit,
+        offset: offsetNum,
+        page: pageNum,
+        totalPages,
+        hasNext: pageNum < totalPages,
+        hasPrev: pageNum > 1
+      };
+    } else {
+      const position = cursorPosition(cursor);
+      const [found, counts] = await Promise.all([
+        Article.find(withCursor(filters, position))
+          .sort(position.sort)
+          .limit(limit + 1)
+          .select('-__v'),
+        facetCounts()
+      ]);
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to retrieve articles',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+      const result = cursorPage(req, found, limit, position);
+      articles = result.items;
+      pagination = result.pagination;
+      links = result.links;
+      facetResult = counts;
     }
-  }
 
-  async getArticleById(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      
-      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid article ID format'
-        });
-        return;
-      }
-      
-      const article = await Article.findById(id).select('-__v');
-      
-      if (!article) {
-        res.status(404).json({
-          success: false,
-          message: 'Article not found'
-        });
-        return;
-      }
-      
-      res.json({
-        success: true,
-        data: article
-      });
+    let duplicateCountById = new Map<string, number>();
+    if (collapse && articles.length > 0) {
+      const duplicateCounts = await Article.aggregate([
+        { $match: { duplicateOf: { $in: articles.map(article => article._id) } } },
+        { $group: { _id: '$duplicateOf', count: { $sum: 1 } } }
+      ]);
+      duplicateCountById = new Map(duplicateCounts.map(item => [String(item._id), item.count]));
+    }
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to retrieve article',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
+    let data: any[] = articles;
+    if (collapse || parsedSearch) {
+      data = articles.map(article => {
+        const item: any = article.toObject();
+
+        if (collapse) {
+          item.duplicateCount = duplicateCountById.get(String(article._id)) || 0;
+        }
+
+        if (parsedSearch) {
+          const textScore = article.get('score');
+          item.score = typeof textScore === 'number'
+            ? Math.round(textScore * 100) / 100
+            : searchService.score(article, parsedSearch);
+          item.highlights = searchService.highlight(article, parsedSearch);
+        }
+
+        return item;
       });
     }
+    
+    res.json({
+      success: true,
+      data,
+      pagination,
+      ...(links && { links }),
+      filters: { search, tags, tagsMode, author, match, published, source, collapse, status, summaryMethod, summaryProvider, summaryStatus },
+      ...(facetResult && { facets: facetResult })
+    });
   }
 
-  async updateArticle(req: Request<{ id: string }, {}, UpdateArticleRequest>, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const updates = req.body;
-
-      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid article ID format'
-        });
-        return;
-      }
+  async getArticleById(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+          
+    const article = assertReadable(req, await Article.findById(id).select('-__v'));
+    
+    res.json({
+      success: true,
+      data: article
+    });
+  }
 
-      const cleanUpdates: any = {};
-      if (updates.title) cleanUpdates.title = updates.title.trim();
-      if (updates.content) cleanUpdates.content = updates.content.trim();
-      if (updates.author) cleanUpdates.author = updates.author.trim();
-      if (updates.summary) cleanUpdates.summary = updates.summary.trim();
-      if (updates.tags) cleanUpdates.tags = updates.tags.map(tag => tag.trim().toLowerCase());
-
-      if (cleanUpdates.content && cleanUpdates.content.length < 50) {
-        res.status(400).json({
-          success: false,
-          message: 'Content must be at least 50 characters long'
-        });
-        return;
-      }
+  async getArticleCluster(req: Request<IdParams, {}, {}, ArticleClusterQuery>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { days, threshold } = req.query;
 
-      let summaryMetadata = null;
-      if (cleanUpdates.content && !cleanUpdates.summary) {
-        try {
-          const summaryResult = await summaryService.generateSummaryForArticle(cleanUpdates.content);
-          cleanUpdates.summary = summaryResult.summary;
-          summaryMetadata = {
-            generated: summaryResult.generated,
-            provider: summaryResult.provider,
-            model: summaryResult.model,
-            method: summaryResult.method
-          };
-        } catch (error) {
-          cleanUpdates.summary = cleanUpdates.content.substring(0, 200) + '...';
-        }
-      }
+    const article = assertReadable(req, await Article.findById(id).select('-__v'));
 
-      const article = await Article.findByIdAndUpdate(
+    const cluster = await clusteringService.getClusterForArticle(article, { days, threshold });
+
+    res.json({
+      success: true,
+      data: cluster
+    });
+  }
+
+  async updateArticle(req: Request<IdParams, {}, UpdateArticleBody>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const updates = req.body;
+
+    const cleanUpdates: any = {};
+    if (updates.title) cleanUpdates.title = updates.title;
+    if (updates.content) cleanUpdates.content = updates.content;
+    if (updates.author) cleanUpdates.author = updates.author;
+    if (updates.summary) cleanUpdates.summary = updates.summary;
+    if (updates.tags) cleanUpdates.tags = updates.tags;
+
+    const existing = await Article.findById(id);
+
+    if (!existing) {
+      throw new NotFoundError('Article not found');
+    }
+
+    assertCanModify(req, existing.createdBy, 'articles:edit', 'articles:edit:own');
+
+    // New content without a new summary is summarized in the background; the old summary stays until then.
+    const needsSummary = Boolean(cleanUpdates.content && !cleanUpdates.summary);
+
+    if (cleanUpdates.summary) {
+      const written = summaryService.userSummary(cleanUpdates.content ?? existing.content, cleanUpdates.summary);
+      cleanUpdates.summaryProvenance = written.provenance;
+      cleanUpdates.summaryStatus = 'ready';
+      await summaryJobService.cancelPending(id, 'The summary was written by hand');
+    }
+
+    // The revision is numbered and stored in the same transaction as the edit, so a failure leaves neither.
+    const { article, revision } = await withTransaction(async session => {
+      await revisionService.ensureBaseline(existing, session);
+
+      const updated = await Article.findByIdAndUpdate(
         id,
         { ...cleanUpdates, updatedAt: new Date() },
-        { new: true, runValidators: true }
+        { new: true, runValidators: true, session }
       ).select('-__v');
-      
-      if (!article) {
-        res.status(404).json({
-          success: false,
-          message: 'Article not found'
-        });
-        return;
+
+      if (!updated) {
+        throw new NotFoundError('Article not found');
       }
-      
-      res.json({
-        success: true,
-        data: article,
-        metadata: summaryMetadata,
-        message: 'Article updated successfully'
-      });
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to update article',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+      return {
+        article: updated,
+        revision: await revisionService.recordRevision(updated, { reason: 'update', editedBy: callerName(req) }, session)
+      };
+    });
+
+    const summaryJob = needsSummary ? await summaryJobService.enqueue(article._id as Types.ObjectId, { reason: 'update' }) : null;
+    if (summaryJob) {
+      article.summaryStatus = 'pending';
     }
+    
+    res.json({
+      success: true,
+      data: article,
+      summaryJob,
+      revision: revision?.revision ?? null,
+      message: 'Article updated successfully'
+    });
   }
 
-  async deleteArticle(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      
-      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid article ID format'
-        });
-        return;
-      }
-      
-      const article = await Article.findByIdAndDelete(id);
-      
-      if (!article) {
-        res.status(404).json({
-          success: false,
-          message: 'Article not found'
-        });
-        return;
+  async transitionArticle(req: Request<IdParams, {}, TransitionBody>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { status, publishAt } = req.body;
+
+    const article = await Article.findById(id);
+
+    if (!article) {
+      throw new NotFoundError('Article not found');
+    }
+
+    if (!can(req, 'articles:publish')) {
+      assertCanModify(req, article.createdBy, 'articles:publish', 'articles:edit:own');
+      if (!publishingService.isAuthorTransition(article.status, status)) {
+        throw new ForbiddenError('Authors can only submit their own drafts for review', 'articles:publish');
       }
-      
-      res.json({
-        success: true,
-        data: { deletedId: id, title: article.title },
-        message: 'Article deleted successfully'
-      });
+    }
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to delete article',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+    const previousStatus = article.status;
+    const updated = await publishingService.transition(article, status, publishAt);
+
+    if (!updated) {
+      throw new ConflictError('Article status changed concurrently, reload and try again');
     }
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `Article moved from ${previousStatus} to ${updated.status}`
+    });
   }
 
-  async regenerateSummary(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const { maxSentences = 3 } = req.body;
-
-      if (!id.match(/^[0-9a-fA-F]{24}$/)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid article ID format'
-        });
-        return;
-      }
+  async getArticleRevisions(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
 
-      const article = await Article.findById(id);
-      
-      if (!article) {
-        res.status(404).json({
-          success: false,
-          message: 'Article not found'
-        });
-        return;
-      }
+    const article = assertReadable(req, await Article.findById(id));
+
+    await revisionService.ensureBaseline(article);
+    const revisions = await revisionService.listRevisions(id);
+
+    res.json({
+      success: true,
+      data: revisions,
+      total: revisions.length
+    });
+  }
+
+  async getArticleRevision(req: Request<RevisionParams>, res: Response): Promise<void> {
+    const { id, revision } = req.params;
 
-      try {
-        const newSummary = await summaryService.summarize(article.content, maxSentences);
-
-        article.summary = newSummary;
-        article.updatedAt = new Date();
-        await article.save();
-        
-        res.json({
-          success: true,
-          data: article,
-          message: 'Summary regenerated successfully'
-        });
-      } catch (summaryError) {
-        res.status(500).json({
-          success: false,
-          message: 'Failed to generate new summary',
-          error: process.env.NODE_ENV === 'development' ? summaryError : undefined
-        });
+    assertReadable(req, await Article.findById(id).select('status createdBy'));
+    const found = await revisionService.getRevision(id, revision);
+
+    if (!found) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    res.json({
+      success: true,
+      data: found
+    });
+  }
+
+  async diffArticleRevisions(req: Request<IdParams, {}, {}, RevisionDiffQuery>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { from, to } = req.query;
+
+    assertReadable(req, await Article.findById(id).select('status createdBy'));
+    const revisions = await revisionService.listRevisions(id);
+
+    if (revisions.length === 0) {
+      throw new NotFoundError('Article has no revisions');
+    }
+
+    // Defaults compare the latest revision with the one before it
+    const toNumber = to ?? revisions[0].revision;
+    const fromNumber = from ?? Math.max(toNumber - 1, 1);
+
+    const [fromRevision, toRevision] = await Promise.all([
+      revisionService.getRevision(id, fromNumber),
+      revisionService.getRevision(id, toNumber)
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      throw new NotFoundError(`Revision ${!fromRevision ? fromNumber : toNumber} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: revisionService.compare(fromRevision, toRevision)
+    });
+  }
+
+  async restoreArticleRevision(req: Request<RevisionParams>, res: Response): Promise<void> {
+    const { id, revision } = req.params;
+
+    const current = await Article.findById(id).select('createdBy');
+
+    if (!current) {
+      throw new NotFoundError('Article not found');
+    }
+
+    assertCanModify(req, current.createdBy, 'articles:edit', 'articles:edit:own');
+
+    const target = await revisionService.getRevision(id, revision);
+
+    if (!target) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const { article, restored } = await withTransaction(async session => {
+      const updated = await Article.findByIdAndUpdate(
+        id,
+        {
+          title: target.title,
+          content: target.content,
+          author: target.author,
+          summary: target.summary,
+          tags: target.tags,
+          summaryStatus: 'ready',
+          updatedAt: new Date(),
+          // Revisions do not record how their summary was produced.
+          $unset: { summaryProvenance: 1 }
+        },
+        { new: true, runValidators: true, session }
+      ).select('-__v');
+
+      if (!updated) {
+        throw new NotFoundError('Article not found');
       }
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to regenerate summary',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+      return {
+        article: updated,
+        restored: await revisionService.recordRevision(updated, {
+          reason: 'restore',
+          restoredFrom: target.revision,
+          editedBy: callerName(req)
+        }, session)
+      };
+    });
+
+    await summaryJobService.cancelPending(id, 'The article was restored from a revision');
+
+    res.json({
+      success: true,
+      data: article,
+      revision: restored?.revision ?? null,
+      message: `Article restored from revision ${target.revision}`
+    });
+  }
+
+  async getTrashedArticles(req: Request<{}, {}, {}, OffsetPageQuery>, res: Response): Promise<void> {
+    const { limit, offset } = req.query;
+
+    const { items, total } = await trashService.listTrashedArticles(limit, offset);
+
+    res.json({
+      success: true,
+      data: items.map(article => ({ ...article.toObject(), purgeAt: trashService.purgeDate(article.deletedAt!) })),
+      pagination: {
+        mode: 'offset',
+        total,
+        limit,
+        offset,
+        totalPages: Math.ceil(total / limit)
+      },
+      retentionDays: trashService.retentionDays
+    });
+  }
+
+  async restoreArticle(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const restored = await trashService.restoreArticle(id);
+
+    if (!restored) {
+      throw new NotFoundError('Article not found in trash');
     }
+
+    res.json({
+      success: true,
+      data: restored.item,
+      cascade: restored.cascade,
+      message: 'Article restored successfully'
+    });
   }
 
-  async getProviderStatus(req: Request, res: Response): Promise<void> {
-    try {
-      const providersStatus = await summaryService.getProvidersStatus();
-      
-      res.json({
-        success: true,
-        data: providersStatus,
-        message: 'Provider status retrieved successfully'
-      });
+  async deleteArticle(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+          
+    const existing = await Article.findById(id).select('createdBy');
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to get provider status',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+    if (existing) {
+      assertCanModify(req, existing.createdBy, 'articles:delete', 'articles:delete:own');
+    }
+
+    const trashed = existing && await trashService.trashArticle(id);
+    
+    if (!trashed) {
+      throw new NotFoundError('Article not found');
     }
+
+    const { item: article, cascade } = trashed;
+    await this.promoteDuplicate(article);
+    
+    res.json({
+      success: true,
+      data: {
+        deletedId: id,
+        title: article.title,
+        deletedAt: article.deletedAt,
+        purgeAt: trashService.purgeDate(article.deletedAt!),
+        cascade
+      },
+      message: 'Article moved to trash'
+    });
   }
 
-  async getArticlesByTags(req: Request, res: Response): Promise<void> {
+  async regenerateSummary(req: Request<IdParams, {}, RegenerateSummaryBody>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { maxSentences, refresh } = req.body;
+
+    const article = await Article.findById(id);
+    
+    if (!article) {
+      throw new NotFoundError('Article not found');
+    }
+
+    let regenerated: ArticleSummary;
     try {
-      const { tags } = req.params;
-      const { limit = '10', offset = '0' } = req.query;
+      regenerated = await summaryService.generateSummaryForArticle(article.content, undefined, maxSentences, refresh);
+    } catch (summaryError) {
+      throw new UpstreamUnavailableError('Failed to generate new summary');
+    }
 
-      const tagArray = tags.split(',').map(tag => tag.trim().toLowerCase());
-      
-      const articles = await Article.find({
-        tags: { $in: tagArray }
-      })
+    article.summary = regenerated.summary;
+    article.summaryProvenance = regenerated.provenance;
+    article.summaryStatus = 'ready';
+    article.updatedAt = new Date();
+    await article.save();
+    await summaryJobService.cancelPending(id, 'The summary was regenerated directly');
+    
+    res.json({
+      success: true,
+      data: article,
+      metadata: summaryMetadata(regenerated.provenance),
+      message: 'Summary regenerated successfully'
+    });
+  }
+
+  async getProviderStatus(req: Request, res: Response): Promise<void> {
+    const providersStatus = await summaryService.getProvidersStatus();
+    const cache = await summaryService.getCacheStats();
+    
+    res.json({
+      success: true,
+      data: providersStatus,
+      cache,
+      message: 'Provider status retrieved successfully'
+    });
+  }
+
+  async clearSummaryCache(req: Request<{}, {}, {}, SummaryCacheQuery>, res: Response): Promise<void> {
+    const { provider, model } = req.query;
+
+    const removed = await summaryService.invalidateCache({ provider, model });
+
+    res.json({
+      success: true,
+      data: { removed },
+      message: `Summary cache cleared: ${removed} entries removed`
+    });
+  }
+
+  async getArticlesByTags(req: Request<TagsParams, {}, {}, PageQuery>, res: Response): Promise<void> {
+    const { tags } = req.params;
+    const { limit, offset = 0, cursor } = req.query;
+
+    const tagArray = tags.split(',').map(tag => tag.trim().toLowerCase());
+    const filter = { ...PUBLISHED_FILTER, tags: { $in: tagArray } };
+
+    if (usesOffsetPagination(req.query)) {
+      const articles = await Article.find(filter)
         .sort({ createdAt: -1 })
-        .limit(Number(limit))
-        .skip(Number(offset))
+        .limit(limit)
+        .skip(offset)
         .select('-__v');
 
-      const total = await Article.countDocuments({
-        tags: { $in: tagArray }
-      });
-      
+      const total = await Article.countDocuments(filter);
+
       res.json({
         success: true,
         data: articles,
         pagination: {
+          mode: 'offset',
           total,
-          limit: Number(limit),
-          offset: Number(offset),
-          totalPages: Math.ceil(total / Number(limit))
+          limit,
+          offset,
+          totalPages: Math.ceil(total / limit)
         },
         filters: { tags: tagArray }
       });
-
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to retrieve articles by tags',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+      return;
     }
+
+    const position = cursorPosition(cursor);
+    const articles = await Article.find(withCursor(filter, position))
+      .sort(position.sort)
+      .limit(limit + 1)
+      .select('-__v');
+
+    const { items, pagination, links } = cursorPage(req, articles, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links,
+      filters: { tags: tagArray }
+    });
   }
 
-  async bulkRegenerateSummaries(req: Request, res: Response): Promise<void> {
-    try {
-      const { batchSize = 5, maxSentences = 3 } = req.body;
+  async bulkRegenerateSummaries(req: Request<{}, {}, BulkRegenerateSummariesBody>, res: Response): Promise<void> {
+    const { batchSize, maxSentences, summaryMethod } = req.body;
 
-      const articlesNeedingSummaries = await Article.find({
+    const filter = summaryMethod
+      ? { 'summaryProvenance.method': summaryMethod }
+      : {
         $or: [
           { summary: { $exists: false } },
           { summary: '' },
           { summary: { $regex: /^.{0,20}$/ } }
         ]
-      }).limit(Number(batchSize));
-
-      if (articlesNeedingSummaries.length === 0) {
-        res.json({
-          success: true,
-          data: { updated: 0 },
-          message: 'No articles need summary updates'
-        });
-        return;
-      }
+      };
 
-      const updatePromises = articlesNeedingSummaries.map(async (article) => {
-        try {
-          const summaryResult = await summaryService.generateSummaryForArticle(article.content);
-          article.summary = summaryResult.summary;
-          article.updatedAt = new Date();
-          await article.save();
-          return { 
-            success: true, 
-            id: article._id, 
-            metadata: {
-              provider: summaryResult.provider,
-              model: summaryResult.model,
-              method: summaryResult.method
-            }
-          };
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          return { success: false, id: article._id, error: errorMessage };
-        }
-      });
-
-      const results = await Promise.all(updatePromises);
-      const successful = results.filter(r => r.success);
-      const failed = results.filter(r => !r.success);
+    // Articles already waiting on a job are skipped so repeated calls work through the backlog.
+    const articlesNeedingSummaries = await Article.find({ ...filter, summaryStatus: { $ne: 'pending' } })
+      .select('_id')
+      .limit(batchSize);
 
+    if (articlesNeedingSummaries.length === 0) {
       res.json({
         success: true,
-        data: {
-          updated: successful.length,
-          failed: failed.length,
-          results: results
-        },
-        message: `Bulk update completed: ${successful.length} successful, ${failed.length} failed`
+        data: { queued: 0, jobs: [] },
+        message: 'No articles need summary updates'
       });
+      return;
+    }
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to perform bulk summary regeneration',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+    const jobs = [];
+    for (const article of articlesNeedingSummaries) {
+      jobs.push(await summaryJobService.enqueue(article._id as Types.ObjectId, { reason: 'bulk', maxSentences }));
     }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        queued: jobs.length,
+        jobs
+      },
+      message: `Queued summary generation for ${jobs.length} article(s)`
+    });
   }
 
   async getArticleStats(req: Request, res: Response): Promise<void> {
-    try {
-      const [
+    const [
+      totalArticles,
+      totalAuthors,
+      averageContentLength,
+      tagStats,
+      recentArticles,
+      articlesWithSummaries
+    ] = await Promise.all([
+      Article.countDocuments(PUBLISHED_FILTER),
+      Article.distinct('author', PUBLISHED_FILTER).then(authors => authors.length),
+      Article.aggregate([
+        { $match: PUBLISHED_FILTER },
+        { $group: { _id: null, avgLength: { $avg: { $strLenCP: '$content' } } } }
+      ]),
+      Article.aggregate([
+        { $match: PUBLISHED_FILTER },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+        { $sort: { count: -1 } },
+        { $limit: 10 }
+      ]),
+      Article.countDocuments({
+        ...PUBLISHED_FILTER,
+        createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+      }),
+      Article.countDocuments({
+        ...PUBLISHED_FILTER,
+        summary: { $exists: true, $ne: '', $not: /^.{0,20}$/ }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
         totalArticles,
         totalAuthors,
-        averageContentLength,
-        tagStats,
-        recentArticles,
-        articlesWithSummaries
-      ] = await Promise.all([
-        Article.countDocuments(),
-        Article.distinct('author').then(authors => authors.length),
-        Article.aggregate([
-          { $group: { _id: null, avgLength: { $avg: { $strLenCP: '$content' } } } }
-        ]),
-        Article.aggregate([
-          { $unwind: '$tags' },
-          { $group: { _id: '$tags', count: { $sum: 1 } } },
-          { $sort: { count: -1 } },
-          { $limit: 10 }
-        ]),
-        Article.countDocuments({
-          createdAt: { $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
-        }),
-        Article.countDocuments({
-          summary: { $exists: true, $ne: '', $not: /^.{0,20}$/ }
-        })
-      ]);
+        averageContentLength: Math.round(averageContentLength[0]?.avgLength || 0),
+        topTags: tagStats,
+        recentArticles: recentArticles,
+        lastWeekGrowth: recentArticles,
+        articlesWithSummaries,
+        summaryCompletionRate: totalArticles > 0 ? Math.round((articlesWithSummaries / totalArticles) * 100) : 0
+      }
+    });
+  }
 
-      res.json({
-        success: true,
-        data: {
-          totalArticles,
-          totalAuthors,
-          averageContentLength: Math.round(averageContentLength[0]?.avgLength || 0),
-          topTags: tagStats,
-          recentArticles: recentArticles,
-          lastWeekGrowth: recentArticles,
-          articlesWithSummaries,
-          summaryCompletionRate: totalArticles > 0 ? Math.round((articlesWithSummaries / totalArticles) * 100) : 0
-        }
-      });
+  private async saveNewArticle(input: NewArticleInput): Promise<{
+    article: IArticle;
+    summaryJob: ISummaryJob | null;
+  }> {
+    const { title, content, author, summary, tags, status, url, imageUrl, publishedAt, duplicateOf, createdBy, editedBy } = input;
+
+    // Without a summary the article is saved straight away and one is generated in the background.
+    const written = summary && summary.trim() !== '' ? summaryService.userSummary(content, summary) : null;
+
+    const article = new Article({
+      title: title.trim(),
+      content: content.trim(),
+      author: author.trim(),
+      summary: written?.summary,
+      summaryProvenance: written?.provenance,
+      summaryStatus: written ? 'ready' : 'pending',
+      tags: tags?.map(tag => tag.trim().toLowerCase()) || [],
+      status: status || 'draft',
+      url,
+      imageUrl,
+      publishedAt,
+      duplicateOf,
+      createdBy
+    });
+
+    const saved = await article.save();
+    await revisionService.recordRevision(saved, { reason: 'create', editedBy });
+
+    const summaryJob = written ? null : await summaryJobService.enqueue(saved._id as Types.ObjectId, { reason: 'create' });
+
+    return { article: saved, summaryJob };
+  }
 
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to retrieve article statistics',
-        error: process.env.NODE_ENV === 'development' ? error : undefined
-      });
+  private async promoteDuplicate(deleted: IArticle): Promise<void> {
+    const successor = await Article.findOne({ duplicateOf: deleted._id }).sort({ createdAt: 1 });
+
+    if (!successor) {
+      return;
     }
+
+    await Article.updateMany(
+      { duplicateOf: deleted._id, _id: { $ne: successor._id } },
+      { duplicateOf: successor._id }
+    );
+    await Article.updateOne({ _id: successor._id }, { $unset: { duplicateOf: 1 } });
+  }
+
+  private splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
   }
 }
\ No newline at end of file
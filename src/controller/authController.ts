@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../services/authService';
+import { LoginBody, RefreshTokenBody } from '../validation/schemas';
+
+const authService = new AuthService();
+
+export class AuthController {
+  async login(req: Request<{}, {}, LoginBody>, res: Response): Promise<void> {
+    const { username, password } = req.body;
+
+    const tokens = await authService.login(username, password);
+
+    res.json({
+      success: true,
+      data: tokens,
+      message: 'Logged in successfully'
+    });
+  }
+
+  async refresh(req: Request<{}, {}, RefreshTokenBody>, res: Response): Promise<void> {
+    const { refreshToken } = req.body;
+
+    const tokens = await authService.refresh(refreshToken);
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+  }
+
+  async logout(req: Request<{}, {}, RefreshTokenBody>, res: Response): Promise<void> {
+    const { refreshToken } = req.body;
+
+    await authService.logout(refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  }
+
+  async me(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: req.caller
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { ClusteringService } from '../services/clusteringService';
+import { ClustersQuery } from '../validation/schemas';
+
+const clusteringService = new ClusteringService();
+
+export class ClusterController {
+  async getClusters(req: Request<{}, {}, {}, ClustersQuery>, res: Response): Promise<void> {
+    const { days, minSize, limit, threshold } = req.query;
+
+    const startTime = Date.now();
+
+    const clusters = await clusteringService.getClusters({ days, minSize, threshold });
+
+    res.json({
+      success: true,
+      data: {
+        clusters: clusters.slice(0, limit),
+        count: Math.min(clusters.length, limit),
+        totalClusters: clusters.length,
+        processingTimeMs: Date.now() - startTime
+      },
+      message: 'Story clusters retrieved successfully'
+    });
+  }
+}
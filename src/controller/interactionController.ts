@@ -1,96 +1,75 @@
 import { Request, Response } from 'express';
 import Interaction from '../models/Interaction';
 import User from '../models/User';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { assertCanModify, assertReadable, isOwner } from '../middleware';
 import Article from '../models/Article';
+import { cursorPage, cursorPosition, usesOffsetPagination, withCursor } from '../utils/pagination';
+import {
+  ArticleParams,
+  CreateInteractionBody,
+  IdParams,
+  InteractionsQuery,
+  PageQuery,
+  RemoveInteractionBody,
+  UpdateCommentBody,
+  UserArticleParams,
+  UserParams
+} from '../validation/schemas';
 
 export class InteractionController {
-  async getArticleShareStats(req: Request, res: Response): Promise<void> {
+  async getArticleShareStats(req: Request<ArticleParams>, res: Response): Promise<void> {
     const { articleId } = req.params;
     
-    try {
-      const shareStats = await Interaction.aggregate([
-        { 
-          $match: { 
-            articleId: articleId, 
-            interactionType: 'share' 
-          } 
-        },
-        { 
-          $group: { 
-            _id: '$shareMetadata.platform',
-            count: { $sum: 1 }
-          }
-        },
-        { $sort: { count: -1 } }
-      ]);
-
-      const totalShares = shareStats.reduce((sum, stat) => sum + stat.count, 0);
-      
-      res.json({
-        success: true,
-        data: {
-          articleId,
-          totalShares,
-          sharesByPlatform: shareStats.reduce((acc, stat) => {
-            acc[stat._id] = stat.count;
-            return acc;
-          }, {} as Record<string, number>)
+    const shareStats = await Interaction.aggregate([
+      { 
+        $match: { 
+          articleId: articleId, 
+          interactionType: 'share' 
+        } 
+      },
+      { 
+        $group: { 
+          _id: '$shareMetadata.platform',
+          count: { $sum: 1 }
         }
-      });
-    } catch (error: any) {
-      throw error;
-    }
-  }
-
-  async createInteraction(req: Request, res: Response): Promise<void> {
-    const { user_id, article_id, interaction_type, content, shareMetadata } = req.body;
+      },
+      { $sort: { count: -1 } }
+    ]);
 
-    try {
-      const userExists = await User.findById(user_id);
-      if (!userExists) {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
+    const totalShares = shareStats.reduce((sum, stat) => sum + stat.count, 0);
+    
+    res.json({
+      success: true,
+      data: {
+        articleId,
+        totalShares,
+        sharesByPlatform: shareStats.reduce((acc, stat) => {
+          acc[stat._id] = stat.count;
+          return acc;
+        }, {} as Record<string, number>)
       }
+    });
+  }
 
-      const articleExists = await Article.findById(article_id);
-      if (!articleExists) {
-        res.status(404).json({
-          success: false,
-          message: 'Article not found'
-        });
-        return;
-      }
+  async createInteraction(req: Request<{}, {}, CreateInteractionBody>, res: Response): Promise<void> {
+    const { article_id, interaction_type, content, shareMetadata } = req.body;
+    const userId = await this.actingUserId(req);
 
-      if (interaction_type === 'comment' && !content?.trim()) {
-        res.status(400).json({
-          success: false,
-          message: 'Comment content is required'
-        });
-        return;
-      }
-
-      if (interaction_type === 'share' && (!shareMetadata || !shareMetadata.platform)) {
-        res.status(400).json({
-          success: false,
-          message: 'Share platform is required for share interactions'
-        });
-        return;
-      }
+    try {
+      assertReadable(req, await Article.findById(article_id).select('status createdBy'));
 
       const interactionData: any = {
-        userId: user_id,
+        userId,
         articleId: article_id,
         interactionType: interaction_type
       };
 
-      if (interaction_type === 'comment') {
-        interactionData.content = content.trim();
+      if (content !== undefined) {
+        interactionData.content = content;
       }
 
-      if (interaction_type === 'share' && shareMetadata) {
+      if (shareMetadata) {
         interactionData.shareMetadata = shareMetadata;
       }
 
@@ -106,296 +85,324 @@ export class InteractionController {
       });
     } catch (error: any) {
       if (error.code === 11000) {
-        res.status(409).json({
-          success: false,
-          message: `You have already ${interaction_type}d this article`
-        });
-        return;
+        throw new ConflictError(`You have already ${interaction_type}d this article`);
       }
       throw error;
     }
   }
 
-  async removeInteraction(req: Request, res: Response): Promise<void> {
-    const { user_id, article_id, interaction_type } = req.body;
+  async removeInteraction(req: Request<{}, {}, RemoveInteractionBody>, res: Response): Promise<void> {
+    const { article_id, interaction_type } = req.body;
+    const userId = await this.actingUserId(req);
 
-    if (interaction_type === 'comment') {
-      res.status(400).json({
-        success: false,
-        message: 'Use delete endpoint to remove specific comments'
-      });
-      return;
-    }
+    const interaction = await Interaction.findOneAndDelete({
+      userId,
+      articleId: article_id,
+      interactionType: interaction_type
+    });
 
-    try {
-      const interaction = await Interaction.findOneAndDelete({
-        userId: user_id,
-        articleId: article_id,
-        interactionType: interaction_type
-      });
-
-      if (!interaction) {
-        res.status(404).json({
-          success: false,
-          message: `No ${interaction_type} found to remove`
-        });
-        return;
-      }
-
-      res.json({
-        success: true,
-        message: `${interaction_type.charAt(0).toUpperCase() + interaction_type.slice(1)} removed successfully`
-      });
-    } catch (error: any) {
-      throw error;
+    if (!interaction) {
+      throw new NotFoundError(`No ${interaction_type} found to remove`);
     }
+
+    res.json({
+      success: true,
+      message: `${interaction_type.charAt(0).toUpperCase() + interaction_type.slice(1)} removed successfully`
+    });
   }
 
-  async getUserArticleInteractions(req: Request, res: Response): Promise<void> {
+  async getUserArticleInteractions(req: Request<UserArticleParams>, res: Response): Promise<void> {
     const { userId, articleId } = req.params;
 
-    try {
-      const interactions = await Interaction.find({
-        userId,
-        articleId
-      }).select('interactionType content createdAt');
-
-      const interactionStatus = {
-        liked: false,
-        shared: false,
-        viewed: false,
-        comments: [] as any[]
-      };
-
-      interactions.forEach(interaction => {
-        switch (interaction.interactionType) {
-          case 'like':
-            interactionStatus.liked = true;
-            break;
-          case 'share':
-            interactionStatus.shared = true;
-            break;
-          case 'view':
-            interactionStatus.viewed = true;
-            break;
-          case 'comment':
-            interactionStatus.comments.push({
-              id: interaction._id,
-              content: interaction.content,
-              createdAt: interaction.createdAt
-            });
-            break;
-        }
-      });
+    const interactions = await Interaction.find({
+      userId,
+      articleId
+    }).select('interactionType content createdAt');
+
+    const interactionStatus = {
+      liked: false,
+      shared: false,
+      viewed: false,
+      comments: [] as any[]
+    };
+
+    interactions.forEach(interaction => {
+      switch (interaction.interactionType) {
+        case 'like':
+          interactionStatus.liked = true;
+          break;
+        case 'share':
+          interactionStatus.shared = true;
+          break;
+        case 'view':
+          interactionStatus.viewed = true;
+          break;
+        case 'comment':
+          interactionStatus.comments.push({
+            id: interaction._id,
+            content: interaction.content,
+            createdAt: interaction.createdAt
+          });
+          break;
+      }
+    });
 
-      res.json({
-        success: true,
-        data: {
-          userId,
-          articleId,
-          interactions: interactionStatus
-        }
-      });
-    } catch (error: any) {
-      throw error;
-    }
+    res.json({
+      success: true,
+      data: {
+        userId,
+        articleId,
+        interactions: interactionStatus
+      }
+    });
   }
 
-  async getUserInteractions(req: Request, res: Response): Promise<void> {
+  async getUserInteractions(req: Request<UserParams, {}, {}, InteractionsQuery>, res: Response): Promise<void> {
     const { userId } = req.params;
-    const { limit = 20, offset = 0, interaction_type } = req.query;
+    const { limit, offset = 0, cursor, interaction_type } = req.query;
 
-    try {
-      const query: any = { userId };
-      if (interaction_type) {
-        query.interactionType = interaction_type;
-      }
+    const query: any = { userId };
+    if (interaction_type) {
+      query.interactionType = interaction_type;
+    }
 
+    if (usesOffsetPagination(req.query)) {
       const interactions = await Interaction.find(query)
         .populate('articleId', 'title author createdAt')
         .sort({ createdAt: -1 })
-        .limit(Number(limit))
-        .skip(Number(offset));
+        .limit(limit)
+        .skip(offset);
 
       const total = await Interaction.countDocuments(query);
-      
+
       res.json({
         success: true,
         data: interactions,
         pagination: {
+          mode: 'offset',
           total,
-          limit: Number(limit),
-          offset: Number(offset)
+          limit,
+          offset
         }
       });
-    } catch (error: any) {
-      throw error;
+      return;
     }
+
+    const position = cursorPosition(cursor);
+    const interactions = await Interaction.find(withCursor(query, position))
+      .populate('articleId', 'title author createdAt')
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, interactions, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
   }
 
-  async getArticleInteractions(req: Request, res: Response): Promise<void> {
+  async getArticleInteractions(req: Request<ArticleParams, {}, {}, InteractionsQuery>, res: Response): Promise<void> {
     const { articleId } = req.params;
-    const { limit = 20, offset = 0, interaction_type } = req.query;
+    const { limit, offset = 0, cursor, interaction_type } = req.query;
 
-    try {
-      const query: any = { articleId };
-      if (interaction_type) {
-        query.interactionType = interaction_type;
-      }
+    const query: any = { articleId };
+    if (interaction_type) {
+      query.interactionType = interaction_type;
+    }
 
+    if (usesOffsetPagination(req.query)) {
       const interactions = await Interaction.find(query)
         .populate('userId', 'username')
         .sort({ createdAt: -1 })
-        .limit(Number(limit))
-        .skip(Number(offset));
+        .limit(limit)
+        .skip(offset);
 
       const total = await Interaction.countDocuments(query);
-      
+
       res.json({
         success: true,
         data: interactions,
         pagination: {
+          mode: 'offset',
           total,
-          limit: Number(limit),
-          offset: Number(offset)
+          limit,
+          offset
         }
       });
-    } catch (error: any) {
-      throw error;
+      return;
     }
+
+    const position = cursorPosition(cursor);
+    const interactions = await Interaction.find(withCursor(query, position))
+      .populate('userId', 'username')
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, interactions, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
   }
 
-  async getArticleComments(req: Request, res: Response): Promise<void> {
+  async getArticleComments(req: Request<ArticleParams, {}, {}, PageQuery>, res: Response): Promise<void> {
     const { articleId } = req.params;
-    const { limit = 10, offset = 0 } = req.query;
+    const { limit, offset = 0, cursor } = req.query;
 
-    try {
-      const comments = await Interaction.find({
-        articleId,
-        interactionType: 'comment'
-      })
+    const query = { articleId, interactionType: 'comment' };
+
+    if (usesOffsetPagination(req.query)) {
+      const comments = await Interaction.find(query)
         .populate('userId', 'username')
         .sort({ createdAt: -1 })
-        .limit(Number(limit))
-        .skip(Number(offset));
+        .limit(limit)
+        .skip(offset);
 
-      const total = await Interaction.countDocuments({
-        articleId,
-        interactionType: 'comment'
-      });
+      const total = await Interaction.countDocuments(query);
 
       res.json({
         success: true,
         data: comments,
         pagination: {
+          mode: 'offset',
           total,
-          limit: Number(limit),
-          offset: Number(offset)
+          limit,
+          offset
         }
       });
-    } catch (error: any) {
-      throw error;
+      return;
     }
+
+    const position = cursorPosition(cursor);
+    const comments = await Interaction.find(withCursor(query, position))
+      .populate('userId', 'username')
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, comments, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
   }
 
-  async getArticleStats(req: Request, res: Response): Promise<void> {
+  async getArticleStats(req: Request<ArticleParams>, res: Response): Promise<void> {
     const { articleId } = req.params;
 
-    try {
-      const stats = await Interaction.aggregate([
-        { $match: { articleId: articleId } },
-        { 
-          $group: { 
-            _id: '$interactionType',
-            count: { $sum: 1 }
-          }
+    const stats = await Interaction.aggregate([
+      { $match: { articleId: articleId } },
+      { 
+        $group: { 
+          _id: '$interactionType',
+          count: { $sum: 1 }
         }
-      ]);
+      }
+    ]);
 
-      const formattedStats = stats.reduce((acc, stat) => {
-        acc[stat._id] = stat.count;
-        return acc;
-      }, {} as Record<string, number>);
+    const formattedStats = stats.reduce((acc, stat) => {
+      acc[stat._id] = stat.count;
+      return acc;
+    }, {} as Record<string, number>);
 
-      const allTypes = ['view', 'like', 'share', 'comment'];
-      allTypes.forEach(type => {
-        if (!formattedStats[type]) {
-          formattedStats[type] = 0;
-        }
-      });
+    const allTypes = ['view', 'like', 'share', 'comment'];
+    allTypes.forEach(type => {
+      if (!formattedStats[type]) {
+        formattedStats[type] = 0;
+      }
+    });
 
-      const totalInteractions = stats.reduce((sum, stat) => sum + stat.count, 0);
+    const totalInteractions = stats.reduce((sum, stat) => sum + stat.count, 0);
 
-      res.json({
-        success: true,
-        data: {
-          articleId,
-          interactions: formattedStats,
-          totalInteractions
-        }
-      });
-    } catch (error: any) {
-      throw error;
-    }
+    res.json({
+      success: true,
+      data: {
+        articleId,
+        interactions: formattedStats,
+        totalInteractions
+      }
+    });
   }
 
-  async deleteInteraction(req: Request, res: Response): Promise<void> {
+  async deleteInteraction(req: Request<IdParams>, res: Response): Promise<void> {
     const { id } = req.params;
     
-    try {
-      const interaction = await Interaction.findByIdAndDelete(id);
-      
-      if (!interaction) {
-        res.status(404).json({
-          success: false,
-          message: 'Interaction not found'
-        });
-        return;
-      }
-      
-      res.json({
-        success: true,
-        message: 'Interaction deleted successfully'
-      });
-    } catch (error: any) {
-      throw error;
+    const interaction = await Interaction.findById(id).select('userId');
+    
+    if (!interaction) {
+      throw new NotFoundError('Interaction not found');
     }
+
+    assertCanModify(req, interaction.userId, 'comments:moderate');
+    await Interaction.deleteOne({ _id: interaction._id });
+    
+    res.json({
+      success: true,
+      message: 'Interaction deleted successfully'
+    });
   }
 
-  async updateComment(req: Request, res: Response): Promise<void> {
+  async updateComment(req: Request<IdParams, {}, UpdateCommentBody>, res: Response): Promise<void> {
     const { id } = req.params;
     const { content } = req.body;
 
-    if (!content?.trim()) {
-      res.status(400).json({
-        success: false,
-        message: 'Comment content is required'
-      });
-      return;
+    const comment = await Interaction.findOne({ _id: id, interactionType: 'comment' }).select('userId');
+
+    if (!comment) {
+      throw new NotFoundError('Comment not found');
     }
 
-    try {
-      const interaction = await Interaction.findOneAndUpdate(
-        { _id: id, interactionType: 'comment' },
-        { content: content.trim() },
-        { new: true, runValidators: true }
-      ).populate('userId', 'username');
-
-      if (!interaction) {
-        res.status(404).json({
-          success: false,
-          message: 'Comment not found'
-        });
-        return;
-      }
+    // Moderators may remove other people's comments but never reword them.
+    if (!isOwner(req, comment.userId)) {
+      throw new ForbiddenError('You can only edit your own comments');
+    }
 
-      res.json({
-        success: true,
-        data: interaction,
-        message: 'Comment updated successfully'
-      });
-    } catch (error: any) {
-      throw error;
+    const interaction = await Interaction.findOneAndUpdate(
+      { _id: id, interactionType: 'comment' },
+      { content },
+      { new: true, runValidators: true }
+    ).populate('userId', 'username');
+
+    if (!interaction) {
+      throw new NotFoundError('Comment not found');
     }
+
+    res.json({
+      success: true,
+      data: interaction,
+      message: 'Comment updated successfully'
+    });
+  }
+
+  /**
+   * The user an interaction is recorded for: the caller itself, or for an
+   * API key issued to an application, the `user_id` it acts on behalf of.
+   */
+  private async actingUserId(req: Request<{}, {}, { user_id?: string }>): Promise<string> {
+    if (req.user) {
+      return req.user.id;
+    }
+
+    const { user_id } = req.body;
+
+    if (!user_id) {
+      throw new ValidationError('user_id is required when calling with an application API key', [
+        { field: 'user_id', message: '"user_id" is required' }
+      ]);
+    }
+
+    if (!(await User.exists({ _id: user_id }))) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user_id;
   }
-}
\ No newline at end of file
+}
@@ -3,170 +3,138 @@ import { RecommendationService } from '../services/recommendationService';
 import User from '../models/User';
 import Interaction from '../models/Interaction';
 import { IArticle } from '../models/Article';
+import { NotFoundError } from '../utils/errors';
+import { RecommendationParams, RecommendationQuery } from '../validation/schemas';
 
 const recommendationService = new RecommendationService();
 
 export class RecommendationController {
-  async getRecommendations(req: Request, res: Response): Promise<void> {
+  async getRecommendations(req: Request<RecommendationParams, {}, {}, RecommendationQuery>, res: Response): Promise<void> {
     const { user_id } = req.params;
-    const { limit = 10 } = req.query;
-
-    try {
-      const startTime = Date.now();
-      
-      const recommendations = await recommendationService.getRecommendations(
-        user_id, 
-        Number(limit)
-      );
-      
-      const processingTime = Date.now() - startTime;
-      
-      const formattedRecommendations = recommendations.map(rec => ({
-        article: rec.article,
-        score: Math.round(rec.score * 100) / 100,
-        reasons: rec.reasons
-      }));
-      
-      res.json({
-        success: true,
-        data: {
-          userId: user_id,
-          recommendations: formattedRecommendations,
-          count: recommendations.length,
-          processingTimeMs: processingTime
-        },
-        message: 'Recommendations generated successfully'
-      });
-    } catch (error: any) {
-      if (error.message === 'User not found') {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
-      }
-      throw error;
-    }
+    const { limit } = req.query;
+
+    const startTime = Date.now();
+    
+    const recommendations = await recommendationService.getRecommendations(user_id, limit);
+    
+    const processingTime = Date.now() - startTime;
+    
+    const formattedRecommendations = recommendations.map(rec => ({
+      article: rec.article,
+      score: Math.round(rec.score * 100) / 100,
+      reasons: rec.reasons
+    }));
+    
+    res.json({
+      success: true,
+      data: {
+        userId: user_id,
+        recommendations: formattedRecommendations,
+        count: recommendations.length,
+        processingTimeMs: processingTime
+      },
+      message: 'Recommendations generated successfully'
+    });
   }
 
-  async getTrendingArticles(req: Request, res: Response): Promise<void> {
-    const { limit = 10 } = req.query;
-
-    try {
-      const startTime = Date.now();
-      
-      const trendingArticles = await recommendationService.getTrendingArticles(
-        Number(limit)
-      );
-      
-      const processingTime = Date.now() - startTime;
-      
-      res.json({
-        success: true,
-        data: {
-          articles: trendingArticles,
-          count: trendingArticles.length,
-          processingTimeMs: processingTime
-        },
-        message: 'Trending articles retrieved successfully'
-      });
-    } catch (error: any) {
-      throw error;
-    }
+  async getTrendingArticles(req: Request<{}, {}, {}, RecommendationQuery>, res: Response): Promise<void> {
+    const { limit } = req.query;
+
+    const startTime = Date.now();
+    
+    const trendingArticles = await recommendationService.getTrendingArticles(limit);
+    
+    const processingTime = Date.now() - startTime;
+    
+    res.json({
+      success: true,
+      data: {
+        articles: trendingArticles,
+        count: trendingArticles.length,
+        processingTimeMs: processingTime
+      },
+      message: 'Trending articles retrieved successfully'
+    });
   }
 
-  async getPopularArticles(req: Request, res: Response): Promise<void> {
-    const { limit = 10 } = req.query;
-
-    try {
-      const startTime = Date.now();
-      
-      const popularArticles = await recommendationService.getTrendingArticles(
-        Number(limit)
-      );
-      
-      const processingTime = Date.now() - startTime;
-      
-      res.json({
-        success: true,
-        data: {
-          articles: popularArticles,
-          count: popularArticles.length,
-          processingTimeMs: processingTime
-        },
-        message: 'Popular articles retrieved successfully'
-      });
-    } catch (error: any) {
-      throw error;
-    }
+  async getPopularArticles(req: Request<{}, {}, {}, RecommendationQuery>, res: Response): Promise<void> {
+    const { limit } = req.query;
+
+    const startTime = Date.now();
+    
+    const popularArticles = await recommendationService.getTrendingArticles(limit);
+    
+    const processingTime = Date.now() - startTime;
+    
+    res.json({
+      success: true,
+      data: {
+        articles: popularArticles,
+        count: popularArticles.length,
+        processingTimeMs: processingTime
+      },
+      message: 'Popular articles retrieved successfully'
+    });
   }
 
-  async getRecommendationInsights(req: Request, res: Response): Promise<void> {
+  async getRecommendationInsights(req: Request<RecommendationParams>, res: Response): Promise<void> {
     const { user_id } = req.params;
 
-    try {
-      const user = await User.findById(user_id);
-      
-      if (!user) {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
-      }
-      const userInteractions = await Interaction.find({ userId: user_id })
-        .populate<{ articleId: IArticle }>('articleId', 'title tags author')
-        .populate('articleId', 'title tags author')
-        .limit(50)
-        .sort({ createdAt: -1 });
-
-      const interactionsByType = userInteractions.reduce((acc, interaction) => {
-        acc[interaction.interactionType] = (acc[interaction.interactionType] || 0) + 1;
+    const user = await User.findById(user_id);
+    
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    const userInteractions = await Interaction.find({ userId: user_id })
+      .populate<{ articleId: IArticle }>('articleId', 'title tags author')
+      .populate('articleId', 'title tags author')
+      .limit(50)
+      .sort({ createdAt: -1 });
+
+    const interactionsByType = userInteractions.reduce((acc, interaction) => {
+      acc[interaction.interactionType] = (acc[interaction.interactionType] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const tagPreferences = userInteractions
+      .filter(interaction => interaction.articleId?.tags)
+      .flatMap(interaction => interaction.articleId.tags)
+      .filter((tag): tag is string => typeof tag === 'string')
+      .reduce((acc, tag) => {
+        acc[tag] = (acc[tag] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
 
-      const tagPreferences = userInteractions
-        .filter(interaction => interaction.articleId?.tags)
-        .flatMap(interaction => interaction.articleId.tags)
-        .filter((tag): tag is string => typeof tag === 'string')
-        .reduce((acc, tag) => {
-          acc[tag] = (acc[tag] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-
-      const insights = {
-        user: {
-          id: user_id,
-          username: user.username,
-          explicitInterests: user.interests || [],
-          memberSince: user.createdAt
-        },
-        activitySummary: {
-          totalInteractions: userInteractions.length,
-          interactionsByType: interactionsByType,
-          mostActiveDay: this.getMostActiveDay(userInteractions)
-        },
-        preferences: {
-          derivedTagPreferences: Object.entries(tagPreferences)
-            .sort(([,a], [,b]) => (b as number) - (a as number))
-            .slice(0, 10)
-            .map(([tag, count]) => ({ tag, frequency: count })),
-          topAuthors: this.getTopAuthors(userInteractions)
-        },
-        recommendations: {
-          lastGenerated: new Date(),
-          algorithmsUsed: ['interest_matching', 'popularity_score', 'content_freshness', 'author_reputation']
-        }
-      };
-
-      res.json({
-        success: true,
-        data: insights,
-        message: 'Recommendation insights retrieved successfully'
-      });
-    } catch (error: any) {
-      throw error;
-    }
+    const insights = {
+      user: {
+        id: user_id,
+        username: user.username,
+        explicitInterests: user.interests || [],
+        memberSince: user.createdAt
+      },
+      activitySummary: {
+        totalInteractions: userInteractions.length,
+        interactionsByType: interactionsByType,
+        mostActiveDay: this.getMostActiveDay(userInteractions)
+      },
+      preferences: {
+        derivedTagPreferences: Object.entries(tagPreferences)
+          .sort(([,a], [,b]) => (b as number) - (a as number))
+          .slice(0, 10)
+          .map(([tag, count]) => ({ tag, frequency: count })),
+        topAuthors: this.getTopAuthors(userInteractions)
+      },
+      recommendations: {
+        lastGenerated: new Date(),
+        algorithmsUsed: ['interest_matching', 'popularity_score', 'content_freshness', 'author_reputation']
+      }
+    };
+
+    res.json({
+      success: true,
+      data: insights,
+      message: 'Recommendation insights retrieved successfully'
+    });
   }
 
   private getMostActiveDay(interactions: any[]): string {
@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import Source from '../models/Source';
+import Article, { PUBLISHED_FILTER } from '../models/Article';
+import { can } from '../middleware';
+import { FeedIngestionService } from '../services/feedIngestionService';
+import { OpmlService } from '../services/opmlService';
+import { TrashService } from '../services/trashService';
+import { NotFoundError, UpstreamUnavailableError } from '../utils/errors';
+import { cursorPage, cursorPosition, usesOffsetPagination, withCursor } from '../utils/pagination';
+import { withTransaction } from '../utils/transaction';
+import {
+  CreateSourceBody,
+  DeleteSourceQuery,
+  IdParams,
+  OpmlImportBody,
+  PageQuery,
+  SourcesQuery,
+  UpdateSourceBody
+} from '../validation/schemas';
+
+const feedIngestionService = new FeedIngestionService();
+const opmlService = new OpmlService();
+const trashService = new TrashService();
+
+// Fetch errors can name hosts and addresses the server reached, so only source managers see them.
+const visibleFields = (req: Pick<Request, 'user' | 'caller'>): Record<string, 0> =>
+  can(req, 'sources:manage') ? {} : { lastError: 0 };
+
+export class SourceController {
+  async createSource(req: Request<{}, {}, CreateSourceBody>, res: Response): Promise<void> {
+    const { feedUrl, title, pollIntervalMinutes, defaultTags } = req.body;
+
+    const source = new Source({
+      feedUrl,
+      title,
+      pollIntervalMinutes,
+      defaultTags: defaultTags || []
+    });
+
+    const savedSource = await source.save();
+
+    res.status(201).json({
+      success: true,
+      data: savedSource,
+      message: 'Source registered successfully'
+    });
+  }
+
+  async getSources(req: Request<{}, {}, {}, SourcesQuery>, res: Response): Promise<void> {
+    const { limit, offset = 0, cursor, status } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+
+    if (usesOffsetPagination(req.query)) {
+      const sources = await Source.find(query)
+        .select(visibleFields(req))
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(offset);
+
+      const total = await Source.countDocuments(query);
+
+      res.json({
+        success: true,
+        data: sources,
+        pagination: {
+          mode: 'offset',
+          total,
+          limit,
+          offset
+        }
+      });
+      return;
+    }
+
+    const position = cursorPosition(cursor);
+    const sources = await Source.find(withCursor(query, position))
+      .select(visibleFields(req))
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, sources, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
+  }
+
+  async getSourceById(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const source = await Source.findById(id).select(visibleFields(req));
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    const articleCount = await Article.countDocuments({ sourceId: source._id });
+
+    res.json({
+      success: true,
+      data: {
+        ...source.toObject(),
+        articleCount
+      }
+    });
+  }
+
+  async updateSource(req: Request<IdParams, {}, UpdateSourceBody>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const source = await Source.findByIdAndUpdate(
+      id,
+      req.body,
+      { new: true, runValidators: true }
+    );
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    res.json({
+      success: true,
+      data: source,
+      message: 'Source updated successfully'
+    });
+  }
+
+  async deleteSource(req: Request<IdParams, {}, {}, DeleteSourceQuery>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { cascade } = req.query;
+
+    // The source goes last, so a failure while handling its articles leaves both as they were.
+    const articles = await withTransaction(async session => {
+      const source = await Source.findById(id).session(session || null);
+
+      if (!source) {
+        throw new NotFoundError('Source not found');
+      }
+
+      let outcome: { trashed: number; interactions: number } | { orphaned: number };
+      if (cascade) {
+        const result = await trashService.trashArticles({ sourceId: source._id }, session);
+        outcome = { trashed: result.trashed, interactions: result.cascade.interactions };
+      } else {
+        const result = await Article.updateMany({ sourceId: source._id }, { $unset: { sourceId: 1 } }, { session });
+        outcome = { orphaned: result.modifiedCount };
+      }
+
+      await Source.deleteOne({ _id: source._id }, { session });
+      return outcome;
+    });
+
+    res.json({
+      success: true,
+      data: {
+        deletedId: id,
+        articles
+      },
+      message: 'Source deleted successfully'
+    });
+  }
+
+  async pauseSource(req: Request<IdParams>, res: Response): Promise<void> {
+    await this.setStatus(req, res, 'paused');
+  }
+
+  async resumeSource(req: Request<IdParams>, res: Response): Promise<void> {
+    await this.setStatus(req, res, 'active');
+  }
+
+  async refreshSource(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const source = await Source.findById(id);
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    const result = await feedIngestionService.ingestSource(source);
+
+    if (result.status === 'failed') {
+      console.warn(`Refreshing source ${id} failed:`, result.error);
+      throw new UpstreamUnavailableError('The feed could not be fetched or parsed');
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Source refreshed successfully'
+    });
+  }
+
+  async getSourceArticles(req: Request<IdParams, {}, {}, PageQuery>, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { limit, offset = 0, cursor } = req.query;
+
+    const source = await Source.findById(id);
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    const query = { ...PUBLISHED_FILTER, sourceId: source._id };
+
+    if (usesOffsetPagination(req.query)) {
+      const articles = await Article.find(query)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(offset)
+        .select('-__v');
+
+      const total = await Article.countDocuments(query);
+
+      res.json({
+        success: true,
+        data: articles,
+        pagination: {
+          mode: 'offset',
+          total,
+          limit,
+          offset
+        }
+      });
+      return;
+    }
+
+    const position = cursorPosition(cursor);
+    const articles = await Article.find(withCursor(query, position))
+      .sort(position.sort)
+      .limit(limit + 1)
+      .select('-__v');
+
+    const { items, pagination, links } = cursorPage(req, articles, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
+  }
+
+  async importOpml(req: Request<{}, {}, OpmlImportBody>, res: Response): Promise<void> {
+    const opml = typeof req.body === 'string' ? req.body : req.body.opml;
+
+    const result = await opmlService.importOpml(opml);
+
+    res.status(result.created > 0 ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: `OPML import completed: ${result.created} created, ${result.duplicates} duplicates, ${result.invalid} invalid`
+    });
+  }
+
+  async exportOpml(req: Request, res: Response): Promise<void> {
+    const opml = await opmlService.exportOpml();
+
+    res
+      .type('text/x-opml')
+      .attachment('subscriptions.opml')
+      .send(opml);
+  }
+
+  private async setStatus(req: Request<IdParams>, res: Response, status: 'active' | 'paused'): Promise<void> {
+    const { id } = req.params;
+
+    const updates: any = { status };
+    if (status === 'active') {
+      updates.nextFetchAt = new Date();
+    }
+
+    const source = await Source.findByIdAndUpdate(id, updates, { new: true });
+
+    if (!source) {
+      throw new NotFoundError('Source not found');
+    }
+
+    res.json({
+      success: true,
+      data: source,
+      message: status === 'paused' ? 'Source paused successfully' : 'Source resumed successfully'
+    });
+  }
+}
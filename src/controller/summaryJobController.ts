@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import SummaryJob from '../models/SummaryJob';
+import { NotFoundError } from '../utils/errors';
+import { cursorPage, cursorPosition, usesOffsetPagination, withCursor } from '../utils/pagination';
+import { IdParams, SummaryJobsQuery } from '../validation/schemas';
+
+export class SummaryJobController {
+  async getSummaryJobs(req: Request<{}, {}, {}, SummaryJobsQuery>, res: Response): Promise<void> {
+    const { limit, offset = 0, cursor, status, articleId } = req.query;
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (articleId) {
+      query.articleId = articleId;
+    }
+
+    if (usesOffsetPagination(req.query)) {
+      const jobs = await SummaryJob.find(query)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(offset);
+
+      const total = await SummaryJob.countDocuments(query);
+
+      res.json({
+        success: true,
+        data: jobs,
+        pagination: {
+          mode: 'offset',
+          total,
+          limit,
+          offset
+        }
+      });
+      return;
+    }
+
+    const position = cursorPosition(cursor);
+    const jobs = await SummaryJob.find(withCursor(query, position))
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, jobs, limit, position);
+
+    res.json({
+      success: true,
+      data: items,
+      pagination,
+      links
+    });
+  }
+
+  async getSummaryJobById(req: Request<IdParams>, res: Response): Promise<void> {
+    const job = await SummaryJob.findById(req.params.id);
+
+    if (!job) {
+      throw new NotFoundError('Summary job not found');
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+  }
+}
@@ -1,13 +1,31 @@
 import { Request, Response } from 'express';
 import User from '../models/User';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { cursorPage, cursorPosition, usesOffsetPagination, withCursor } from '../utils/pagination';
+import { TrashService } from '../services/trashService';
+import { AuthService, hashPassword } from '../services/authService';
+import { assertCanModify } from '../middleware';
+import {
+  CreateUserBody,
+  IdParams,
+  OffsetPageQuery,
+  PageQuery,
+  SetUserPasswordBody,
+  UpdateUserBody,
+  UpdateUserRoleBody
+} from '../validation/schemas';
+
+const trashService = new TrashService();
+const authService = new AuthService();
 
 export class UserController {
-  async createUser(req: Request, res: Response): Promise<void> {
-    const { username, interests } = req.body;
+  async createUser(req: Request<{}, {}, CreateUserBody>, res: Response): Promise<void> {
+    const { username, interests, password } = req.body;
 
     const user = new User({
       username,
-      interests: interests || []
+      interests: interests || [],
+      passwordHash: await hashPassword(password)
     });
 
     const savedUser = await user.save();
@@ -19,38 +37,52 @@ export class UserController {
     });
   }
 
-  async getUsers(req: Request, res: Response): Promise<void> {
-    const { limit = 20, offset = 0 } = req.query;
-    
-    const users = await User.find()
-      .sort({ createdAt: -1 })
-      .limit(Number(limit))
-      .skip(Number(offset));
+  async getUsers(req: Request<{}, {}, {}, PageQuery>, res: Response): Promise<void> {
+    const { limit, offset = 0, cursor } = req.query;
+
+    if (usesOffsetPagination(req.query)) {
+      const users = await User.find()
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(offset);
+
+      const total = await User.countDocuments();
+
+      res.json({
+        success: true,
+        data: users,
+        pagination: {
+          mode: 'offset',
+          total,
+          limit,
+          offset
+        }
+      });
+      return;
+    }
+
+    const position = cursorPosition(cursor);
+    const users = await User.find(withCursor({}, position))
+      .sort(position.sort)
+      .limit(limit + 1);
+
+    const { items, pagination, links } = cursorPage(req, users, limit, position);
 
-    const total = await User.countDocuments();
-    
     res.json({
       success: true,
-      data: users,
-      pagination: {
-        total,
-        limit: Number(limit),
-        offset: Number(offset)
-      }
+      data: items,
+      pagination,
+      links
     });
   }
 
-  async getUserById(req: Request, res: Response): Promise<void> {
+  async getUserById(req: Request<IdParams>, res: Response): Promise<void> {
     const { id } = req.params;
     
     const user = await User.findById(id);
     
     if (!user) {
-      res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-      return;
+      throw new NotFoundError('User not found');
     }
     
     res.json({
@@ -59,10 +91,12 @@ export class UserController {
     });
   }
 
-  async updateUser(req: Request, res: Response): Promise<void> {
+  async updateUser(req: Request<IdParams, {}, UpdateUserBody>, res: Response): Promise<void> {
     const { id } = req.params;
     const { interests } = req.body;
 
+    assertCanModify(req, id, 'users:manage');
+
     const user = await User.findByIdAndUpdate(
       id,
       { interests },
@@ -70,11 +104,7 @@ export class UserController {
     );
     
     if (!user) {
-      res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-      return;
+      throw new NotFoundError('User not found');
     }
     
     res.json({
@@ -84,22 +114,99 @@ export class UserController {
     });
   }
 
-  async deleteUser(req: Request, res: Response): Promise<void> {
+  async updateUserRole(req: Request<IdParams, {}, UpdateUserRoleBody>, res: Response): Promise<void> {
     const { id } = req.params;
+    const { role } = req.body;
+
+    if (id === req.user?.id && role !== 'admin') {
+      throw new ValidationError('Admins cannot remove their own admin role');
+    }
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { role },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    res.json({
+      success: true,
+      data: user,
+      message: 'User role updated successfully'
+    });
+  }
+
+  async setUserPassword(req: Request<IdParams, {}, SetUserPasswordBody>, res: Response): Promise<void> {
+    const user = await authService.setPassword(req.params.id, req.body.password);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    res.json({
+      success: true,
+      data: user,
+      message: 'User password updated successfully'
+    });
+  }
+
+  async deleteUser(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    assertCanModify(req, id, 'users:manage');
     
-    const user = await User.findByIdAndDelete(id);
+    const trashed = await trashService.trashUser(id);
     
-    if (!user) {
-      res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-      return;
+    if (!trashed) {
+      throw new NotFoundError('User not found');
     }
     
     res.json({
       success: true,
-      message: 'User deleted successfully'
+      data: {
+        deletedId: id,
+        deletedAt: trashed.item.deletedAt,
+        purgeAt: trashService.purgeDate(trashed.item.deletedAt!),
+        cascade: trashed.cascade
+      },
+      message: 'User moved to trash'
+    });
+  }
+
+  async getTrashedUsers(req: Request<{}, {}, {}, OffsetPageQuery>, res: Response): Promise<void> {
+    const { limit, offset } = req.query;
+
+    const { items, total } = await trashService.listTrashedUsers(limit, offset);
+
+    res.json({
+      success: true,
+      data: items.map(user => ({ ...user.toObject(), purgeAt: trashService.purgeDate(user.deletedAt!) })),
+      pagination: {
+        mode: 'offset',
+        total,
+        limit,
+        offset
+      }
+    });
+  }
+
+  async restoreUser(req: Request<IdParams>, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    const restored = await trashService.restoreUser(id);
+
+    if (!restored) {
+      throw new NotFoundError('User not found in trash');
+    }
+
+    res.json({
+      success: true,
+      data: restored.item,
+      cascade: restored.cascade,
+      message: 'User restored successfully'
     });
   }
-}
\ No newline at end of file
+}
@@ -1,60 +1,174 @@
+import { STATUS_CODES } from 'http';
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { FilterQuery } from 'mongoose';
+import { IArticle, PUBLISHED_FILTER } from '../models/Article';
+import User, { UserRole } from '../models/User';
+import { ApiKeyScope } from '../models/ApiKey';
+import { InvalidTokenError, verifyToken } from '../utils/jwt';
+import { ApiKeyNotAllowedError, ApiKeyService, InsufficientScopeError, looksLikeApiKey } from '../services/apiKeyService';
+import { Permission, roleCan, scopesCan } from '../services/authorizationService';
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PROBLEM_CONTENT_TYPE,
+  ProblemDetails,
+  problemType,
+  ValidationError
+} from '../utils/errors';
 
-export const errorHandler = (
-  err: any,
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  console.error('Error:', err);
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface Caller {
+  type: 'user' | 'apiKey';
+  user?: AuthUser;
+  apiKey?: {
+    id: string;
+    name: string;
+    application?: string;
+    scopes: ApiKeyScope[];
+  };
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      caller?: Caller;
+    }
+  }
+}
+
+const apiKeyService = new ApiKeyService();
+
+// Any request shape carrying the authenticated caller, whatever its params, body or query types.
+type CallerRequest = Pick<Request, 'user' | 'caller'>;
+
+class DuplicateKeyError extends ConflictError {
+  readonly code = 'already_exists';
+
+  constructor(readonly field: string) {
+    super(`${field} already exists`);
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return { field: this.field };
+  }
+}
+
+class InvalidIdError extends ValidationError {
+  readonly code = 'invalid_id';
+
+  constructor() {
+    super('Invalid resource ID format');
+  }
+}
+
+class MalformedBodyError extends ValidationError {
+  readonly code = 'malformed_body';
+}
+
+// Client errors raised by Express and body-parser, such as an oversized body.
+class RequestRejectedError extends AppError {
+  readonly code: string;
+
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.code = (STATUS_CODES[status] ?? 'request_rejected').toLowerCase().replace(/\W+/g, '_');
+  }
+}
+
+/** Maps errors thrown by Joi, Mongoose and Express onto the AppError hierarchy. */
+const toAppError = (err: any): AppError | null => {
+  if (err instanceof AppError) {
+    return err;
+  }
 
   if (err.isJoi) {
-    return res.status(400).json({
-      error: 'Validation Error',
-      details: err.details.map((detail: any) => detail.message)
-    });
+    return new ValidationError(
+      err.details[0]?.message ?? 'Invalid request',
+      err.details.map((detail: any) => ({ field: detail.path.join('.'), message: detail.message }))
+    );
   }
 
   if (err.code === 11000) {
-    const field = Object.keys(err.keyPattern)[0];
-    return res.status(409).json({
-      error: 'Duplicate Error',
-      message: `${field} already exists`
-    });
+    return new DuplicateKeyError(Object.keys(err.keyPattern ?? {})[0] ?? 'value');
   }
 
   if (err.name === 'CastError') {
-    return res.status(400).json({
-      error: 'Invalid ID',
-      message: 'Invalid resource ID format'
-    });
+    return new InvalidIdError();
   }
 
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal Server Error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  });
+  if (err.name === 'ValidationError' && err.errors) {
+    const errors = Object.values(err.errors).map((error: any) => ({ field: error.path, message: error.message }));
+    return new ValidationError(errors[0]?.message ?? 'Invalid document', errors);
+  }
+
+  if (err.type === 'entity.parse.failed') {
+    return new MalformedBodyError('Request body is not valid JSON');
+  }
+
+  if (typeof err.status === 'number' && err.status >= 400 && err.status < 500) {
+    return new RequestRejectedError(err.status, err.message);
+  }
+
+  return null;
 };
 
-export const notFound = (req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Not Found',
-    message: `Route ${req.method} ${req.path} not found`
-  });
+/**
+ * Answers every error with an RFC 7807 problem document. Anything that is
+ * not a known client error becomes a 500 without leaking its message.
+ */
+export const errorHandler = (
+  err: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  console.error('Error:', err);
+
+  const appError = toAppError(err);
+  const problem: ProblemDetails = appError
+    ? appError.toProblem(req.originalUrl)
+    : {
+      type: problemType('internal_error'),
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'An unexpected error occurred',
+      code: 'internal_error',
+      instance: req.originalUrl,
+      ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    };
+
+  res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json(problem);
+};
+
+export const notFound = (req: Request, res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
 };
 
-export const validate = (schema: Joi.ObjectSchema, property: 'body' | 'query' | 'params' = 'body') => {
+/**
+ * Validates one part of the request and replaces it with the converted
+ * value, so handlers see numbers, booleans, dates and defaults rather than
+ * raw strings. Failures reach `errorHandler` as a 400 Validation Error.
+ */
+export const validate = (schema: Joi.Schema, property: 'body' | 'query' | 'params' = 'body') => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const { error, value } = schema.validate(req[property], { 
+    const { error, value } = schema.validate(req[property], {
       abortEarly: false,
-      stripUnknown: true 
+      stripUnknown: true
     });
-    
+
     if (error) {
       return next(error);
     }
-    
+
     req[property] = value;
     next();
   };
@@ -66,6 +180,187 @@ export const asyncHandler = (fn: Function) => {
   };
 };
 
+const credentialFrom = (req: Request): { credential: string; isApiKey: boolean } | null => {
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return { credential: apiKeyHeader, isApiKey: true };
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme === 'Bearer' && token) {
+    return { credential: token, isApiKey: looksLikeApiKey(token) };
+  }
+
+  return null;
+};
+
+/**
+ * Requires a JWT access token or an API key, sent as `Authorization: Bearer`
+ * or `X-API-Key`, and exposes the caller as `req.caller`. `req.user` is set
+ * whenever the caller acts as a user, which API keys issued to an
+ * application do not. Trashed users can no longer act even if their token
+ * has not expired yet.
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const found = credentialFrom(req);
+
+  if (!found) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new InvalidTokenError('Authentication required');
+  }
+
+  if (found.isApiKey) {
+    const apiKey = await apiKeyService.resolve(found.credential);
+    if (!apiKey) {
+      throw new InvalidTokenError('Invalid, revoked or expired API key');
+    }
+
+    let user: AuthUser | undefined;
+    if (apiKey.userId) {
+      const owner = await User.findById(apiKey.userId).select('username role');
+      if (!owner) {
+        throw new InvalidTokenError('Invalid, revoked or expired API key');
+      }
+      user = { id: String(owner._id), username: owner.username, role: owner.role };
+    }
+
+    req.user = user;
+    req.caller = {
+      type: 'apiKey',
+      user,
+      apiKey: {
+        id: String(apiKey._id),
+        name: apiKey.name,
+        application: apiKey.application,
+        scopes: apiKey.scopes
+      }
+    };
+    return next();
+  }
+
+  const claims = verifyToken(found.credential);
+  const user = await User.findById(claims.sub).select('username role');
+
+  if (!user) {
+    throw new InvalidTokenError();
+  }
+
+  req.user = { id: String(user._id), username: user.username, role: user.role };
+  req.caller = { type: 'user', user: req.user };
+  next();
+});
+
+/**
+ * Authenticates the caller when credentials are sent and lets anonymous
+ * requests through, for public routes that reveal more to privileged callers.
+ */
+export const optionalAuthenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (!credentialFrom(req)) {
+    return next();
+  }
+
+  authenticate(req, res, next);
+};
+
+/**
+ * Whether the caller holds a permission. Users hold what their role allows.
+ * API keys hold only what their scopes grant (see `SCOPE_PERMISSIONS`), and
+ * a key issued to a user no more than that user's role allows.
+ */
+export const can = (req: CallerRequest, permission: Permission): boolean => {
+  const apiKey = req.caller?.apiKey;
+  if (apiKey && !scopesCan(apiKey.scopes, permission)) {
+    return false;
+  }
+
+  if (req.user) {
+    return roleCan(req.user.role, permission);
+  }
+  return !!apiKey;
+};
+
+export const isOwner = (req: CallerRequest, ownerId: unknown): boolean =>
+  !!req.user && ownerId != null && String(ownerId) === req.user.id;
+
+/**
+ * Throws a ForbiddenError unless the caller holds `permission`, or owns the
+ * resource and holds `ownPermission` (any authenticated owner when omitted).
+ */
+export const assertCanModify = (req: CallerRequest, ownerId: unknown, permission: Permission, ownPermission?: Permission): void => {
+  if (can(req, permission)) {
+    return;
+  }
+
+  if (isOwner(req, ownerId) && (!ownPermission || can(req, ownPermission))) {
+    return;
+  }
+
+  throw new ForbiddenError(undefined, permission);
+};
+
+// Unpublished articles answer like missing ones unless the caller wrote them or reviews articles.
+export const assertReadable = (req: CallerRequest, article: IArticle | null): IArticle => {
+  if (!article || (article.status !== 'published' && !isOwner(req, article.createdBy) && !can(req, 'articles:review'))) {
+    throw new NotFoundError('Article not found');
+  }
+  return article;
+};
+
+/** The articles assertReadable lets the caller see, as a query. */
+export const readableFilter = (req: CallerRequest): FilterQuery<IArticle> => {
+  if (can(req, 'articles:review')) {
+    return {};
+  }
+  return req.user ? { $or: [PUBLISHED_FILTER, { createdBy: req.user.id }] } : PUBLISHED_FILTER;
+};
+
+/**
+ * Route-level permission check: passes when the caller holds any of the
+ * given permissions. Ownership rules are checked in the controller once the
+ * resource is loaded. Must run after `authenticate`.
+ */
+export const authorize = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (permissions.some(permission => can(req, permission))) {
+      return next();
+    }
+
+    next(new ForbiddenError(undefined, permissions[0]));
+  };
+};
+
+/**
+ * Limits API keys to routes their scopes cover. Logged-in users are not
+ * scoped and always pass. Must run after `authenticate`.
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = req.caller?.apiKey;
+
+    if (apiKey && !apiKey.scopes.includes(scope)) {
+      return next(new InsufficientScopeError(scope));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Rejects API keys on routes that manage accounts and credentials. Must run
+ * after `authenticate`.
+ */
+export const requireUser = (req: Request, res: Response, next: NextFunction) => {
+  if (req.caller?.type !== 'user') {
+    return next(new ApiKeyNotAllowedError());
+  }
+
+  next();
+};
+
+/** Name recorded for the caller on audit fields such as a revision's editor. */
+export const callerName = (req: CallerRequest): string =>
+  req.user?.username ?? `app:${req.caller?.apiKey?.application}`;
+
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   
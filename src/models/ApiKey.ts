@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const API_KEY_SCOPES = [
+  'read:articles',
+  'write:articles',
+  'write:interactions',
+  'write:sources',
+  'admin:summaries'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  userId?: Types.ObjectId;
+  application?: string;
+  createdBy: Types.ObjectId;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // The visible start of the key, so owners can tell their keys apart
+  // without the secret ever being stored.
+  prefix: {
+    type: String,
+    required: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  scopes: {
+    type: [{
+      type: String,
+      enum: API_KEY_SCOPES
+    }],
+    validate: {
+      validator: (scopes: string[]) => scopes.length > 0,
+      message: 'At least one scope is required'
+    }
+  },
+  // A key acts either as a user or as a named application, never both.
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: function(this: IApiKey) {
+      return !this.application;
+    }
+  },
+  application: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      const { __v, keyHash, ...result } = ret;
+      return result;
+    }
+  }
+});
+
+ApiKeySchema.index({ createdBy: 1, createdAt: -1 });
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -1,11 +1,63 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { fingerprintBands, simhash } from '../utils/simhash';
+import { SEARCH_FIELD_WEIGHTS } from '../services/searchService';
+import { SoftDeletable, softDeletePlugin } from './plugins/softDelete';
 
-export interface IArticle extends Document {
+export const ARTICLE_STATUSES = ['draft', 'in_review', 'scheduled', 'published', 'archived'] as const;
+
+export type ArticleStatus = typeof ARTICLE_STATUSES[number];
+
+/**
+ * How a stored summary came about: `ai` and `extractive` are generated,
+ * `truncated` is the opening of the content used when generation failed, and
+ * `manual` was written by a person.
+ */
+export const SUMMARY_METHODS = ['ai', 'extractive', 'truncated', 'manual'] as const;
+
+export type SummaryMethod = typeof SUMMARY_METHODS[number];
+
+/**
+ * `pending` while a summary job is queued or running, `failed` once its
+ * retries ran out and the truncated fallback was stored.
+ */
+export const SUMMARY_STATUSES = ['pending', 'ready', 'failed'] as const;
+
+export type SummaryStatus = typeof SUMMARY_STATUSES[number];
+
+export interface SummaryProvenance {
+  provider: string;
+  model: string;
+  method: SummaryMethod;
+  generated: boolean;
+  generatedAt: Date;
+  /** `contentHash` of the content the summary was written for. */
+  contentHash: string;
+}
+
+/** Filter for content that readers may see in listings, search and recommendations. */
+export const PUBLISHED_FILTER = { status: 'published' as ArticleStatus };
+
+export interface IArticle extends Document, SoftDeletable {
   title: string;
   content: string;
   author: string;
   summary?: string;
+  summaryProvenance?: SummaryProvenance;
+  summaryStatus: SummaryStatus;
   tags?: string[];
+  url?: string;
+  imageUrl?: string;
+  guid?: string;
+  sourceId?: Types.ObjectId;
+  createdBy?: Types.ObjectId;
+  publishedAt?: Date;
+  status: ArticleStatus;
+  publishAt?: Date;
+  fingerprint?: string;
+  fingerprintBands?: string[];
+  duplicateOf?: Types.ObjectId;
+  /** The last revision number handed out. */
+  revisionCount?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,18 +85,125 @@ const ArticleSchema: Schema = new Schema({
     trim: true,
     maxlength: 500
   },
+  // Absent on articles saved before provenance was recorded.
+  summaryProvenance: {
+    type: new Schema({
+      provider: { type: String, required: true },
+      model: { type: String, required: true },
+      method: { type: String, enum: SUMMARY_METHODS, required: true },
+      generated: { type: Boolean, required: true },
+      generatedAt: { type: Date, required: true },
+      contentHash: { type: String, required: true }
+    }, { _id: false })
+  },
+  summaryStatus: {
+    type: String,
+    enum: SUMMARY_STATUSES,
+    default: 'ready'
+  },
   tags: [{
     type: String,
     trim: true,
     lowercase: true
-  }]
+  }],
+  url: {
+    type: String,
+    trim: true
+  },
+  imageUrl: {
+    type: String,
+    trim: true
+  },
+  guid: {
+    type: String,
+    trim: true
+  },
+  sourceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Source'
+  },
+  // The user who created the article; authors may only edit their own.
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  },
+  publishedAt: {
+    type: Date
+  },
+  status: {
+    type: String,
+    enum: ARTICLE_STATUSES,
+    default: 'draft'
+  },
+  publishAt: {
+    type: Date
+  },
+  fingerprint: {
+    type: String
+  },
+  fingerprintBands: {
+    type: [String],
+    select: false
+  },
+  duplicateOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Article'
+  },
+  // Incremented atomically, so concurrent edits never get the same revision number.
+  revisionCount: {
+    type: Number,
+    default: 0,
+    select: false
+  }
 }, {
   timestamps: true
 });
 
+ArticleSchema.plugin(softDeletePlugin);
 
 ArticleSchema.index({ author: 1 });
 ArticleSchema.index({ tags: 1 });
 ArticleSchema.index({ createdAt: -1 });
+ArticleSchema.index({ sourceId: 1, createdAt: -1 });
+ArticleSchema.index({ status: 1, createdAt: -1 });
+ArticleSchema.index({ status: 1, publishAt: 1 });
+// Articles orphaned from a deleted source keep their guid, so only those still tied to a source are unique.
+ArticleSchema.index(
+  { sourceId: 1, guid: 1 },
+  {
+    name: 'source_guid_unique',
+    unique: true,
+    partialFilterExpression: { guid: { $exists: true }, sourceId: { $exists: true } }
+  }
+);
+ArticleSchema.index(
+  { title: 'text', summary: 'text', author: 'text', content: 'text' },
+  { name: 'article_text_search', weights: SEARCH_FIELD_WEIGHTS }
+);
+ArticleSchema.index({ fingerprintBands: 1 });
+ArticleSchema.index({ duplicateOf: 1 });
+ArticleSchema.index({ 'summaryProvenance.method': 1, 'summaryProvenance.provider': 1 });
+
+ArticleSchema.pre('save', function(next) {
+  if (this.isModified('content')) {
+    const fingerprint = simhash(this.get('content') as string);
+    this.set('fingerprint', fingerprint);
+    this.set('fingerprintBands', fingerprintBands(fingerprint));
+  }
+  next();
+});
+
+ArticleSchema.pre('findOneAndUpdate', function(next) {
+  const update: any = this.getUpdate();
+  const content = update?.content ?? update?.$set?.content;
+
+  if (typeof content === 'string') {
+    const fingerprint = simhash(content);
+    this.set('fingerprint', fingerprint);
+    this.set('fingerprintBands', fingerprintBands(fingerprint));
+  }
+  next();
+});
 
 export default mongoose.model<IArticle>('Article', ArticleSchema);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const REVISIONED_FIELDS = ['title', 'content', 'author', 'summary', 'tags'] as const;
+
+export type RevisionedField = typeof REVISIONED_FIELDS[number];
+
+export interface IArticleRevision extends Document {
+  articleId: Types.ObjectId;
+  revision: number;
+  title: string;
+  content: string;
+  author: string;
+  summary?: string;
+  tags: string[];
+  changedFields: RevisionedField[];
+  editedBy: string;
+  reason: 'create' | 'update' | 'restore';
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+const ArticleRevisionSchema: Schema = new Schema({
+  articleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Article',
+    required: true,
+    immutable: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1,
+    immutable: true
+  },
+  title: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  content: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  author: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  summary: {
+    type: String,
+    immutable: true
+  },
+  tags: {
+    type: [String],
+    default: [],
+    immutable: true
+  },
+  changedFields: {
+    type: [String],
+    enum: REVISIONED_FIELDS,
+    default: [],
+    immutable: true
+  },
+  editedBy: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+    immutable: true
+  },
+  reason: {
+    type: String,
+    enum: ['create', 'update', 'restore'],
+    required: true,
+    immutable: true
+  },
+  restoredFrom: {
+    type: Number,
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+ArticleRevisionSchema.index({ articleId: 1, revision: -1 }, { unique: true });
+
+// Revisions are an audit trail: once written they are never modified.
+const rejectUpdate = function(next: (error?: Error) => void) {
+  next(new Error('Article revisions are immutable'));
+};
+
+ArticleRevisionSchema.pre('updateOne', rejectUpdate);
+ArticleRevisionSchema.pre('updateMany', rejectUpdate);
+ArticleRevisionSchema.pre('findOneAndUpdate', rejectUpdate);
+ArticleRevisionSchema.pre('replaceOne', rejectUpdate);
+
+export default mongoose.model<IArticleRevision>('ArticleRevision', ArticleRevisionSchema);
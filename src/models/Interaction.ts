@@ -1,10 +1,14 @@
 import mongoose, { Document, Schema, Types, Model } from 'mongoose';
+import { SoftDeletable, softDeletePlugin } from './plugins/softDelete';
 
-export interface IInteraction extends Document {
+export type InteractionType = 'view' | 'like' | 'share' | 'comment';
+
+export interface IInteraction extends Document, SoftDeletable {
   userId: Types.ObjectId;
   articleId: Types.ObjectId;
-  interactionType: 'view' | 'like' | 'share' | 'comment';
+  interactionType: InteractionType;
   content?: string;
+  anonymizedAt?: Date;
   shareMetadata?: {
     platform: 'twitter' | 'facebook' | 'linkedin' | 'email' | 'copy_link' | 'whatsapp';
     message?: string;
@@ -36,7 +40,9 @@ const InteractionSchema = new Schema<IInteraction, InteractionModel, IInteractio
   userId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
-    required: true,
+    required: function(this: IInteraction): boolean {
+      return !this.anonymizedAt;
+    },
     index: true
   },
   articleId: {
@@ -69,6 +75,9 @@ const InteractionSchema = new Schema<IInteraction, InteractionModel, IInteractio
       message: 'Comment content is required for comment interactions'
     }
   },
+  anonymizedAt: {
+    type: Date
+  },
   shareMetadata: {
     platform: {
       type: String,
@@ -103,6 +112,8 @@ const InteractionSchema = new Schema<IInteraction, InteractionModel, IInteractio
   }
 });
 
+InteractionSchema.plugin(softDeletePlugin);
+
 // Compound indexes
 InteractionSchema.index({ userId: 1, articleId: 1 });
 InteractionSchema.index({ articleId: 1, interactionType: 1 });
@@ -201,7 +212,6 @@ InteractionSchema.statics.getTrendingArticles = async function(
       }
     },
     { $sort: { engagementScore: -1, totalInteractions: -1 } },
-    { $limit: limit },
     {
       $lookup: {
         from: 'articles',
@@ -211,6 +221,8 @@ InteractionSchema.statics.getTrendingArticles = async function(
       }
     },
     { $unwind: '$article' },
+    { $match: { 'article.status': 'published', 'article.deletedAt': null } },
+    { $limit: limit },
     {
       $project: {
         article: 1,
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  userId: Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const RefreshTokenSchema: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Only a SHA-256 of the token is stored, so a database leak does not leak sessions.
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Every token obtained by rotating the same login shares a family, which is
+  // what logout and reuse detection revoke.
+  family: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+RefreshTokenSchema.index({ family: 1 });
+RefreshTokenSchema.index({ userId: 1 });
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
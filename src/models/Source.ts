@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISource extends Document {
+  title?: string;
+  feedUrl: string;
+  siteUrl?: string;
+  pollIntervalMinutes: number;
+  defaultTags: string[];
+  status: 'active' | 'paused';
+  etag?: string;
+  lastModified?: string;
+  lastFetchedAt?: Date;
+  lastFetchStatus?: 'updated' | 'not_modified' | 'failed';
+  lastError?: string;
+  nextFetchAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SourceSchema: Schema = new Schema({
+  title: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  feedUrl: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    match: /^https?:\/\/.+/i
+  },
+  siteUrl: {
+    type: String,
+    trim: true
+  },
+  pollIntervalMinutes: {
+    type: Number,
+    min: 1,
+    max: 1440,
+    default: 30
+  },
+  defaultTags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  status: {
+    type: String,
+    enum: ['active', 'paused'],
+    default: 'active'
+  },
+  etag: {
+    type: String
+  },
+  lastModified: {
+    type: String
+  },
+  lastFetchedAt: {
+    type: Date
+  },
+  lastFetchStatus: {
+    type: String,
+    enum: ['updated', 'not_modified', 'failed']
+  },
+  lastError: {
+    type: String
+  },
+  nextFetchAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+
+SourceSchema.index({ status: 1, nextFetchAt: 1 });
+
+export default mongoose.model<ISource>('Source', SourceSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A provider's summary of some content, reused instead of calling the
+ * provider again for identical content and settings. The key is the content
+ * hash, the provider, the model configured for it and the summary options.
+ */
+export interface ISummaryCacheEntry extends Document {
+  contentHash: string;
+  provider: string;
+  /** The model configured for the provider; `model` itself is taken by Document. */
+  configuredModel: string;
+  /** Canonical form of the summary options besides the model, e.g. `maxSentences=3`. */
+  configKey: string;
+  summary: string;
+  /** The model that answered, which can differ from the configured one when a provider falls back between models. */
+  generatedModel: string;
+  /** When the provider produced the summary; rewritten when the entry is replaced. */
+  generatedAt: Date;
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SummaryCacheEntrySchema: Schema = new Schema({
+  contentHash: {
+    type: String,
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  configuredModel: {
+    type: String,
+    required: true
+  },
+  configKey: {
+    type: String,
+    default: ''
+  },
+  summary: {
+    type: String,
+    required: true
+  },
+  generatedModel: {
+    type: String,
+    required: true
+  },
+  generatedAt: {
+    type: Date,
+    required: true
+  },
+  hits: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  lastHitAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+SummaryCacheEntrySchema.index({ contentHash: 1, provider: 1, configuredModel: 1, configKey: 1 }, { unique: true });
+SummaryCacheEntrySchema.index({ provider: 1, configuredModel: 1 });
+SummaryCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISummaryCacheEntry>('SummaryCacheEntry', SummaryCacheEntrySchema);
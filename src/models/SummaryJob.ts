@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { SummaryMethod } from './Article';
+
+export const SUMMARY_JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type SummaryJobStatus = typeof SUMMARY_JOB_STATUSES[number];
+
+export const SUMMARY_JOB_REASONS = ['create', 'update', 'bulk', 'ingest'] as const;
+
+export type SummaryJobReason = typeof SUMMARY_JOB_REASONS[number];
+
+export interface ISummaryJob extends Document {
+  articleId: Types.ObjectId;
+  reason: SummaryJobReason;
+  status: SummaryJobStatus;
+  maxSentences: number;
+  attempts: number;
+  maxAttempts: number;
+  /** When the job may next be claimed; pushed back after each failed attempt. */
+  runAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  result?: {
+    provider: string;
+    model: string;
+    method: SummaryMethod;
+  };
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SummaryJobSchema: Schema = new Schema({
+  articleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Article',
+    required: true,
+    immutable: true
+  },
+  reason: {
+    type: String,
+    enum: SUMMARY_JOB_REASONS,
+    required: true,
+    immutable: true
+  },
+  status: {
+    type: String,
+    enum: SUMMARY_JOB_STATUSES,
+    default: 'pending'
+  },
+  maxSentences: {
+    type: Number,
+    min: 1,
+    max: 10,
+    default: 3
+  },
+  attempts: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    min: 1,
+    default: 3
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  result: {
+    type: new Schema({
+      provider: { type: String, required: true },
+      model: { type: String, required: true },
+      method: { type: String, required: true }
+    }, { _id: false })
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+SummaryJobSchema.index({ status: 1, runAt: 1 });
+SummaryJobSchema.index({ articleId: 1, createdAt: -1 });
+SummaryJobSchema.index({ createdAt: -1 });
+
+export default mongoose.model<ISummaryJob>('SummaryJob', SummaryJobSchema);
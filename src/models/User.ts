@@ -1,8 +1,15 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { SoftDeletable, softDeletePlugin } from './plugins/softDelete';
 
-export interface IUser extends Document {
+export const USER_ROLES = ['reader', 'author', 'editor', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export interface IUser extends Document, SoftDeletable {
   username: string;
   interests: string[];
+  role: UserRole;
+  passwordHash?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,11 +29,27 @@ const UserSchema: Schema = new Schema({
     trim: true,
     lowercase: true,
     maxlength: 50
-  }]
+  }],
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: 'reader'
+  },
+  passwordHash: {
+    type: String,
+    select: false
+  }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      const { passwordHash, ...result } = ret;
+      return result;
+    }
+  }
 });
 
+UserSchema.plugin(softDeletePlugin);
 
 UserSchema.index({ username: 1 });
 UserSchema.index({ interests: 1 });
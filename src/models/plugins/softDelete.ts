@@ -0,0 +1,70 @@
+import { Aggregate, PipelineStage, Query, Schema } from 'mongoose';
+
+export interface SoftDeletable {
+  deletedAt?: Date | null;
+}
+
+const QUERY_HOOKS = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany'
+] as const;
+
+/**
+ * Filter value that matches live and trashed documents alike (null, missing
+ * or a date), for the few lookups that must see the trash.
+ */
+export const ANY_DELETION_STATE = { $not: { $type: 'bool' } };
+
+const mentionsDeletedAt = (filter: object): boolean =>
+  Object.prototype.hasOwnProperty.call(filter, 'deletedAt');
+
+/**
+ * Adds a `deletedAt` marker and hides marked documents from every query and
+ * aggregation on the model. A query opts out by filtering on `deletedAt`
+ * itself, which is how the trash, restore and purge operations work.
+ */
+export const softDeletePlugin = (schema: Schema<any, any, any, any, any, any, any, any>): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null
+    }
+  });
+
+  schema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } });
+
+  QUERY_HOOKS.forEach(hook => {
+    schema.pre(hook, { document: false, query: true }, function(this: Query<unknown, unknown>) {
+      if (!mentionsDeletedAt(this.getFilter())) {
+        this.where({ deletedAt: null });
+      }
+    });
+  });
+
+  schema.pre('aggregate', function(this: Aggregate<unknown>) {
+    const pipeline = this.pipeline();
+    const first = pipeline[0] as PipelineStage.Match | undefined;
+
+    // A $match using $text must stay the first stage, so an existing leading
+    // $match is extended rather than preceded.
+    if (first && '$match' in first) {
+      if (!mentionsDeletedAt(first.$match)) {
+        pipeline[0] = { $match: { ...first.$match, deletedAt: null } };
+      }
+    } else {
+      pipeline.unshift({ $match: { deletedAt: null } });
+    }
+  });
+};
+
+export default softDeletePlugin;
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controller/apiKeyController';
+import { dataResponse, responseRef, schemaRef } from '../config/swagger';
+import { createApiKeySchema, idParamsSchema } from '../validation/schemas';
+import { defineRoutes } from './registry';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+const route = defineRoutes(router, '/api-keys');
+
+route({
+  method: 'post',
+  path: '/',
+  summary: 'Issue an API key for server-to-server clients',
+  description: 'Without `application` the key acts as the calling user; with it the key acts as that application and carries no user identity. The plaintext key is returned once and only its hash is stored.',
+  tags: ['API Keys'],
+  auth: 'user',
+  request: { body: createApiKeySchema },
+  responses: {
+    201: dataResponse('API key created', {
+      data: {
+        allOf: [
+          schemaRef('ApiKey'),
+          {
+            type: 'object',
+            properties: {
+              key: {
+                type: 'string',
+                description: 'The secret key, shown only in this response'
+              }
+            }
+          }
+        ]
+      }
+    })
+  },
+  handler: apiKeyController.createApiKey.bind(apiKeyController)
+});
+
+route({
+  method: 'get',
+  path: '/',
+  summary: 'List the API keys issued by the authenticated user',
+  tags: ['API Keys'],
+  auth: 'user',
+  request: {},
+  responses: {
+    200: dataResponse('API keys retrieved successfully', { data: { type: 'array', items: schemaRef('ApiKey') } })
+  },
+  handler: apiKeyController.getApiKeys.bind(apiKeyController)
+});
+
+route({
+  method: 'delete',
+  path: '/:id',
+  summary: 'Revoke an API key',
+  tags: ['API Keys'],
+  auth: 'user',
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('API key revoked', { data: schemaRef('ApiKey') }),
+    404: responseRef('NotFound')
+  },
+  handler: apiKeyController.revokeApiKey.bind(apiKeyController)
+});
+
+export default router;
@@ -1,514 +1,481 @@
 import { Router } from 'express';
 import { ArticleController } from '../controller/articleController';
-import { asyncHandler } from '../middleware';
+import { dataResponse, paginatedResponse, problemResponse, responseRef, schemaRef } from '../config/swagger';
+import {
+  articleClusterSchema,
+  articlePageQuerySchema,
+  articleTrashQuerySchema,
+  bulkRegenerateSummariesSchema,
+  createArticleFromUrlSchema,
+  createArticleSchema,
+  duplicateQuerySchema,
+  getArticlesSchema,
+  idParamsSchema,
+  regenerateSummarySchema,
+  revisionDiffSchema,
+  revisionParamsSchema,
+  summaryCacheQuerySchema,
+  tagsParamsSchema,
+  transitionSchema,
+  updateArticleSchema
+} from '../validation/schemas';
+import { defineRoutes } from './registry';
 
 const router = Router();
 const articleController = new ArticleController();
+const route = defineRoutes(router, '/articles');
 
-/**
- * @swagger
- * /articles:
- *   post:
- *     summary: Create a new article
- *     tags: [Articles]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - title
- *               - content
- *               - author
- *             properties:
- *               title:
- *                 type: string
- *                 minLength: 5
- *                 maxLength: 200
- *                 example: "Introduction to Machine Learning"
- *               content:
- *                 type: string
- *                 minLength: 50
- *                 example: "Machine learning is a subset of artificial intelligence..."
- *               author:
- *                 type: string
- *                 minLength: 2
- *                 maxLength: 100
- *                 example: "John Doe"
- *               summary:
- *                 type: string
- *                 maxLength: 500
- *                 example: "Optional summary - will be auto-generated if empty"
- *               tags:
- *                 type: array
- *                 items:
- *                   type: string
- *                 example: ["machine-learning", "ai", "technology"]
- *     responses:
- *       201:
- *         description: Article created successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/Article'
- *                     metadata:
- *                       type: object
- *                       properties:
- *                         generated:
- *                           type: boolean
- *                         provider:
- *                           type: string
- *                         model:
- *                           type: string
- *                         method:
- *                           type: string
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.post(
-  '/',
-  asyncHandler(articleController.createArticle.bind(articleController))
-);
+route({
+  method: 'post',
+  path: '/',
+  summary: 'Create a new article',
+  description: 'Returns without waiting for a summary: unless one is provided, the article is saved with summaryStatus pending and a background job generates it.',
+  tags: ['Articles'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:create'],
+  request: { query: duplicateQuerySchema, body: createArticleSchema },
+  responses: {
+    201: dataResponse('Article created successfully', {
+      data: schemaRef('Article'),
+      summaryJob: {
+        allOf: [schemaRef('SummaryJob')],
+        nullable: true,
+        description: 'The queued summary job, or null when a summary was provided'
+      }
+    }),
+    409: responseRef('DuplicateArticle')
+  },
+  handler: articleController.createArticle.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles:
- *   get:
- *     summary: Get paginated list of articles with search and filtering
- *     tags: [Articles]
- *     parameters:
- *       - $ref: '#/components/parameters/LimitParam'
- *       - $ref: '#/components/parameters/OffsetParam'
- *       - $ref: '#/components/parameters/PageParam'
- *       - in: query
- *         name: search
- *         schema:
- *           type: string
- *         description: Search term for title, content, or author
- *       - in: query
- *         name: tags
- *         schema:
- *           type: string
- *         description: Comma-separated list of tags to filter by
- *       - in: query
- *         name: author
- *         schema:
- *           type: string
- *         description: Filter by author name
- *     responses:
- *       200:
- *         description: Articles retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/PaginationResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/Article'
- *                     filters:
- *                       type: object
- *                       properties:
- *                         search:
- *                           type: string
- *                         tags:
- *                           type: string
- *                         author:
- *                           type: string
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/',
-  asyncHandler(articleController.getArticles.bind(articleController))
-);
+route({
+  method: 'post',
+  path: '/from-url',
+  summary: 'Create an article by extracting readable content from a web page',
+  description: 'Fetches the page, strips navigation and ads, and extracts title, author, publish date, lead image and body text. Only public http(s) addresses are fetched, including redirect targets. The result goes through the same path as article creation, including queued summary generation.',
+  tags: ['Articles'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:create'],
+  request: { query: duplicateQuerySchema, body: createArticleFromUrlSchema },
+  responses: {
+    201: dataResponse('Article created from URL successfully', {
+      data: schemaRef('Article'),
+      summaryJob: {
+        allOf: [schemaRef('SummaryJob')],
+        nullable: true
+      },
+      metadata: {
+        type: 'object',
+        properties: {
+          extraction: schemaRef('ExtractionMetadata')
+        }
+      }
+    }),
+    409: responseRef('DuplicateArticle'),
+    422: problemResponse('No readable article content could be extracted'),
+    502: problemResponse('The page could not be fetched')
+  },
+  handler: articleController.createArticleFromUrl.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/stats:
- *   get:
- *     summary: Get article statistics
- *     tags: [Articles]
- *     responses:
- *       200:
- *         description: Article statistics retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       properties:
- *                         totalArticles:
- *                           type: number
- *                         totalAuthors:
- *                           type: number
- *                         averageContentLength:
- *                           type: number
- *                         topTags:
- *                           type: array
- *                           items:
- *                             type: object
- *                             properties:
- *                               _id:
- *                                 type: string
- *                               count:
- *                                 type: number
- *                         recentArticles:
- *                           type: number
- *                         lastWeekGrowth:
- *                           type: number
- *                         articlesWithSummaries:
- *                           type: number
- *                         summaryCompletionRate:
- *                           type: number
- *                           description: Percentage of articles with proper summaries
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/stats',
-  asyncHandler(articleController.getArticleStats.bind(articleController))
-);
+route({
+  method: 'get',
+  path: '/',
+  summary: 'Get paginated list of articles with search and filtering',
+  tags: ['Articles'],
+  auth: 'optional',
+  request: { query: getArticlesSchema },
+  responses: {
+    200: paginatedResponse('Articles retrieved successfully', {
+      data: { type: 'array', items: { allOf: [schemaRef('Article'), schemaRef('SearchHit')] } },
+      filters: {
+        type: 'object',
+        properties: {
+          search: { type: 'string' },
+          tags: { type: 'string' },
+          tagsMode: { type: 'string' },
+          author: { type: 'string' },
+          match: { type: 'string' },
+          published: { type: 'string' },
+          source: { type: 'string' },
+          collapse: { type: 'boolean' },
+          status: { type: 'string' }
+        }
+      },
+      facets: schemaRef('ArticleFacets')
+    }),
+    403: responseRef('Forbidden')
+  },
+  handler: articleController.getArticles.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/providers/status:
- *   get:
- *     summary: Get AI provider status for debugging
- *     tags: [Articles, Summary]
- *     responses:
- *       200:
- *         description: Provider status retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       additionalProperties:
- *                         type: object
- *                         properties:
- *                           available:
- *                             type: boolean
- *                           error:
- *                             type: string
- *                           model:
- *                             type: string
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/providers/status',
-  asyncHandler(articleController.getProviderStatus.bind(articleController))
-);
+route({
+  method: 'get',
+  path: '/stats',
+  summary: 'Get article statistics',
+  description: 'Counts published articles only.',
+  tags: ['Articles'],
+  request: {},
+  responses: {
+    200: dataResponse('Article statistics retrieved successfully', {
+      data: {
+        type: 'object',
+        properties: {
+          totalArticles: { type: 'number' },
+          totalAuthors: { type: 'number' },
+          averageContentLength: { type: 'number' },
+          topTags: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { _id: { type: 'string' }, count: { type: 'number' } }
+            }
+          },
+          recentArticles: { type: 'number' },
+          lastWeekGrowth: { type: 'number' },
+          articlesWithSummaries: { type: 'number' },
+          summaryCompletionRate: { type: 'number', description: 'Percentage of articles with proper summaries' }
+        }
+      }
+    })
+  },
+  handler: articleController.getArticleStats.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/bulk/regenerate-summaries:
- *   post:
- *     summary: Bulk regenerate summaries for articles without proper summaries
- *     tags: [Articles, Summary]
- *     requestBody:
- *       required: false
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               batchSize:
- *                 type: number
- *                 minimum: 1
- *                 maximum: 20
- *                 default: 5
- *                 description: Number of articles to process in one batch
- *               maxSentences:
- *                 type: number
- *                 minimum: 1
- *                 maximum: 10
- *                 default: 3
- *                 description: Maximum sentences in generated summaries
- *     responses:
- *       200:
- *         description: Bulk regeneration completed
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       properties:
- *                         updated:
- *                           type: number
- *                         failed:
- *                           type: number
- *                         results:
- *                           type: array
- *                           items:
- *                             type: object
- *                             properties:
- *                               success:
- *                                 type: boolean
- *                               id:
- *                                 type: string
- *                               metadata:
- *                                 type: object
- *                                 properties:
- *                                   provider:
- *                                     type: string
- *                                   model:
- *                                     type: string
- *                                   method:
- *                                     type: string
- *                               error:
- *                                 type: string
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.post(
-  '/bulk/regenerate-summaries',
-  asyncHandler(articleController.bulkRegenerateSummaries.bind(articleController))
-);
+route({
+  method: 'get',
+  path: '/providers/status',
+  summary: 'Get AI provider status for debugging',
+  description: 'Admins only.',
+  tags: ['Articles', 'Summary'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:admin'],
+  request: {},
+  responses: {
+    200: dataResponse('Provider status retrieved successfully', {
+      data: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            available: { type: 'boolean' },
+            enabled: { type: 'boolean', description: 'Whether SUMMARY_PROVIDERS includes the provider' },
+            error: { type: 'string' },
+            model: { type: 'string' }
+          }
+        }
+      },
+      cache: schemaRef('SummaryCacheStats')
+    })
+  },
+  handler: articleController.getProviderStatus.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/tags/{tags}:
- *   get:
- *     summary: Get articles by tags
- *     tags: [Articles]
- *     parameters:
- *       - in: path
- *         name: tags
- *         required: true
- *         schema:
- *           type: string
- *         description: Comma-separated list of tags
- *         example: "machine-learning,ai,technology"
- *       - $ref: '#/components/parameters/LimitParam'
- *       - $ref: '#/components/parameters/OffsetParam'
- *     responses:
- *       200:
- *         description: Articles retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/PaginationResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/Article'
- *                     filters:
- *                       type: object
- *                       properties:
- *                         tags:
- *                           type: array
- *                           items:
- *                             type: string
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/tags/:tags',
-  asyncHandler(articleController.getArticlesByTags.bind(articleController))
-);
+route({
+  method: 'delete',
+  path: '/providers/cache',
+  summary: 'Clear cached AI summaries',
+  description: 'Admins only. Without filters every entry is removed; later summaries call the providers again.',
+  tags: ['Articles', 'Summary'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:admin'],
+  request: { query: summaryCacheQuerySchema },
+  responses: {
+    200: dataResponse('Summary cache cleared', {
+      data: {
+        type: 'object',
+        properties: {
+          removed: { type: 'integer' }
+        }
+      }
+    })
+  },
+  handler: articleController.clearSummaryCache.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/{id}:
- *   put:
- *     summary: Update article by ID
- *     tags: [Articles]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 minLength: 5
- *                 maxLength: 200
- *               content:
- *                 type: string
- *                 minLength: 50
- *               author:
- *                 type: string
- *                 minLength: 2
- *                 maxLength: 100
- *               summary:
- *                 type: string
- *                 maxLength: 500
- *               tags:
- *                 type: array
- *                 items:
- *                   type: string
- *     responses:
- *       200:
- *         description: Article updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/Article'
- *                     metadata:
- *                       type: object
- *                       properties:
- *                         generated:
- *                           type: boolean
- *                         provider:
- *                           type: string
- *                         model:
- *                           type: string
- *                         method:
- *                           type: string
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.put(
-  '/:id',
-  asyncHandler(articleController.updateArticle.bind(articleController))
-);
+route({
+  method: 'post',
+  path: '/bulk/regenerate-summaries',
+  summary: 'Queue summary regeneration for articles without proper summaries',
+  description: 'Articles whose summary is already pending are skipped, so repeated calls work through the backlog. Follow progress under /summary-jobs.',
+  tags: ['Articles', 'Summary'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:admin'],
+  request: { body: bulkRegenerateSummariesSchema },
+  responses: {
+    200: dataResponse('No articles need summary updates', {
+      data: {
+        type: 'object',
+        properties: {
+          queued: { type: 'integer', example: 0 },
+          jobs: { type: 'array', items: schemaRef('SummaryJob') }
+        }
+      }
+    }),
+    202: dataResponse('Summary generation queued', {
+      data: {
+        type: 'object',
+        properties: {
+          queued: { type: 'integer' },
+          jobs: { type: 'array', items: schemaRef('SummaryJob') }
+        }
+      }
+    })
+  },
+  handler: articleController.bulkRegenerateSummaries.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/{id}/summary/regenerate:
- *   post:
- *     summary: Regenerate summary for an article
- *     tags: [Articles, Summary]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     requestBody:
- *       required: false
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               maxSentences:
- *                 type: number
- *                 minimum: 1
- *                 maximum: 10
- *                 default: 3
- *                 description: Maximum sentences in generated summary
- *     responses:
- *       200:
- *         description: Summary regenerated successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/Article'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.post(
-  '/:id/summary/regenerate',
-  asyncHandler(articleController.regenerateSummary.bind(articleController))
-);
+route({
+  method: 'get',
+  path: '/tags/:tags',
+  summary: 'Get articles by tags',
+  tags: ['Articles'],
+  request: { params: tagsParamsSchema, query: articlePageQuerySchema },
+  responses: {
+    200: paginatedResponse('Articles retrieved successfully', {
+      data: { type: 'array', items: schemaRef('Article') },
+      filters: {
+        type: 'object',
+        properties: { tags: { type: 'array', items: { type: 'string' } } }
+      }
+    })
+  },
+  handler: articleController.getArticlesByTags.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/{id}:
- *   get:
- *     summary: Get article by ID
- *     tags: [Articles]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     responses:
- *       200:
- *         description: Article retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/Article'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/:id',
-  asyncHandler(articleController.getArticleById.bind(articleController))
-);
+route({
+  method: 'get',
+  path: '/trash',
+  summary: 'List articles in the trash',
+  description: 'Trashed articles are hidden everywhere else and permanently removed, with their interactions, once the retention period (TRASH_RETENTION_DAYS) has passed.',
+  tags: ['Articles', 'Trash'],
+  auth: 'required',
+  scope: 'read:articles',
+  permissions: ['articles:trash'],
+  request: { query: articleTrashQuerySchema },
+  responses: {
+    200: paginatedResponse('Trashed articles retrieved successfully', {
+      data: { type: 'array', items: { allOf: [schemaRef('Article'), schemaRef('TrashInfo')] } }
+    })
+  },
+  handler: articleController.getTrashedArticles.bind(articleController)
+});
 
-/**
- * @swagger
- * /articles/{id}:
- *   delete:
- *     summary: Delete article by ID
- *     tags: [Articles]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     responses:
- *       200:
- *         description: Article deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.delete(
-  '/:id',
-  asyncHandler(articleController.deleteArticle.bind(articleController))
-);
+route({
+  method: 'post',
+  path: '/:id/restore',
+  summary: 'Restore a article from the trash',
+  tags: ['Articles', 'Trash'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:trash'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Article restored successfully', { data: schemaRef('Article'), cascade: schemaRef('CascadeReport') }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.restoreArticle.bind(articleController)
+});
 
-export default router;
\ No newline at end of file
+route({
+  method: 'put',
+  path: '/:id',
+  summary: 'Update article by ID',
+  tags: ['Articles'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:edit', 'articles:edit:own'],
+  request: { params: idParamsSchema, body: updateArticleSchema },
+  responses: {
+    200: dataResponse('Article updated successfully', {
+      data: schemaRef('Article'),
+      summaryJob: {
+        allOf: [schemaRef('SummaryJob')],
+        nullable: true,
+        description: 'The queued summary job when the content changed without a new summary'
+      },
+      revision: {
+        type: 'integer',
+        nullable: true,
+        description: 'Number of the revision recorded for this update (null when nothing changed)'
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.updateArticle.bind(articleController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/summary/regenerate',
+  summary: 'Regenerate summary for an article',
+  tags: ['Articles', 'Summary'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:regenerate'],
+  request: { params: idParamsSchema, body: regenerateSummarySchema },
+  responses: {
+    200: dataResponse('Summary regenerated successfully', {
+      data: schemaRef('Article'),
+      metadata: {
+        type: 'object',
+        properties: {
+          generated: { type: 'boolean' },
+          provider: { type: 'string' },
+          model: { type: 'string' },
+          method: { type: 'string' }
+        }
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.regenerateSummary.bind(articleController)
+});
+
+route({
+  method: 'get',
+  path: '/:id/cluster',
+  summary: 'Get the story cluster an article belongs to',
+  description: 'Unpublished articles are visible only to their author and to editors; others get a 404.',
+  tags: ['Articles', 'Clusters'],
+  auth: 'optional',
+  request: { params: idParamsSchema, query: articleClusterSchema },
+  responses: {
+    200: dataResponse('Cluster retrieved successfully', { data: schemaRef('StoryCluster') }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.getArticleCluster.bind(articleController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/status',
+  summary: 'Move an article through the editorial workflow',
+  description: 'Allowed transitions: draft → in_review | archived; in_review → draft | scheduled | published; scheduled → draft | in_review | published; published → archived; archived → draft. Scheduled articles are published automatically once publishAt passes. Authors may only submit their own drafts for review (draft → in_review); every other transition needs an editor.',
+  tags: ['Articles', 'Workflow'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:publish', 'articles:edit:own'],
+  request: { params: idParamsSchema, body: transitionSchema },
+  responses: {
+    200: dataResponse('Article status changed successfully', { data: schemaRef('Article') }),
+    404: responseRef('NotFound'),
+    409: problemResponse('Transition not allowed from the article\'s current state, or the status changed concurrently', {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      allowed: { type: 'array', items: { type: 'string' } }
+    })
+  },
+  handler: articleController.transitionArticle.bind(articleController)
+});
+
+route({
+  method: 'get',
+  path: '/:id/revisions',
+  summary: 'List an article\'s revisions, newest first',
+  description: 'Unpublished articles are visible only to their author and to editors; others get a 404.',
+  tags: ['Articles', 'Revisions'],
+  auth: 'optional',
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Revisions retrieved successfully (content and summary omitted)', {
+      data: { type: 'array', items: schemaRef('ArticleRevision') },
+      total: { type: 'integer' }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.getArticleRevisions.bind(articleController)
+});
+
+route({
+  method: 'get',
+  path: '/:id/revisions/diff',
+  summary: 'Word-level diff between two revisions',
+  description: 'Unpublished articles are visible only to their author and to editors; others get a 404.',
+  tags: ['Articles', 'Revisions'],
+  auth: 'optional',
+  request: { params: idParamsSchema, query: revisionDiffSchema },
+  responses: {
+    200: dataResponse('Diff computed successfully', { data: schemaRef('RevisionDiff') }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.diffArticleRevisions.bind(articleController)
+});
+
+route({
+  method: 'get',
+  path: '/:id/revisions/:revision',
+  summary: 'Get a single revision including its full text',
+  description: 'Unpublished articles are visible only to their author and to editors; others get a 404.',
+  tags: ['Articles', 'Revisions'],
+  auth: 'optional',
+  request: { params: revisionParamsSchema },
+  responses: {
+    200: dataResponse('Revision retrieved successfully', { data: schemaRef('ArticleRevision') }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.getArticleRevision.bind(articleController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/revisions/:revision/restore',
+  summary: 'Restore an article to an earlier revision',
+  description: 'Copies the old revision\'s fields back onto the article and records the result as a new revision.',
+  tags: ['Articles', 'Revisions'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:edit', 'articles:edit:own'],
+  request: { params: revisionParamsSchema },
+  responses: {
+    200: dataResponse('Article restored successfully', { data: schemaRef('Article'), revision: { type: 'integer' } }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.restoreArticleRevision.bind(articleController)
+});
+
+route({
+  method: 'get',
+  path: '/:id',
+  summary: 'Get article by ID',
+  description: 'Unpublished articles are visible only to their author and to editors; others get a 404.',
+  tags: ['Articles'],
+  auth: 'optional',
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Article retrieved successfully', { data: schemaRef('Article') }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.getArticleById.bind(articleController)
+});
+
+route({
+  method: 'delete',
+  path: '/:id',
+  summary: 'Move article to the trash',
+  description: 'Soft-deletes the article; it can be restored until the retention period expires.',
+  tags: ['Articles'],
+  auth: 'required',
+  scope: 'write:articles',
+  permissions: ['articles:delete', 'articles:delete:own'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Article moved to trash', {
+      data: {
+        allOf: [
+          schemaRef('TrashInfo'),
+          { type: 'object', properties: { cascade: schemaRef('CascadeReport') } }
+        ]
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: articleController.deleteArticle.bind(articleController)
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { AuthController } from '../controller/authController';
+import { dataResponse, jsonResponse, responseRef, schemaRef } from '../config/swagger';
+import { loginSchema, refreshTokenSchema } from '../validation/schemas';
+import { defineRoutes } from './registry';
+
+const router = Router();
+const authController = new AuthController();
+const route = defineRoutes(router, '/auth');
+
+route({
+  method: 'post',
+  path: '/login',
+  summary: 'Exchange a username and password for access and refresh tokens',
+  tags: ['Auth'],
+  request: { body: loginSchema },
+  responses: {
+    200: dataResponse('Logged in successfully', { data: schemaRef('AuthTokens') }),
+    401: responseRef('Unauthorized')
+  },
+  handler: authController.login.bind(authController)
+});
+
+route({
+  method: 'post',
+  path: '/refresh',
+  summary: 'Rotate a refresh token for a new token pair',
+  description: 'Each refresh token can be used once. Reusing a rotated token revokes every token issued from the same login.',
+  tags: ['Auth'],
+  request: { body: refreshTokenSchema },
+  responses: {
+    200: dataResponse('Tokens refreshed successfully', { data: schemaRef('AuthTokens') }),
+    401: responseRef('Unauthorized')
+  },
+  handler: authController.refresh.bind(authController)
+});
+
+route({
+  method: 'post',
+  path: '/logout',
+  summary: 'Revoke the refresh token and every token rotated from the same login',
+  tags: ['Auth'],
+  request: { body: refreshTokenSchema },
+  responses: {
+    200: jsonResponse('Logged out successfully', schemaRef('ApiResponse'))
+  },
+  handler: authController.logout.bind(authController)
+});
+
+route({
+  method: 'get',
+  path: '/me',
+  summary: 'Get the authenticated caller',
+  tags: ['Auth'],
+  auth: 'required',
+  request: {},
+  responses: {
+    200: dataResponse('The user or API key making the request', {
+      data: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['user', 'apiKey'] },
+          user: {
+            type: 'object',
+            description: 'Absent for application API keys',
+            properties: { id: { type: 'string' }, username: { type: 'string' } }
+          },
+          apiKey: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              application: { type: 'string' },
+              scopes: { type: 'array', items: schemaRef('ApiKeyScope') }
+            }
+          }
+        }
+      }
+    })
+  },
+  handler: authController.me.bind(authController)
+});
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { ClusterController } from '../controller/clusterController';
+import { dataResponse, schemaRef } from '../config/swagger';
+import { clustersSchema } from '../validation/schemas';
+import { defineRoutes } from './registry';
+
+const router = Router();
+const clusterController = new ClusterController();
+const route = defineRoutes(router, '/clusters');
+
+route({
+  method: 'get',
+  path: '/',
+  summary: 'Get story clusters grouping recent articles about the same event',
+  description: 'Articles are grouped by TF-IDF cosine similarity of their title, summary and content. Each cluster carries a representative article, its members, shared tags and a merged summary.',
+  tags: ['Clusters'],
+  request: { query: clustersSchema },
+  responses: {
+    200: dataResponse('Story clusters retrieved successfully', {
+      data: {
+        type: 'object',
+        properties: {
+          clusters: { type: 'array', items: schemaRef('StoryCluster') },
+          count: { type: 'integer' },
+          totalClusters: { type: 'integer' },
+          processingTimeMs: { type: 'integer' }
+        }
+      }
+    })
+  },
+  handler: clusterController.getClusters.bind(clusterController)
+});
+
+export default router;
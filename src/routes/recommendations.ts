@@ -1,94 +1,128 @@
 import { Router } from 'express';
 import { RecommendationController } from '../controller/recommendationController';
-import { asyncHandler } from '../middleware';
+import { dataResponse, responseRef, schemaRef } from '../config/swagger';
+import { recommendationParamsSchema, recommendationSchema } from '../validation/schemas';
+import { defineRoutes } from './registry';
 
 const router = Router();
 const recommendationController = new RecommendationController();
+const route = defineRoutes(router, '/recommendations');
 
-/**
- * @swagger
- * /recommendations/user/{user_id}:
- *   get:
- *     summary: Get personalized recommendations for a user
- *     tags: [Recommendations]
- *     parameters:
- *       - name: user_id
- *         in: path
- *         required: true
- *         schema:
- *           type: string
- *         example: "65f1a2b3c4d5e6f7a8b9c0d2"
- *       - name: limit
- *         in: query
- *         schema:
- *           type: integer
- *           default: 10
- *           maximum: 50
- *         description: Maximum number of recommendations to return
- */
-router.get(
-  '/user/:user_id',
-  asyncHandler(recommendationController.getRecommendations.bind(recommendationController))
-);
+const articleList = (description: string) => dataResponse(description, {
+  data: {
+    type: 'object',
+    properties: {
+      articles: { type: 'array', items: schemaRef('Article') },
+      count: { type: 'integer' },
+      processingTimeMs: { type: 'integer' }
+    }
+  }
+});
 
-/**
- * @swagger
- * /recommendations/trending:
- *   get:
- *     summary: Get trending articles based on recent interactions
- *     tags: [Recommendations]
- *     parameters:
- *       - name: limit
- *         in: query
- *         schema:
- *           type: integer
- *           default: 10
- *           maximum: 50
- *         description: Maximum number of trending articles to return
- */
-router.get(
-  '/trending',
-  asyncHandler(recommendationController.getTrendingArticles.bind(recommendationController))
-);
+const counts = { type: 'object', additionalProperties: { type: 'integer' } };
 
-/**
- * @swagger
- * /recommendations/popular:
- *   get:
- *     summary: Get popular articles of all time
- *     tags: [Recommendations]
- *     parameters:
- *       - name: limit
- *         in: query
- *         schema:
- *           type: integer
- *           default: 10
- *           maximum: 50
- *         description: Maximum number of popular articles to return
- */
-router.get(
-  '/popular',
-  asyncHandler(recommendationController.getPopularArticles.bind(recommendationController))
-);
+route({
+  method: 'get',
+  path: '/user/:user_id',
+  summary: 'Get personalized recommendations for a user',
+  tags: ['Recommendations'],
+  request: { params: recommendationParamsSchema, query: recommendationSchema },
+  responses: {
+    200: dataResponse('Recommendations generated successfully', {
+      data: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          recommendations: { type: 'array', items: schemaRef('Recommendation') },
+          count: { type: 'integer' },
+          processingTimeMs: { type: 'integer' }
+        }
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: recommendationController.getRecommendations.bind(recommendationController)
+});
 
-/**
- * @swagger
- * /recommendations/user/{user_id}/insights:
- *   get:
- *     summary: Get recommendation insights and user behavior analysis
- *     tags: [Recommendations]
- *     parameters:
- *       - name: user_id
- *         in: path
- *         required: true
- *         schema:
- *           type: string
- *         example: "65f1a2b3c4d5e6f7a8b9c0d2"
- *     description: Returns detailed insights about user preferences, activity patterns, and recommendation rationale for debugging and analytics purposes
- */
-router.get(
-  '/user/:user_id/insights',
-  asyncHandler(recommendationController.getRecommendationInsights.bind(recommendationController))
-);
+route({
+  method: 'get',
+  path: '/trending',
+  summary: 'Get trending articles based on recent interactions',
+  tags: ['Recommendations'],
+  request: { query: recommendationSchema },
+  responses: {
+    200: articleList('Trending articles retrieved successfully')
+  },
+  handler: recommendationController.getTrendingArticles.bind(recommendationController)
+});
 
-export default router;
\ No newline at end of file
+route({
+  method: 'get',
+  path: '/popular',
+  summary: 'Get popular articles of all time',
+  tags: ['Recommendations'],
+  request: { query: recommendationSchema },
+  responses: {
+    200: articleList('Popular articles retrieved successfully')
+  },
+  handler: recommendationController.getPopularArticles.bind(recommendationController)
+});
+
+route({
+  method: 'get',
+  path: '/user/:user_id/insights',
+  summary: 'Get recommendation insights and user behavior analysis',
+  description: 'Returns detailed insights about user preferences, activity patterns, and recommendation rationale for debugging and analytics purposes',
+  tags: ['Recommendations'],
+  request: { params: recommendationParamsSchema },
+  responses: {
+    200: dataResponse('Recommendation insights retrieved successfully', {
+      data: {
+        type: 'object',
+        properties: {
+          user: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              username: { type: 'string' },
+              explicitInterests: { type: 'array', items: { type: 'string' } },
+              memberSince: { type: 'string', format: 'date-time' }
+            }
+          },
+          activitySummary: {
+            type: 'object',
+            properties: {
+              totalInteractions: { type: 'integer' },
+              interactionsByType: counts,
+              mostActiveDay: { type: 'string', description: 'The date (YYYY-MM-DD) with the most interactions, or "No activity"' }
+            }
+          },
+          preferences: {
+            type: 'object',
+            properties: {
+              derivedTagPreferences: {
+                type: 'array',
+                items: { type: 'object', properties: { tag: { type: 'string' }, frequency: { type: 'integer' } } }
+              },
+              topAuthors: {
+                type: 'array',
+                items: { type: 'object', properties: { author: { type: 'string' }, interactions: { type: 'integer' } } }
+              }
+            }
+          },
+          recommendations: {
+            type: 'object',
+            properties: {
+              lastGenerated: { type: 'string', format: 'date-time' },
+              algorithmsUsed: { type: 'array', items: { type: 'string' } }
+            }
+          }
+        }
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: recommendationController.getRecommendationInsights.bind(recommendationController)
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import { RequestHandler, Response, Router } from 'express';
+import Joi from 'joi';
+import { ApiKeyScope } from '../models/ApiKey';
+import { Permission } from '../services/authorizationService';
+import {
+  asyncHandler,
+  authenticate,
+  authorize,
+  optionalAuthenticate,
+  requireScope,
+  requireUser,
+  validate
+} from '../middleware';
+import { OpenApiObject, schemaKeys } from '../utils/joiToOpenApi';
+
+/**
+ * `optional` lets anonymous callers through, `required` accepts users and API
+ * keys, and `user` rejects API keys.
+ */
+export type RouteAuth = 'optional' | 'required' | 'user';
+
+/** Every route declares its schemas, as `{}` when it takes no input. */
+export interface RequestSchemas {
+  params?: Joi.ObjectSchema;
+  query?: Joi.ObjectSchema;
+  body?: Joi.Schema;
+}
+
+export interface RouteDefinition {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  auth?: RouteAuth;
+  scope?: ApiKeyScope;
+  permissions?: Permission[];
+  request: RequestSchemas;
+  /** Media types besides JSON the body may be sent as plain text in. */
+  textBody?: string[];
+  /** Runs after the auth checks, before validation. */
+  middleware?: RequestHandler[];
+  responses: Record<number, OpenApiObject>;
+  handler: (req: any, res: Response) => Promise<void>;
+}
+
+export interface RegisteredRoute extends RouteDefinition {
+  fullPath: string;
+}
+
+/** Every route in registration order, read by the OpenAPI spec builder. */
+export const routeRegistry: RegisteredRoute[] = [];
+
+const authMiddleware = ({ auth, scope, permissions = [] }: RouteDefinition): RequestHandler[] => {
+  if (!auth) {
+    return [];
+  }
+
+  return [
+    auth === 'optional' ? optionalAuthenticate : authenticate,
+    ...(auth === 'user' ? [requireUser] : []),
+    ...(scope ? [requireScope(scope)] : []),
+    ...(permissions.length > 0 ? [authorize(...permissions)] : [])
+  ];
+};
+
+const validationMiddleware = ({ request }: RouteDefinition): RequestHandler[] => [
+  ...(request.params ? [validate(request.params, 'params')] : []),
+  ...(request.query ? [validate(request.query, 'query')] : []),
+  ...(request.body ? [validate(request.body)] : [])
+];
+
+// Fails at startup rather than letting an unvalidated path parameter reach a handler.
+const assertPathParamsValidated = (definition: RouteDefinition, fullPath: string): void => {
+  const declared = definition.request.params ? schemaKeys(definition.request.params) : [];
+  const missing = [...definition.path.matchAll(/:(\w+)/g)]
+    .map(([, name]) => name)
+    .filter(name => !declared.includes(name));
+
+  if (missing.length > 0) {
+    throw new Error(`${definition.method.toUpperCase()} ${fullPath} has no schema for path parameter(s): ${missing.join(', ')}`);
+  }
+};
+
+/**
+ * Returns a function that mounts routes on `router` together with their auth
+ * checks and request validation, and records them for the OpenAPI spec.
+ * `basePath` is where the router is mounted under `/api`.
+ */
+export const defineRoutes = (router: Router, basePath: string) => {
+  return (definition: RouteDefinition): void => {
+    const fullPath = `${basePath}${definition.path === '/' ? '' : definition.path}`;
+    assertPathParamsValidated(definition, fullPath);
+
+    router[definition.method](
+      definition.path,
+      ...authMiddleware(definition),
+      ...(definition.middleware ?? []),
+      ...validationMiddleware(definition),
+      asyncHandler(definition.handler)
+    );
+
+    routeRegistry.push({ ...definition, fullPath });
+  };
+};
@@ -0,0 +1,203 @@
+import express, { Router } from 'express';
+import { SourceController } from '../controller/sourceController';
+import { dataResponse, jsonResponse, paginatedResponse, problemResponse, responseRef, schemaRef } from '../config/swagger';
+import {
+  createSourceSchema,
+  deleteSourceSchema,
+  idParamsSchema,
+  opmlImportSchema,
+  pageQuerySchema,
+  sourcesQuerySchema,
+  updateSourceSchema
+} from '../validation/schemas';
+import { defineRoutes } from './registry';
+
+const OPML_TYPES = ['text/x-opml', 'text/xml', 'application/xml'];
+
+const router = Router();
+const sourceController = new SourceController();
+const route = defineRoutes(router, '/sources');
+
+route({
+  method: 'post',
+  path: '/',
+  summary: 'Register a new RSS or Atom feed source',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { body: createSourceSchema },
+  responses: {
+    201: dataResponse('Source registered successfully', { data: schemaRef('Source') }),
+    409: problemResponse('Feed URL already registered')
+  },
+  handler: sourceController.createSource.bind(sourceController)
+});
+
+route({
+  method: 'get',
+  path: '/',
+  summary: 'Get all feed sources (paginated)',
+  description: 'The last fetch error is only included for callers who manage sources.',
+  tags: ['Sources'],
+  auth: 'optional',
+  request: { query: sourcesQuerySchema },
+  responses: {
+    200: paginatedResponse('Sources retrieved successfully', { data: { type: 'array', items: schemaRef('Source') } })
+  },
+  handler: sourceController.getSources.bind(sourceController)
+});
+
+route({
+  method: 'post',
+  path: '/opml/import',
+  summary: 'Import feed sources from an OPML document',
+  description: 'Creates a source for every outline with an xmlUrl. Folder names become default tags, outermost first.',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { body: opmlImportSchema },
+  textBody: OPML_TYPES,
+  middleware: [express.text({ type: OPML_TYPES, limit: '5mb' })],
+  responses: {
+    200: dataResponse('Import finished without creating new sources', { data: schemaRef('OpmlImportResult') }),
+    201: dataResponse('At least one source was created', { data: schemaRef('OpmlImportResult') })
+  },
+  handler: sourceController.importOpml.bind(sourceController)
+});
+
+route({
+  method: 'get',
+  path: '/opml/export',
+  summary: 'Export all feed sources as an OPML document',
+  description: 'Sources are nested in folders named after their default tags.',
+  tags: ['Sources'],
+  request: {},
+  responses: {
+    200: {
+      description: 'OPML document',
+      content: { 'text/x-opml': { schema: { type: 'string' } } }
+    }
+  },
+  handler: sourceController.exportOpml.bind(sourceController)
+});
+
+route({
+  method: 'get',
+  path: '/:id',
+  summary: 'Get feed source by ID, including its last fetch status',
+  description: 'The last fetch error is only included for callers who manage sources.',
+  tags: ['Sources'],
+  auth: 'optional',
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Source retrieved successfully', {
+      data: {
+        allOf: [
+          schemaRef('Source'),
+          { type: 'object', properties: { articleCount: { type: 'integer' } } }
+        ]
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.getSourceById.bind(sourceController)
+});
+
+route({
+  method: 'put',
+  path: '/:id',
+  summary: 'Update feed source settings',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { params: idParamsSchema, body: updateSourceSchema },
+  responses: {
+    200: dataResponse('Source updated successfully', { data: schemaRef('Source') }),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.updateSource.bind(sourceController)
+});
+
+route({
+  method: 'delete',
+  path: '/:id',
+  summary: 'Delete feed source by ID',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { params: idParamsSchema, query: deleteSourceSchema },
+  responses: {
+    200: jsonResponse('Source deleted successfully', schemaRef('ApiResponse')),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.deleteSource.bind(sourceController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/pause',
+  summary: 'Pause polling for a feed source',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Source paused successfully', { data: schemaRef('Source') }),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.pauseSource.bind(sourceController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/resume',
+  summary: 'Resume polling for a paused feed source',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Source resumed successfully', { data: schemaRef('Source') }),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.resumeSource.bind(sourceController)
+});
+
+route({
+  method: 'post',
+  path: '/:id/refresh',
+  summary: 'Fetch and ingest a feed source immediately',
+  description: 'Only public http(s) addresses are fetched, including redirect targets.',
+  tags: ['Sources'],
+  auth: 'required',
+  scope: 'write:sources',
+  permissions: ['sources:manage'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Source refreshed successfully', { data: schemaRef('IngestionResult') }),
+    404: responseRef('NotFound'),
+    502: problemResponse('The feed could not be fetched or parsed')
+  },
+  handler: sourceController.refreshSource.bind(sourceController)
+});
+
+route({
+  method: 'get',
+  path: '/:id/articles',
+  summary: 'Get articles produced by a feed source',
+  tags: ['Sources'],
+  request: { params: idParamsSchema, query: pageQuerySchema },
+  responses: {
+    200: paginatedResponse('Articles retrieved successfully', { data: { type: 'array', items: schemaRef('Article') } }),
+    404: responseRef('NotFound')
+  },
+  handler: sourceController.getSourceArticles.bind(sourceController)
+});
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { SummaryJobController } from '../controller/summaryJobController';
+import { dataResponse, paginatedResponse, responseRef, schemaRef } from '../config/swagger';
+import { idParamsSchema, summaryJobsQuerySchema } from '../validation/schemas';
+import { defineRoutes } from './registry';
+
+const router = Router();
+const summaryJobController = new SummaryJobController();
+const route = defineRoutes(router, '/summary-jobs');
+
+route({
+  method: 'get',
+  path: '/',
+  summary: 'List summary generation jobs, newest first (paginated)',
+  description: 'Admins only.',
+  tags: ['Summary Jobs'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:admin'],
+  request: { query: summaryJobsQuerySchema },
+  responses: {
+    200: paginatedResponse('Summary jobs retrieved successfully', { data: { type: 'array', items: schemaRef('SummaryJob') } })
+  },
+  handler: summaryJobController.getSummaryJobs.bind(summaryJobController)
+});
+
+route({
+  method: 'get',
+  path: '/:id',
+  summary: 'Get a summary generation job',
+  description: 'Editors and admins. Poll this with the summaryJob returned when an article is created or its content changes; other callers can watch the article\'s summaryStatus instead.',
+  tags: ['Summary Jobs'],
+  auth: 'required',
+  scope: 'admin:summaries',
+  permissions: ['summaries:regenerate'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('Summary job retrieved successfully', { data: schemaRef('SummaryJob') }),
+    404: responseRef('NotFound')
+  },
+  handler: summaryJobController.getSummaryJobById.bind(summaryJobController)
+});
+
+export default router;
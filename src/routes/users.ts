@@ -1,192 +1,158 @@
 import { Router } from 'express';
 import { UserController } from '../controller/userController';
-import { asyncHandler } from '../middleware';
+import { dataResponse, paginatedResponse, problemResponse, responseRef, schemaRef } from '../config/swagger';
+import {
+  createUserSchema,
+  idParamsSchema,
+  pageQuerySchema,
+  setUserPasswordSchema,
+  updateUserRoleSchema,
+  updateUserSchema,
+  userTrashQuerySchema
+} from '../validation/schemas';
+import { defineRoutes } from './registry';
 
 const router = Router();
 const userController = new UserController();
+const route = defineRoutes(router, '/users');
 
-/**
- * @swagger
- * /users:
- *   post:
- *     summary: Create a new user
- *     tags: [Users]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - username
- *             properties:
- *               username:
- *                 type: string
- *                 minLength: 3
- *                 maxLength: 30
- *                 pattern: '^[a-zA-Z0-9_]+$'
- *                 example: "johndoe123"
- *               interests:
- *                 type: array
- *                 items:
- *                   type: string
- *                 example: ["technology", "science", "sports"]
- *     responses:
- *       201:
- *         description: User created successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/User'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       409:
- *         description: Username already exists
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.post(
-  '/',
-  asyncHandler(userController.createUser.bind(userController))
-);
+route({
+  method: 'post',
+  path: '/',
+  summary: 'Create a new user',
+  tags: ['Users'],
+  request: { body: createUserSchema },
+  responses: {
+    201: dataResponse('User created successfully', { data: schemaRef('User') }),
+    409: problemResponse('Username already exists')
+  },
+  handler: userController.createUser.bind(userController)
+});
 
-/**
- * @swagger
- * /users:
- *   get:
- *     summary: Get all users (paginated)
- *     tags: [Users]
- *     parameters:
- *       - $ref: '#/components/parameters/LimitParam'
- *       - $ref: '#/components/parameters/OffsetParam'
- *     responses:
- *       200:
- *         description: Users retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/PaginationResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/User'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/',
-  asyncHandler(userController.getUsers.bind(userController))
-);
+route({
+  method: 'get',
+  path: '/',
+  summary: 'Get all users (paginated)',
+  tags: ['Users'],
+  request: { query: pageQuerySchema },
+  responses: {
+    200: paginatedResponse('Users retrieved successfully', { data: { type: 'array', items: schemaRef('User') } })
+  },
+  handler: userController.getUsers.bind(userController)
+});
 
-/**
- * @swagger
- * /users/{id}:
- *   get:
- *     summary: Get user by ID
- *     tags: [Users]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     responses:
- *       200:
- *         description: User retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/User'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.get(
-  '/:id',
-  asyncHandler(userController.getUserById.bind(userController))
-);
+route({
+  method: 'get',
+  path: '/trash',
+  summary: 'List users in the trash',
+  description: 'Trashed users are hidden everywhere else and permanently removed, with their interactions, once the retention period (TRASH_RETENTION_DAYS) has passed.',
+  tags: ['Users', 'Trash'],
+  auth: 'user',
+  permissions: ['users:manage'],
+  request: { query: userTrashQuerySchema },
+  responses: {
+    200: paginatedResponse('Trashed users retrieved successfully', {
+      data: { type: 'array', items: { allOf: [schemaRef('User'), schemaRef('TrashInfo')] } }
+    })
+  },
+  handler: userController.getTrashedUsers.bind(userController)
+});
 
-/**
- * @swagger
- * /users/{id}:
- *   put:
- *     summary: Update user interests
- *     tags: [Users]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               interests:
- *                 type: array
- *                 items:
- *                   type: string
- *                 example: ["technology", "science", "sports"]
- *     responses:
- *       200:
- *         description: User updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/User'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.put(
-  '/:id',
-  asyncHandler(userController.updateUser.bind(userController))
-);
+route({
+  method: 'post',
+  path: '/:id/restore',
+  summary: 'Restore a user from the trash',
+  tags: ['Users', 'Trash'],
+  auth: 'user',
+  permissions: ['users:manage'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('User restored successfully', { data: schemaRef('User'), cascade: schemaRef('CascadeReport') }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.restoreUser.bind(userController)
+});
 
-/**
- * @swagger
- * /users/{id}:
- *   delete:
- *     summary: Delete user by ID
- *     tags: [Users]
- *     parameters:
- *       - $ref: '#/components/parameters/IdParam'
- *     responses:
- *       200:
- *         description: User deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       400:
- *         $ref: '#/components/responses/ValidationError'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-router.delete(
-  '/:id',
-  asyncHandler(userController.deleteUser.bind(userController))
-);
+route({
+  method: 'get',
+  path: '/:id',
+  summary: 'Get user by ID',
+  tags: ['Users'],
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('User retrieved successfully', { data: schemaRef('User') }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.getUserById.bind(userController)
+});
 
-export default router;
\ No newline at end of file
+route({
+  method: 'put',
+  path: '/:id',
+  summary: 'Update user interests',
+  description: 'Users can update their own account; admins can update any.',
+  tags: ['Users'],
+  auth: 'user',
+  request: { params: idParamsSchema, body: updateUserSchema },
+  responses: {
+    200: dataResponse('User updated successfully', { data: schemaRef('User') }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.updateUser.bind(userController)
+});
+
+route({
+  method: 'put',
+  path: '/:id/role',
+  summary: 'Change a user\'s role',
+  description: 'Admins only.',
+  tags: ['Users'],
+  auth: 'user',
+  permissions: ['users:manage'],
+  request: { params: idParamsSchema, body: updateUserRoleSchema },
+  responses: {
+    200: dataResponse('User role updated successfully', { data: schemaRef('User') }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.updateUserRole.bind(userController)
+});
+
+route({
+  method: 'put',
+  path: '/:id/password',
+  summary: 'Set a user\'s password',
+  description: 'Admins only. Gives accounts created before passwords existed a way to log in, or resets a forgotten password; the user\'s refresh tokens are revoked.',
+  tags: ['Users'],
+  auth: 'user',
+  permissions: ['users:manage'],
+  request: { params: idParamsSchema, body: setUserPasswordSchema },
+  responses: {
+    200: dataResponse('User password updated successfully', { data: schemaRef('User') }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.setUserPassword.bind(userController)
+});
+
+route({
+  method: 'delete',
+  path: '/:id',
+  summary: 'Move user to the trash',
+  description: 'Soft-deletes the user; it can be restored until the retention period expires. Users can delete their own account; admins can delete any.',
+  tags: ['Users'],
+  auth: 'user',
+  request: { params: idParamsSchema },
+  responses: {
+    200: dataResponse('User moved to trash', {
+      data: {
+        allOf: [
+          schemaRef('TrashInfo'),
+          { type: 'object', properties: { cascade: schemaRef('CascadeReport') } }
+        ]
+      }
+    }),
+    404: responseRef('NotFound')
+  },
+  handler: userController.deleteUser.bind(userController)
+});
+
+export default router;
@@ -1,70 +1,58 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import dotenv from 'dotenv';
+// Loaded before anything else so modules reading secrets at import time see .env values.
+import 'dotenv/config';
+import app from './app';
 import connectDB from './config/database';
-import { errorHandler, notFound, requestLogger } from './middleware';
-import { specs, swaggerUi } from './config/swagger';
+import { FeedPoller } from './services/feedIngestionService';
+import { PublishingService, PublishScheduler } from './services/publishingService';
+import { TrashPurger } from './services/trashService';
+import { SummaryWorker } from './services/summaryJobService';
+import { ensureBootstrapAdmin } from './services/authorizationService';
 
-import articleRoutes from './routes/articles';
-import userRoutes from './routes/users';
-import interactionRoutes from './routes/interactions';
-import recommendationRoutes from './routes/recommendations';
-
-dotenv.config();
-
-const app = express();
 const PORT = process.env.PORT || 3000;
 
 connectDB();
 
-app.use(helmet());
-app.use(cors());
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
-app.use(requestLogger);
-
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'OK',
-    timestamp: new Date().toISOString(),
-    service: 'Smart Content Aggregator API',
-    version: '1.0.0'
+const feedPoller = new FeedPoller();
+if (process.env.FEED_POLLING_ENABLED !== 'false') {
+  feedPoller.start();
+}
+
+const publishingService = new PublishingService();
+publishingService.backfillLegacyStatus()
+  .then(count => count > 0 && console.log(`Marked ${count} existing article(s) as published`))
+  .catch(error => console.error('Article status backfill failed:', error));
+
+ensureBootstrapAdmin()
+  .then(({ created }) => created && console.log(`Created admin ${process.env.BOOTSTRAP_ADMIN_USERNAME}`))
+  .catch(error => {
+    console.error('Admin bootstrap failed:', error);
+    process.exit(1);
   });
-});
 
-app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
-  explorer: true,
-  customCss: '.swagger-ui .topbar { display: none }',
-  customSiteTitle: 'Smart Content Aggregator API Documentation',
-  swaggerOptions: {
-    persistAuthorization: true,
-    displayRequestDuration: true
-  }
-}));
+const publishScheduler = new PublishScheduler(publishingService);
+publishScheduler.start();
 
-app.use('/api/articles', articleRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/interactions', interactionRoutes);
-app.use('/api/recommendations', recommendationRoutes);
-
-app.get('/', (req, res) => {
-  res.json({
-    message: 'Smart Content Aggregator API',
-    version: '1.0.0',
-    documentation: '/api-docs',
-    health: '/health'
-  });
-});
+const trashPurger = new TrashPurger();
+trashPurger.start();
 
-app.use(notFound);
-app.use(errorHandler);
+const summaryWorker = new SummaryWorker();
+if (process.env.SUMMARY_WORKER_ENABLED !== 'false') {
+  summaryWorker.start();
+}
 
 process.on('SIGINT', async () => {
+  feedPoller.stop();
+  publishScheduler.stop();
+  trashPurger.stop();
+  summaryWorker.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
+  feedPoller.stop();
+  publishScheduler.stop();
+  trashPurger.stop();
+  summaryWorker.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import ApiKey, { ApiKeyScope, IApiKey } from '../models/ApiKey';
+import { ForbiddenError } from '../utils/errors';
+
+const KEY_PREFIX = 'sca_';
+const VISIBLE_LENGTH = KEY_PREFIX.length + 8;
+
+// lastUsedAt is only written when it is older than this, so a busy key does
+// not cost a database write on every request.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface IssueApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  application?: string;
+  expiresAt?: Date;
+}
+
+export interface IssuedApiKey {
+  apiKey: IApiKey;
+  key: string;
+}
+
+export class InsufficientScopeError extends ForbiddenError {
+  readonly code = 'insufficient_scope';
+
+  constructor(readonly scope: ApiKeyScope) {
+    super(`API key is missing the ${scope} scope`);
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return { scope: this.scope };
+  }
+}
+
+export class ApiKeyNotAllowedError extends ForbiddenError {
+  readonly code = 'api_key_not_allowed';
+
+  constructor() {
+    super('This endpoint requires a user login, not an API key');
+  }
+}
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+export const looksLikeApiKey = (credential: string): boolean =>
+  credential.startsWith(KEY_PREFIX);
+
+export class ApiKeyService {
+  /**
+   * Creates a key acting as `createdBy`, or as a named application when one
+   * is given. The plaintext key is only ever returned here.
+   */
+  async issue(request: IssueApiKeyRequest, createdBy: string): Promise<IssuedApiKey> {
+    const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const apiKey = await ApiKey.create({
+      name: request.name,
+      prefix: key.slice(0, VISIBLE_LENGTH),
+      keyHash: hashKey(key),
+      scopes: [...new Set(request.scopes)],
+      userId: request.application ? undefined : createdBy,
+      application: request.application,
+      createdBy,
+      expiresAt: request.expiresAt
+    });
+
+    return { apiKey, key };
+  }
+
+  list(createdBy: string): Promise<IApiKey[]> {
+    return ApiKey.find({ createdBy }).sort({ createdAt: -1 });
+  }
+
+  revoke(id: string, createdBy: string, now: Date = new Date()): Promise<IApiKey | null> {
+    return ApiKey.findOneAndUpdate(
+      { _id: id, createdBy, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Looks up a live key and records that it was used. Returns null for
+   * unknown, revoked and expired keys alike.
+   */
+  async resolve(key: string, now: Date = new Date()): Promise<IApiKey | null> {
+    const apiKey = await ApiKey.findOne({
+      keyHash: hashKey(key),
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }]
+    });
+
+    if (!apiKey) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now } })
+        .catch(error => console.error('Failed to record API key use:', error));
+    }
+
+    return apiKey;
+  }
+}
+
+export default ApiKeyService;
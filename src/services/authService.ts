@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import User, { IUser } from '../models/User';
+import RefreshToken from '../models/RefreshToken';
+import { signToken } from '../utils/jwt';
+import { UnauthorizedError } from '../utils/errors';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  expiresIn: number;
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
+export class AuthenticationError extends UnauthorizedError {
+  readonly code = 'invalid_credentials';
+
+  constructor(message: string = 'Invalid credentials') {
+    super(message);
+  }
+}
+
+/**
+ * Hashes a password with scrypt, storing the parameters and salt alongside
+ * the key so they can be raised later without invalidating existing hashes.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, N, r, p, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p)
+  });
+
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Compared against when the username is unknown, so a failed login takes as
+// long whether or not the account exists.
+const DUMMY_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+export class AuthService {
+  constructor(
+    private readonly accessTtlSeconds: number = Number(process.env.JWT_ACCESS_TTL_SECONDS) || 15 * 60,
+    private readonly refreshTtlDays: number = Number(process.env.JWT_REFRESH_TTL_DAYS) || 30
+  ) {}
+
+  async login(username: string, password: string): Promise<AuthTokens> {
+    const user = await User.findOne({ username }).select('+passwordHash');
+
+    if (!user?.passwordHash) {
+      await verifyPassword(password, await DUMMY_HASH);
+      throw new AuthenticationError();
+    }
+
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      throw new AuthenticationError();
+    }
+
+    return this.issue(user, crypto.randomUUID());
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Each refresh token works
+   * once; presenting one that was already rotated means it leaked, so every
+   * token from that login is revoked.
+   */
+  async refresh(refreshToken: string, now: Date = new Date()): Promise<AuthTokens> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (!stored || stored.expiresAt <= now) {
+      throw new AuthenticationError('Invalid or expired refresh token');
+    }
+
+    // Conditional on the token still being live, so two concurrent refreshes
+    // with the same token cannot both succeed.
+    const rotated = await RefreshToken.updateOne(
+      { _id: stored._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now } }
+    );
+    if (rotated.modifiedCount === 0) {
+      await this.revokeFamily(stored.family, now);
+      throw new AuthenticationError('Refresh token has already been used');
+    }
+
+    const user = await User.findById(stored.userId);
+    if (!user) {
+      await this.revokeFamily(stored.family, now);
+      throw new AuthenticationError('Invalid or expired refresh token');
+    }
+
+    return this.issue(user, stored.family, now);
+  }
+
+  /**
+   * Ends the session the refresh token belongs to. Unknown tokens are ignored
+   * so logging out twice is harmless.
+   */
+  async logout(refreshToken: string, now: Date = new Date()): Promise<void> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) }).select('family');
+
+    if (stored) {
+      await this.revokeFamily(stored.family, now);
+    }
+  }
+
+  /**
+   * Sets a user's password, e.g. for accounts created before passwords
+   * existed, and ends every session the old one opened.
+   */
+  async setPassword(userId: string, password: string, now: Date = new Date()): Promise<IUser | null> {
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set: { passwordHash: await hashPassword(password) } },
+      { new: true }
+    );
+
+    if (user) {
+      await RefreshToken.updateMany(
+        { userId: user._id, revokedAt: { $exists: false } },
+        { $set: { revokedAt: now } }
+      );
+    }
+
+    return user;
+  }
+
+  private async revokeFamily(family: string, now: Date): Promise<void> {
+    await RefreshToken.updateMany(
+      { family, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now } }
+    );
+  }
+
+  private async issue(user: IUser, family: string, now: Date = new Date()): Promise<AuthTokens> {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const refreshExpiresAt = new Date(now.getTime() + this.refreshTtlDays * 24 * 60 * 60 * 1000);
+
+    await RefreshToken.create({
+      userId: user._id,
+      tokenHash: hashToken(refreshToken),
+      family,
+      expiresAt: refreshExpiresAt
+    });
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: signToken(String(user._id), this.accessTtlSeconds, { username: user.username }, now),
+      expiresIn: this.accessTtlSeconds,
+      refreshToken,
+      refreshExpiresAt
+    };
+  }
+}
+
+export default AuthService;
@@ -0,0 +1,117 @@
+import User, { UserRole } from '../models/User';
+import { ApiKeyScope } from '../models/ApiKey';
+import { ANY_DELETION_STATE } from '../models/plugins/softDelete';
+import { hashPassword, MIN_PASSWORD_LENGTH } from './authService';
+
+export type Permission =
+  | 'interactions:write'
+  | 'articles:create'
+  | 'articles:edit:own'
+  | 'articles:edit'
+  | 'articles:delete:own'
+  | 'articles:delete'
+  | 'articles:publish'
+  | 'articles:review'
+  | 'articles:trash'
+  | 'summaries:regenerate'
+  | 'summaries:admin'
+  | 'sources:manage'
+  | 'comments:moderate'
+  | 'users:manage'
+  | 'apiKeys:applications';
+
+const READER: Permission[] = ['interactions:write'];
+
+const AUTHOR: Permission[] = [
+  ...READER,
+  'articles:create',
+  'articles:edit:own',
+  'articles:delete:own'
+];
+
+const EDITOR: Permission[] = [
+  ...AUTHOR,
+  'articles:edit',
+  'articles:delete',
+  'articles:publish',
+  'articles:review',
+  'articles:trash',
+  'summaries:regenerate',
+  'sources:manage',
+  'comments:moderate'
+];
+
+const ADMIN: Permission[] = [
+  ...EDITOR,
+  'summaries:admin',
+  'users:manage',
+  'apiKeys:applications'
+];
+
+/** Each role includes everything the roles before it can do. */
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  reader: new Set(READER),
+  author: new Set(AUTHOR),
+  editor: new Set(EDITOR),
+  admin: new Set(ADMIN)
+};
+
+export const roleCan = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].has(permission);
+
+/**
+ * What each API key scope allows. A key holds a permission only if one of
+ * its scopes grants it; a key issued to a user is further limited to what
+ * that user's role allows. Permissions no scope lists, such as moderating
+ * comments or managing users, are never available to API keys.
+ */
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, ReadonlySet<Permission>> = {
+  'read:articles': new Set<Permission>(['articles:review', 'articles:trash']),
+  'write:articles': new Set<Permission>([
+    'articles:create',
+    'articles:edit:own',
+    'articles:edit',
+    'articles:delete:own',
+    'articles:delete',
+    'articles:publish',
+    'articles:review',
+    'articles:trash'
+  ]),
+  'write:interactions': new Set<Permission>(['interactions:write']),
+  'write:sources': new Set<Permission>(['sources:manage']),
+  'admin:summaries': new Set<Permission>(['summaries:regenerate', 'summaries:admin'])
+};
+
+export const scopesCan = (scopes: readonly ApiKeyScope[], permission: Permission): boolean =>
+  scopes.some(scope => SCOPE_PERMISSIONS[scope].has(permission));
+
+export interface BootstrapOutcome {
+  created: boolean;
+}
+
+/**
+ * Creates an admin named BOOTSTRAP_ADMIN_USERNAME with BOOTSTRAP_ADMIN_PASSWORD
+ * while no admin exists, so a fresh deployment has someone able to assign
+ * roles. Registration is open, so an existing account with that name is never
+ * promoted: anyone could have registered it. Throws when the name is taken or
+ * the password is missing or too short.
+ */
+export const ensureBootstrapAdmin = async (
+  username: string | undefined = process.env.BOOTSTRAP_ADMIN_USERNAME,
+  password: string | undefined = process.env.BOOTSTRAP_ADMIN_PASSWORD
+): Promise<BootstrapOutcome> => {
+  if (!username || await User.exists({ role: 'admin' })) {
+    return { created: false };
+  }
+
+  if (await User.exists({ username, deletedAt: ANY_DELETION_STATE })) {
+    throw new Error(`BOOTSTRAP_ADMIN_USERNAME names existing user "${username}"; choose a name nobody has registered`);
+  }
+
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`BOOTSTRAP_ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters to create the admin`);
+  }
+
+  await User.create({ username, role: 'admin', passwordHash: await hashPassword(password) });
+  return { created: true };
+};
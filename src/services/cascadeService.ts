@@ -0,0 +1,136 @@
+import { ClientSession, Types } from 'mongoose';
+import Article from '../models/Article';
+import ArticleRevision from '../models/ArticleRevision';
+import Interaction, { InteractionType } from '../models/Interaction';
+import User from '../models/User';
+import { ANY_DELETION_STATE } from '../models/plugins/softDelete';
+
+/** Which side of an interaction is being removed. */
+export type InteractionOwner = 'articleId' | 'userId';
+
+/**
+ * What happens to a purged user's interactions. Engagement signals go with
+ * the user; comments stay in their threads without an author.
+ */
+export const USER_PURGE_POLICY: Record<InteractionType, 'delete' | 'anonymize'> = {
+  view: 'delete',
+  like: 'delete',
+  share: 'delete',
+  comment: 'anonymize'
+};
+
+export interface CascadeReport {
+  interactions: number;
+  anonymized?: number;
+  revisions?: number;
+}
+
+const OTHER_OWNER: Record<InteractionOwner, InteractionOwner> = {
+  articleId: 'userId',
+  userId: 'articleId'
+};
+
+/**
+ * The single place that decides what happens to data depending on an article
+ * or user when it is trashed, restored or purged. Every method takes the
+ * caller's session so the cascade commits or rolls back with the owner, and
+ * runs its writes one after another as a transaction requires.
+ *
+ * Trashing hides dependent interactions with the owner's `deletedAt`, which
+ * is how restoring later finds exactly the interactions it hid.
+ */
+export class CascadeService {
+  async hide(owner: InteractionOwner, ids: Types.ObjectId[], deletedAt: Date, session?: ClientSession): Promise<CascadeReport> {
+    const result = await Interaction.updateMany(
+      { [owner]: { $in: ids }, deletedAt: null },
+      { $set: { deletedAt } },
+      { session }
+    );
+    return { interactions: result.modifiedCount };
+  }
+
+  /**
+   * Brings back the interactions hidden when the owner was trashed, except
+   * those whose other side is still in the trash.
+   */
+  async unhide(owner: InteractionOwner, id: Types.ObjectId, deletedAt: Date, session?: ClientSession): Promise<CascadeReport> {
+    const hidden = { [owner]: id, deletedAt };
+    const other = OTHER_OWNER[owner];
+    const others = await Interaction.distinct(other, hidden).session(session || null);
+    const trashedOthers = await this.trashedIds(other, others, session);
+
+    const result = await Interaction.updateMany(
+      { ...hidden, [other]: { $nin: trashedOthers } },
+      { $set: { deletedAt: null } },
+      { session }
+    );
+    return { interactions: result.modifiedCount };
+  }
+
+  async purge(owner: InteractionOwner, ids: Types.ObjectId[], session?: ClientSession): Promise<CascadeReport> {
+    return owner === 'articleId'
+      ? this.purgeArticles(ids, session)
+      : this.purgeUsers(ids, session);
+  }
+
+  private async purgeArticles(ids: Types.ObjectId[], session?: ClientSession): Promise<CascadeReport> {
+    const interactions = await Interaction.deleteMany(
+      { articleId: { $in: ids }, deletedAt: ANY_DELETION_STATE },
+      { session }
+    );
+    const revisions = await ArticleRevision.deleteMany({ articleId: { $in: ids } }, { session });
+
+    return { interactions: interactions.deletedCount, revisions: revisions.deletedCount };
+  }
+
+  private async purgeUsers(ids: Types.ObjectId[], session?: ClientSession): Promise<CascadeReport> {
+    const types = Object.keys(USER_PURGE_POLICY) as InteractionType[];
+    const deleted = types.filter(type => USER_PURGE_POLICY[type] === 'delete');
+    const anonymized = types.filter(type => USER_PURGE_POLICY[type] === 'anonymize');
+
+    const removed = await Interaction.deleteMany(
+      { userId: { $in: ids }, interactionType: { $in: deleted }, deletedAt: ANY_DELETION_STATE },
+      { session }
+    );
+
+    // Anonymized comments become visible again unless their article is in
+    // the trash, in which case they stay hidden alongside it.
+    const kept = { userId: { $in: ids }, interactionType: { $in: anonymized }, deletedAt: ANY_DELETION_STATE };
+    const articleIds = await Interaction.distinct('articleId', kept).session(session || null);
+    const trashedArticles = await Article.find({ _id: { $in: articleIds }, deletedAt: { $ne: null } })
+      .select('deletedAt')
+      .session(session || null);
+
+    const anonymize = (filter: object, deletedAt: Date | null) => Interaction.updateMany(
+      { ...kept, ...filter },
+      { $unset: { userId: 1 }, $set: { anonymizedAt: new Date(), deletedAt } },
+      { session }
+    );
+
+    let anonymizedCount = (await anonymize(
+      { articleId: { $nin: trashedArticles.map(article => article._id) } },
+      null
+    )).modifiedCount;
+
+    for (const article of trashedArticles) {
+      anonymizedCount += (await anonymize({ articleId: article._id }, article.deletedAt!)).modifiedCount;
+    }
+
+    return { interactions: removed.deletedCount, anonymized: anonymizedCount };
+  }
+
+  private async trashedIds(owner: InteractionOwner, ids: Types.ObjectId[], session?: ClientSession): Promise<Types.ObjectId[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const filter = { _id: { $in: ids }, deletedAt: { $ne: null } };
+    const trashed = owner === 'articleId'
+      ? await Article.find(filter).select('_id').session(session || null)
+      : await User.find(filter).select('_id').session(session || null);
+
+    return trashed.map(item => item._id as Types.ObjectId);
+  }
+}
+
+export default CascadeService;
@@ -0,0 +1,220 @@
+import natural from 'natural';
+import Article, { IArticle, PUBLISHED_FILTER } from '../models/Article';
+import { ExtractiveSummarizer, STOP_WORDS } from './summaryService';
+
+export interface ClusterOptions {
+  days?: number;
+  maxArticles?: number;
+  threshold?: number;
+  minSize?: number;
+}
+
+export interface ClusterMember {
+  _id: unknown;
+  title: string;
+  author: string;
+  createdAt: Date;
+  similarity: number;
+}
+
+export interface StoryCluster {
+  id: string;
+  representative: IArticle;
+  members: ClusterMember[];
+  size: number;
+  sharedTags: string[];
+  keywords: string[];
+  mergedSummary: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+type TermVector = Map<string, number>;
+
+interface WorkingCluster {
+  articles: IArticle[];
+  vectors: TermVector[];
+  centroid: TermVector;
+}
+
+export class ClusteringService {
+  private readonly tokenizer = new natural.WordTokenizer();
+  private readonly stemmer = natural.PorterStemmer;
+  private readonly summarizer = new ExtractiveSummarizer();
+
+  async getClusters(options: ClusterOptions = {}): Promise<StoryCluster[]> {
+    const { days = 3, maxArticles = 300, minSize = 2 } = options;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const articles = await Article.find({ ...PUBLISHED_FILTER, createdAt: { $gte: since } })
+      .sort({ createdAt: -1 })
+      .limit(maxArticles)
+      .select('-__v');
+
+    return this.clusterArticles(articles, options.threshold)
+      .filter(cluster => cluster.size >= minSize)
+      .sort((a, b) => b.size - a.size || b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async getClusterForArticle(article: IArticle, options: ClusterOptions = {}): Promise<StoryCluster> {
+    const { days = 3, maxArticles = 300 } = options;
+    const windowMs = days * 24 * 60 * 60 * 1000;
+    const createdAt = article.createdAt.getTime();
+
+    const neighbours = await Article.find({
+      ...PUBLISHED_FILTER,
+      _id: { $ne: article._id },
+      createdAt: { $gte: new Date(createdAt - windowMs), $lte: new Date(createdAt + windowMs) }
+    })
+      .sort({ createdAt: -1 })
+      .limit(maxArticles)
+      .select('-__v');
+
+    const clusters = this.clusterArticles([article, ...neighbours], options.threshold);
+    return clusters.find(cluster => cluster.members.some(member => String(member._id) === String(article._id)))!;
+  }
+
+  clusterArticles(articles: IArticle[], threshold: number = 0.25): StoryCluster[] {
+    if (articles.length === 0) {
+      return [];
+    }
+
+    const tfidf = new natural.TfIdf();
+    articles.forEach(article => tfidf.addDocument(this.tokenize(article)));
+
+    const vectors = articles.map((_, index) => this.normalise(new Map(
+      tfidf.listTerms(index).map(item => [item.term, item.tfidf] as [string, number])
+    )));
+
+    const working: WorkingCluster[] = [];
+
+    const order = articles
+      .map((article, index) => ({ article, index }))
+      .sort((a, b) => a.article.createdAt.getTime() - b.article.createdAt.getTime());
+
+    for (const { article, index } of order) {
+      const vector = vectors[index];
+      let best: WorkingCluster | null = null;
+      let bestSimilarity = threshold;
+
+      for (const cluster of working) {
+        const similarity = this.cosine(vector, cluster.centroid);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        best.articles.push(article);
+        best.vectors.push(vector);
+        best.centroid = this.centroid(best.vectors);
+      } else {
+        working.push({ articles: [article], vectors: [vector], centroid: vector });
+      }
+    }
+
+    return working.map(cluster => this.describe(cluster));
+  }
+
+  private describe(cluster: WorkingCluster): StoryCluster {
+    const similarities = cluster.vectors.map(vector => this.cosine(vector, cluster.centroid));
+
+    let representativeIndex = 0;
+    similarities.forEach((similarity, index) => {
+      if (similarity > similarities[representativeIndex]) {
+        representativeIndex = index;
+      }
+    });
+    const representative = cluster.articles[representativeIndex];
+
+    const members = cluster.articles
+      .map((article, index) => ({
+        _id: article._id,
+        title: article.title,
+        author: article.author,
+        createdAt: article.createdAt,
+        similarity: Math.round(similarities[index] * 100) / 100
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const tagCounts = new Map<string, number>();
+    cluster.articles.forEach(article => {
+      new Set(article.tags || []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+    });
+    const sharedTags = [...tagCounts.entries()]
+      .filter(([, count]) => count >= Math.max(2, Math.ceil(cluster.articles.length / 2)) || cluster.articles.length === 1)
+      .sort(([, a], [, b]) => b - a)
+      .map(([tag]) => tag);
+
+    const keywords = [...cluster.centroid.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 8)
+      .map(([term]) => term);
+
+    const timestamps = cluster.articles.map(article => article.createdAt.getTime());
+
+    return {
+      id: String(representative._id),
+      representative,
+      members,
+      size: cluster.articles.length,
+      sharedTags,
+      keywords,
+      mergedSummary: this.mergeSummaries(cluster.articles, representative),
+      firstSeenAt: new Date(Math.min(...timestamps)),
+      lastSeenAt: new Date(Math.max(...timestamps))
+    };
+  }
+
+  private mergeSummaries(articles: IArticle[], representative: IArticle): string {
+    if (articles.length === 1) {
+      return representative.summary || this.summarizer.generateSummary(representative.content);
+    }
+
+    const combined = [representative, ...articles.filter(article => article !== representative)]
+      .map(article => article.summary || article.content)
+      .join('. ');
+
+    return this.summarizer.generateSummary(combined, { maxSentences: 3 });
+  }
+
+  private tokenize(article: IArticle): string[] {
+    const text = `${article.title} ${article.title} ${article.summary || ''} ${article.content}`;
+
+    return (this.tokenizer.tokenize(text.toLowerCase()) || [])
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+      .map(token => this.stemmer.stem(token));
+  }
+
+  private centroid(vectors: TermVector[]): TermVector {
+    const sum: TermVector = new Map();
+    vectors.forEach(vector => vector.forEach((weight, term) => sum.set(term, (sum.get(term) || 0) + weight)));
+    return this.normalise(sum);
+  }
+
+  private normalise(vector: TermVector): TermVector {
+    let norm = 0;
+    vector.forEach(weight => { norm += weight * weight; });
+    norm = Math.sqrt(norm);
+
+    if (norm === 0) {
+      return vector;
+    }
+
+    const normalised: TermVector = new Map();
+    vector.forEach((weight, term) => normalised.set(term, weight / norm));
+    return normalised;
+  }
+
+  private cosine(a: TermVector, b: TermVector): number {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((weight, term) => {
+      dot += weight * (large.get(term) || 0);
+    });
+    return dot;
+  }
+}
+
+export default ClusteringService;
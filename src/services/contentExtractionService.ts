@@ -0,0 +1,297 @@
+import { load, CheerioAPI, Cheerio } from 'cheerio';
+import { PublicHttpClient } from '../utils/publicHttp';
+
+export interface ExtractedContent {
+  url?: string;
+  title?: string;
+  author?: string;
+  publishedAt?: Date;
+  imageUrl?: string;
+  content: string;
+  confidence: number;
+  signals: {
+    textLength: number;
+    paragraphCount: number;
+    linkDensity: number;
+    candidateScore: number;
+  };
+}
+
+const REMOVE_SELECTORS = 'script, style, noscript, iframe, form, nav, header, footer, aside, svg, button, input, select, textarea';
+const UNLIKELY_CANDIDATES = /ad-|ads|advert|banner|breadcrumb|combx|comment|community|cookie|disqus|footer|header|menu|meta|modal|nav|newsletter|outbrain|pager|popup|promo|related|remark|rss|share|shoutbox|sidebar|social|sponsor|subscribe|taboola|tags|tool|widget/i;
+const LIKELY_CANDIDATES = /and|article|body|column|content|entry|hentry|main|page|post|story|text/i;
+const POSITIVE_WEIGHT = /article|body|content|entry|hentry|h-entry|main|page|post|story|text|blog/i;
+const NEGATIVE_WEIGHT = /ad-|ads|banner|combx|comment|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|social|sponsor|shopping|tags|tool|widget/i;
+
+export class ContentExtractionService {
+  constructor(private readonly http: PublicHttpClient = new PublicHttpClient()) {}
+
+  /** Fetches and extracts a page; only public addresses are contacted. */
+  async extractFromUrl(url: string): Promise<ExtractedContent> {
+    const response = await this.http.get<string>(url, {
+      responseType: 'text',
+      headers: { 'Accept': 'text/html,application/xhtml+xml' }
+    });
+
+    const contentType = String(response.headers['content-type'] || '');
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    return this.extract(response.data, response.url.href);
+  }
+
+  extract(html: string, url?: string): ExtractedContent {
+    const $ = load(html);
+
+    const title = this.extractTitle($);
+    const author = this.extractAuthor($);
+    const publishedAt = this.extractPublishedAt($);
+    let imageUrl = this.meta($, ['og:image', 'twitter:image', 'twitter:image:src']);
+
+    $(REMOVE_SELECTORS).remove();
+    this.removeUnlikelyCandidates($);
+
+    const candidate = this.findTopCandidate($);
+    const paragraphs = this.collectParagraphs($, candidate.node);
+    const content = paragraphs.join('\n\n');
+
+    if (!imageUrl) {
+      imageUrl = candidate.node.find('img[src]').first().attr('src');
+    }
+
+    const linkDensity = this.linkDensity($, candidate.node);
+    const signals = {
+      textLength: content.length,
+      paragraphCount: paragraphs.length,
+      linkDensity: Math.round(linkDensity * 100) / 100,
+      candidateScore: Math.round(candidate.score * 10) / 10
+    };
+
+    return {
+      url,
+      title,
+      author,
+      publishedAt,
+      imageUrl: this.absoluteUrl(imageUrl, url),
+      content,
+      confidence: this.calculateConfidence(signals, { title, author, publishedAt }),
+      signals
+    };
+  }
+
+  private removeUnlikelyCandidates($: CheerioAPI): void {
+    $('body *').each((_, element) => {
+      const node = $(element);
+      const tag = element.tagName?.toLowerCase();
+      const matchString = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+
+      if (tag === 'body' || tag === 'article' || tag === 'main') {
+        return;
+      }
+
+      if (UNLIKELY_CANDIDATES.test(matchString) && !LIKELY_CANDIDATES.test(matchString)) {
+        node.remove();
+      }
+    });
+  }
+
+  private findTopCandidate($: CheerioAPI): { node: Cheerio<any>; score: number } {
+    const scores = new Map<any, number>();
+
+    const initialise = (element: any): void => {
+      if (scores.has(element)) return;
+
+      const tag = element.tagName?.toLowerCase();
+      let score = this.classWeight($(element));
+      if (tag === 'article') score += 10;
+      else if (tag === 'div' || tag === 'section' || tag === 'main') score += 5;
+      else if (tag === 'pre' || tag === 'td' || tag === 'blockquote') score += 3;
+      else if (tag === 'ol' || tag === 'ul' || tag === 'dl' || tag === 'li') score -= 3;
+      else if (/^h[1-6]$/.test(tag)) score -= 5;
+
+      scores.set(element, score);
+    };
+
+    $('p, pre, td').each((_, element) => {
+      const text = this.normalise($(element).text());
+      if (text.length < 25) return;
+
+      const parent = element.parent;
+      if (!parent || parent.type !== 'tag') return;
+      const grandparent = parent.parent && parent.parent.type === 'tag' ? parent.parent : undefined;
+
+      const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+      initialise(parent);
+      scores.set(parent, (scores.get(parent) || 0) + contentScore);
+
+      if (grandparent) {
+        initialise(grandparent);
+        scores.set(grandparent, (scores.get(grandparent) || 0) + contentScore / 2);
+      }
+    });
+
+    let topNode: any = null;
+    let topScore = 0;
+
+    scores.forEach((score, element) => {
+      const adjusted = score * (1 - this.linkDensity($, $(element)));
+      if (adjusted > topScore) {
+        topScore = adjusted;
+        topNode = element;
+      }
+    });
+
+    return {
+      node: topNode ? $(topNode) : $('body'),
+      score: topScore
+    };
+  }
+
+  private collectParagraphs($: CheerioAPI, node: Cheerio<any>): string[] {
+    const blocks = node.find('p, pre, blockquote, li, h2, h3, h4');
+    const source = blocks.length > 0 ? blocks : node;
+    const seen = new Set<string>();
+    const paragraphs: string[] = [];
+
+    source.each((_, element) => {
+      const block = $(element);
+      if (block.parents('p, blockquote, li').length > 0 && blocks.length > 0) return;
+
+      const text = this.normalise(block.text());
+      if (text.length < 20 && !/^h[2-4]$/i.test((element as any).tagName || '')) return;
+      if (text.length === 0 || seen.has(text)) return;
+      if (this.linkDensity($, block) > 0.5) return;
+
+      seen.add(text);
+      paragraphs.push(text);
+    });
+
+    return paragraphs;
+  }
+
+  private classWeight(node: Cheerio<any>): number {
+    let weight = 0;
+
+    for (const value of [node.attr('class'), node.attr('id')]) {
+      if (!value) continue;
+      if (NEGATIVE_WEIGHT.test(value)) weight -= 25;
+      if (POSITIVE_WEIGHT.test(value)) weight += 25;
+    }
+
+    return weight;
+  }
+
+  private linkDensity($: CheerioAPI, node: Cheerio<any>): number {
+    const textLength = this.normalise(node.text()).length;
+    if (textLength === 0) return 0;
+
+    let linkLength = 0;
+    node.find('a').each((_, link) => {
+      linkLength += this.normalise($(link).text()).length;
+    });
+
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private extractTitle($: CheerioAPI): string | undefined {
+    const title = this.meta($, ['og:title', 'twitter:title'])
+      || this.normalise($('article h1').first().text())
+      || this.normalise($('h1').first().text())
+      || this.normalise($('title').first().text()).split(/\s+[|\-–—»]\s+/)[0];
+
+    return title || undefined;
+  }
+
+  private extractAuthor($: CheerioAPI): string | undefined {
+    const author = this.meta($, ['author', 'article:author', 'twitter:creator', 'dc.creator'])
+      || this.jsonLd($, 'author')
+      || this.normalise($('[rel="author"], [itemprop="author"], .byline, .author').first().text());
+
+    if (!author || /^https?:\/\//i.test(author)) {
+      return undefined;
+    }
+
+    return author.replace(/^by\s+/i, '').trim() || undefined;
+  }
+
+  private extractPublishedAt($: CheerioAPI): Date | undefined {
+    const candidates = [
+      this.meta($, ['article:published_time', 'datePublished', 'pubdate', 'publishdate', 'date', 'dc.date']),
+      this.jsonLd($, 'datePublished'),
+      $('time[datetime]').first().attr('datetime')
+    ];
+
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      const date = new Date(candidate);
+      if (!isNaN(date.getTime())) return date;
+    }
+
+    return undefined;
+  }
+
+  private meta($: CheerioAPI, names: string[]): string | undefined {
+    for (const name of names) {
+      const value = $(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`).first().attr('content');
+      if (value && value.trim()) {
+        return this.normalise(value);
+      }
+    }
+    return undefined;
+  }
+
+  private jsonLd($: CheerioAPI, field: 'author' | 'datePublished'): string | undefined {
+    let found: string | undefined;
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      if (found) return;
+      try {
+        const data = JSON.parse($(element).text());
+        const nodes = Array.isArray(data) ? data : data['@graph'] || [data];
+
+        for (const node of nodes) {
+          const value = node?.[field];
+          if (!value) continue;
+
+          const first = Array.isArray(value) ? value[0] : value;
+          found = typeof first === 'string' ? first : first?.name;
+          if (found) return;
+        }
+      } catch {
+        // Ignore malformed structured data
+      }
+    });
+
+    return found;
+  }
+
+  private calculateConfidence(
+    signals: ExtractedContent['signals'],
+    metadata: { title?: string; author?: string; publishedAt?: Date }
+  ): number {
+    const lengthScore = Math.min(signals.textLength / 1500, 1);
+    const structureScore = Math.min(signals.paragraphCount / 5, 1);
+    const linkScore = 1 - signals.linkDensity;
+    const metadataScore = [metadata.title, metadata.author, metadata.publishedAt].filter(Boolean).length / 3;
+
+    const confidence = lengthScore * 0.45 + structureScore * 0.2 + linkScore * 0.15 + metadataScore * 0.2;
+    return Math.round(confidence * 100) / 100;
+  }
+
+  private absoluteUrl(value: string | undefined, base?: string): string | undefined {
+    if (!value) return undefined;
+    try {
+      return new URL(value, base).toString();
+    } catch {
+      return value;
+    }
+  }
+
+  private normalise(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+export default ContentExtractionService;
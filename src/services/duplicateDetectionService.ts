@@ -0,0 +1,84 @@
+import { FilterQuery, Types } from 'mongoose';
+import Article, { IArticle } from '../models/Article';
+import { ConflictError } from '../utils/errors';
+import { fingerprintBands, hammingDistance, MAX_DETECTABLE_DISTANCE, simhash } from '../utils/simhash';
+
+export interface DuplicateMatch {
+  article: IArticle;
+  canonicalId: Types.ObjectId;
+  distance: number;
+}
+
+export class DuplicateArticleError extends ConflictError {
+  readonly code = 'duplicate_article';
+
+  constructor(readonly match: DuplicateMatch) {
+    super('A near-duplicate of this article already exists');
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return {
+      originalId: this.match.canonicalId,
+      matchedId: this.match.article._id,
+      matchedTitle: this.match.article.title,
+      distance: this.match.distance
+    };
+  }
+}
+
+// 0 is a valid setting (exact fingerprint matches only), so only an unset or unparseable value falls back.
+const configuredMaxDistance = (): number => {
+  const parsed = Number.parseInt(process.env.DUPLICATE_MAX_DISTANCE ?? '', 10);
+  return Number.isFinite(parsed) ? parsed : 6;
+};
+
+export class DuplicateDetectionService {
+  private readonly maxDistance: number;
+
+  constructor(maxDistance: number = configuredMaxDistance()) {
+    this.maxDistance = Math.min(Math.max(maxDistance, 0), MAX_DETECTABLE_DISTANCE);
+  }
+
+  /**
+   * Finds the closest stored article within the configured distance, among
+   * those matching `scope`. Callers that report the match back pass a filter
+   * of the articles they may read.
+   */
+  async findNearDuplicate(
+    content: string,
+    scope: FilterQuery<IArticle> = {},
+    excludeId?: Types.ObjectId | string
+  ): Promise<DuplicateMatch | null> {
+    const fingerprint = simhash(content);
+
+    const query: FilterQuery<IArticle> = { ...scope, fingerprintBands: { $in: fingerprintBands(fingerprint) } };
+    if (excludeId) {
+      query._id = { $ne: excludeId };
+    }
+
+    // Every band match is checked: capping them would lose matches the bands guarantee to find.
+    const candidates = await Article.find(query).select('title fingerprint duplicateOf createdAt');
+
+    let best: DuplicateMatch | null = null;
+
+    for (const candidate of candidates) {
+      if (!candidate.fingerprint) continue;
+
+      const distance = hammingDistance(fingerprint, candidate.fingerprint);
+      if (distance > this.maxDistance) continue;
+
+      // Ties go to the oldest article, which is most likely the original.
+      if (!best || distance < best.distance || (distance === best.distance && candidate.createdAt < best.article.createdAt)) {
+        best = {
+          article: candidate,
+          canonicalId: candidate.duplicateOf || (candidate._id as Types.ObjectId),
+          distance
+        };
+      }
+    }
+
+    return best;
+  }
+}
+
+export default DuplicateDetectionService;
@@ -0,0 +1,110 @@
+import Article from '../models/Article';
+import Source from '../models/Source';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FACET_VALUES = 20;
+
+export const PUBLISHED_RANGES = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS
+};
+
+export type PublishedRange = keyof typeof PUBLISHED_RANGES;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SourceFacetValue extends FacetValue {
+  title?: string;
+}
+
+export interface ArticleFacets {
+  tags: FacetValue[];
+  authors: FacetValue[];
+  sources: SourceFacetValue[];
+  published: {
+    day: number;
+    week: number;
+    month: number;
+    older: number;
+  };
+}
+
+export class FacetService {
+  /**
+   * Counts tag, author, source and publish-date values across every article
+   * matching the filter, independent of the requested page. Articles without
+   * a publish date are bucketed by their creation time.
+   */
+  async getArticleFacets(filter: any, now: Date = new Date()): Promise<ArticleFacets> {
+    const publishedAt = { $ifNull: ['$publishedAt', '$createdAt'] };
+    const since = (range: PublishedRange) => new Date(now.getTime() - PUBLISHED_RANGES[range]);
+    const within = (range: PublishedRange) => ({ $sum: { $cond: [{ $gte: [publishedAt, since(range)] }, 1, 0] } });
+
+    const [result] = await Article.aggregate([
+      { $match: filter },
+      {
+        $facet: {
+          tags: [
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: MAX_FACET_VALUES }
+          ],
+          authors: [
+            { $group: { _id: '$author', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: MAX_FACET_VALUES }
+          ],
+          sources: [
+            { $match: { sourceId: { $ne: null } } },
+            { $group: { _id: '$sourceId', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: MAX_FACET_VALUES }
+          ],
+          published: [
+            {
+              $group: {
+                _id: null,
+                day: within('day'),
+                week: within('week'),
+                month: within('month'),
+                total: { $sum: 1 }
+              }
+            }
+          ]
+        }
+      }
+    ]);
+
+    const sourceTitles = new Map<string, string | undefined>();
+    if (result.sources.length > 0) {
+      const sources = await Source.find({ _id: { $in: result.sources.map((item: any) => item._id) } })
+        .select('title feedUrl');
+      sources.forEach(source => sourceTitles.set(String(source._id), source.title || source.feedUrl));
+    }
+
+    const published = result.published[0] || { day: 0, week: 0, month: 0, total: 0 };
+
+    return {
+      tags: result.tags.map((item: any) => ({ value: item._id, count: item.count })),
+      authors: result.authors.map((item: any) => ({ value: item._id, count: item.count })),
+      sources: result.sources.map((item: any) => ({
+        value: String(item._id),
+        title: sourceTitles.get(String(item._id)),
+        count: item.count
+      })),
+      published: {
+        day: published.day,
+        week: published.week,
+        month: published.month,
+        older: published.total - published.month
+      }
+    };
+  }
+}
+
+export default FacetService;
@@ -0,0 +1,215 @@
+import { Types } from 'mongoose';
+import axios from 'axios';
+import Article from '../models/Article';
+import { ANY_DELETION_STATE } from '../models/plugins/softDelete';
+import Source, { ISource } from '../models/Source';
+import { PublicHttpClient } from '../utils/publicHttp';
+import { FeedEntry, FeedParser } from './feedParser';
+import { SummaryJobService } from './summaryJobService';
+import { DuplicateDetectionService } from './duplicateDetectionService';
+
+const MIN_CONTENT_LENGTH = 50;
+
+export interface IngestionResult {
+  sourceId: string;
+  feedUrl: string;
+  status: 'updated' | 'not_modified' | 'failed';
+  fetched: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  error?: string;
+}
+
+export class FeedIngestionService {
+  constructor(
+    private readonly http: PublicHttpClient = new PublicHttpClient(),
+    private readonly summaryJobs: SummaryJobService = new SummaryJobService(),
+    private readonly parser: FeedParser = new FeedParser(),
+    private readonly duplicateDetection: DuplicateDetectionService = new DuplicateDetectionService()
+  ) {}
+
+  async ingestSource(source: ISource): Promise<IngestionResult> {
+    const result: IngestionResult = {
+      sourceId: String(source._id),
+      feedUrl: source.feedUrl,
+      status: 'updated',
+      fetched: 0,
+      created: 0,
+      skipped: 0,
+      failed: 0
+    };
+
+    const now = new Date();
+    source.lastFetchedAt = now;
+    source.nextFetchAt = new Date(now.getTime() + source.pollIntervalMinutes * 60 * 1000);
+
+    try {
+      const headers: Record<string, string> = {
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8'
+      };
+      if (source.etag) headers['If-None-Match'] = source.etag;
+      if (source.lastModified) headers['If-Modified-Since'] = source.lastModified;
+
+      const response = await this.http.get<string>(source.feedUrl, {
+        headers,
+        responseType: 'text',
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+      });
+
+      if (response.status === 304) {
+        result.status = 'not_modified';
+        source.lastFetchStatus = result.status;
+        source.lastError = undefined;
+        await source.save();
+        return result;
+      }
+
+      const feed = this.parser.parse(response.data);
+
+      source.etag = response.headers['etag'] || undefined;
+      source.lastModified = response.headers['last-modified'] || undefined;
+      if (!source.title && feed.title) source.title = feed.title;
+      if (!source.siteUrl && feed.siteUrl) source.siteUrl = feed.siteUrl;
+
+      result.fetched = feed.entries.length;
+
+      const counts = await this.ingestEntries(source, feed.entries);
+      result.created = counts.created;
+      result.skipped = counts.skipped;
+      result.failed = counts.failed;
+
+      source.lastFetchStatus = result.status;
+      source.lastError = undefined;
+      await source.save();
+      return result;
+
+    } catch (error) {
+      result.status = 'failed';
+      result.error = this.getErrorMessage(error);
+      source.lastFetchStatus = result.status;
+      source.lastError = result.error;
+      await source.save();
+      return result;
+    }
+  }
+
+  async ingestEntries(source: ISource, entries: FeedEntry[]): Promise<{
+    created: number;
+    skipped: number;
+    failed: number;
+  }> {
+    const counts = { created: 0, skipped: 0, failed: 0 };
+
+    // Trashed entries count as seen so deleting an article does not re-ingest it
+    const existing = await Article.find({
+      sourceId: source._id,
+      guid: { $in: entries.map(entry => entry.guid) },
+      deletedAt: ANY_DELETION_STATE
+    }).select('guid');
+    const seen = new Set(existing.map(article => article.guid));
+
+    for (const entry of entries) {
+      if (seen.has(entry.guid) || entry.content.length < MIN_CONTENT_LENGTH) {
+        counts.skipped++;
+        continue;
+      }
+      seen.add(entry.guid);
+
+      try {
+        const tags = new Set([...source.defaultTags, ...entry.categories]);
+        const duplicate = await this.duplicateDetection.findNearDuplicate(entry.content);
+
+        const article = await new Article({
+          title: entry.title.substring(0, 200),
+          content: entry.content,
+          author: (entry.author || source.title || 'Unknown').substring(0, 100),
+          summaryStatus: 'pending',
+          tags: [...tags],
+          url: entry.link,
+          guid: entry.guid,
+          sourceId: source._id,
+          publishedAt: entry.publishedAt,
+          status: 'published',
+          duplicateOf: duplicate?.canonicalId
+        }).save();
+
+        await this.summaryJobs.enqueue(article._id as Types.ObjectId, { reason: 'ingest' });
+
+        counts.created++;
+      } catch (error: any) {
+        if (error.code === 11000) {
+          counts.skipped++;
+        } else {
+          console.error(`Failed to ingest entry ${entry.guid} from ${source.feedUrl}:`, error);
+          counts.failed++;
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  private getErrorMessage(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status} - ${error.message}` : error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export class FeedPoller {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private readonly ingestionService: FeedIngestionService = new FeedIngestionService(),
+    private readonly tickIntervalMs: number = 60 * 1000
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.pollDueSources().catch(error => console.error('Feed polling failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async pollDueSources(now: Date = new Date()): Promise<IngestionResult[]> {
+    if (this.polling) {
+      return [];
+    }
+
+    this.polling = true;
+    try {
+      const dueSources = await Source.find({
+        status: 'active',
+        nextFetchAt: { $lte: now }
+      }).sort({ nextFetchAt: 1 });
+
+      const results: IngestionResult[] = [];
+      for (const source of dueSources) {
+        const result = await this.ingestionService.ingestSource(source);
+        if (result.status === 'failed') {
+          console.error(`Feed ${result.feedUrl} failed: ${result.error}`);
+        }
+        results.push(result);
+      }
+
+      return results;
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+export default FeedIngestionService;
@@ -0,0 +1,186 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export interface FeedEntry {
+  guid: string;
+  title: string;
+  link?: string;
+  author?: string;
+  content: string;
+  publishedAt?: Date;
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  title?: string;
+  siteUrl?: string;
+  entries: FeedEntry[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '...',
+  mdash: '-',
+  ndash: '-',
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"'
+};
+
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name) => HTML_ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+};
+
+export class FeedParser {
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => ['item', 'entry', 'link', 'category'].includes(name)
+  });
+
+  parse(xml: string): ParsedFeed {
+    let document: any;
+
+    try {
+      document = this.parser.parse(xml);
+    } catch (error) {
+      throw new Error(`Invalid feed XML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (document?.rss?.channel) {
+      return this.parseRss(document.rss.channel);
+    }
+
+    if (document?.feed) {
+      return this.parseAtom(document.feed);
+    }
+
+    throw new Error('Unsupported feed format: expected RSS 2.0 or Atom');
+  }
+
+  private parseRss(channel: any): ParsedFeed {
+    const items: any[] = channel.item || [];
+
+    const entries = items.map((item): FeedEntry | null => {
+      const link = this.text(item.link?.[0]);
+      const guid = this.text(item.guid) || link;
+      const body = this.text(item.encoded) || this.text(item.description);
+
+      if (!guid || !body) {
+        return null;
+      }
+
+      return {
+        guid,
+        title: htmlToText(this.text(item.title) || 'Untitled'),
+        link,
+        author: this.text(item.creator) || this.text(item.author),
+        content: htmlToText(body),
+        publishedAt: this.date(this.text(item.pubDate) || this.text(item.date)),
+        categories: this.categories(item.category)
+      };
+    });
+
+    return {
+      format: 'rss',
+      title: this.text(channel.title),
+      siteUrl: (channel.link || []).map((link: any) => this.text(link)).find(Boolean),
+      entries: entries.filter((entry): entry is FeedEntry => entry !== null)
+    };
+  }
+
+  private parseAtom(feed: any): ParsedFeed {
+    const entries: any[] = feed.entry || [];
+    const feedAuthor = this.text(feed.author?.name);
+
+    const parsed = entries.map((entry): FeedEntry | null => {
+      const link = this.atomLink(entry.link);
+      const guid = this.text(entry.id) || link;
+      const body = this.text(entry.content) || this.text(entry.summary);
+
+      if (!guid || !body) {
+        return null;
+      }
+
+      return {
+        guid,
+        title: htmlToText(this.text(entry.title) || 'Untitled'),
+        link,
+        author: this.text(entry.author?.name) || feedAuthor,
+        content: htmlToText(body),
+        publishedAt: this.date(this.text(entry.published) || this.text(entry.updated)),
+        categories: this.categories(entry.category)
+      };
+    });
+
+    return {
+      format: 'atom',
+      title: this.text(feed.title),
+      siteUrl: this.atomLink(feed.link),
+      entries: parsed.filter((entry): entry is FeedEntry => entry !== null)
+    };
+  }
+
+  private atomLink(links: any[] | undefined): string | undefined {
+    if (!links || links.length === 0) {
+      return undefined;
+    }
+
+    const alternate = links.find(link => !link['@_rel'] || link['@_rel'] === 'alternate') || links[0];
+    return this.text(alternate['@_href']) || this.text(alternate);
+  }
+
+  private categories(categories: any[] | undefined): string[] {
+    if (!categories) {
+      return [];
+    }
+
+    return categories
+      .map(category => this.text(category['@_term']) || this.text(category))
+      .filter((category): category is string => !!category)
+      .map(category => category.trim().toLowerCase());
+  }
+
+  private text(value: any): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value === 'object') {
+      return this.text(value['#text']);
+    }
+
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+  }
+
+  private date(value: string | undefined): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
+
+export default FeedParser;
@@ -0,0 +1,196 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import Source, { ISource } from '../models/Source';
+import { ValidationError } from '../utils/errors';
+
+export interface OpmlOutline {
+  title?: string;
+  feedUrl: string;
+  siteUrl?: string;
+  folders: string[];
+}
+
+export interface OpmlImportEntry {
+  title?: string;
+  feedUrl: string;
+  status: 'created' | 'duplicate' | 'invalid';
+  sourceId?: string;
+  tags?: string[];
+  reason?: string;
+}
+
+export interface OpmlImportResult {
+  total: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  entries: OpmlImportEntry[];
+}
+
+export class InvalidOpmlError extends ValidationError {
+  readonly code = 'invalid_opml';
+}
+
+export class OpmlService {
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    isArray: (name) => name === 'outline'
+  });
+
+  private readonly builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true,
+    suppressEmptyNode: true
+  });
+
+  parse(opml: string): OpmlOutline[] {
+    let document: any;
+
+    try {
+      document = this.parser.parse(opml);
+    } catch (error) {
+      throw new InvalidOpmlError(`Invalid OPML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!document?.opml?.body) {
+      throw new InvalidOpmlError('Invalid OPML: missing <opml><body> element');
+    }
+
+    const outlines: OpmlOutline[] = [];
+    this.collectOutlines(document.opml.body.outline || [], [], outlines);
+    return outlines;
+  }
+
+  async importOpml(opml: string): Promise<OpmlImportResult> {
+    const outlines = this.parse(opml);
+
+    const existing = await Source.find({
+      feedUrl: { $in: outlines.map(outline => outline.feedUrl.trim()) }
+    }).select('feedUrl');
+    const knownUrls = new Set(existing.map(source => source.feedUrl));
+
+    const entries: OpmlImportEntry[] = [];
+
+    for (const outline of outlines) {
+      const feedUrl = outline.feedUrl.trim();
+      const entry: OpmlImportEntry = { title: outline.title, feedUrl, status: 'created' };
+
+      if (!this.isValidFeedUrl(feedUrl)) {
+        entries.push({ ...entry, status: 'invalid', reason: 'Feed URL must be an absolute http(s) URL' });
+        continue;
+      }
+
+      if (knownUrls.has(feedUrl)) {
+        entries.push({ ...entry, status: 'duplicate', reason: 'Feed is already subscribed' });
+        continue;
+      }
+
+      try {
+        const source = await new Source({
+          title: outline.title,
+          feedUrl,
+          siteUrl: outline.siteUrl,
+          defaultTags: outline.folders
+        }).save();
+
+        knownUrls.add(feedUrl);
+        entries.push({ ...entry, sourceId: String(source._id), tags: source.defaultTags });
+      } catch (error: any) {
+        if (error.code === 11000) {
+          knownUrls.add(feedUrl);
+          entries.push({ ...entry, status: 'duplicate', reason: 'Feed is already subscribed' });
+        } else {
+          entries.push({ ...entry, status: 'invalid', reason: error.message });
+        }
+      }
+    }
+
+    return {
+      total: entries.length,
+      created: entries.filter(entry => entry.status === 'created').length,
+      duplicates: entries.filter(entry => entry.status === 'duplicate').length,
+      invalid: entries.filter(entry => entry.status === 'invalid').length,
+      entries
+    };
+  }
+
+  async exportOpml(title: string = 'Smart Content Aggregator subscriptions'): Promise<string> {
+    const sources = await Source.find().sort({ title: 1, feedUrl: 1 });
+
+    const root: any[] = [];
+    sources.forEach(source => this.folderFor(root, source.defaultTags).push(this.toOutline(source)));
+
+    return this.builder.build({
+      '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+      opml: {
+        '@_version': '2.0',
+        head: {
+          title,
+          dateCreated: new Date().toUTCString()
+        },
+        body: { outline: root }
+      }
+    });
+  }
+
+  private collectOutlines(nodes: any[], folders: string[], outlines: OpmlOutline[]): void {
+    for (const node of nodes) {
+      const label = node['@_title'] || node['@_text'];
+      const feedUrl = node['@_xmlUrl'];
+
+      if (feedUrl !== undefined) {
+        outlines.push({
+          title: label,
+          feedUrl: String(feedUrl),
+          siteUrl: node['@_htmlUrl'],
+          folders
+        });
+        continue;
+      }
+
+      if (node.outline) {
+        const folder = String(label || '').trim().toLowerCase();
+        this.collectOutlines(node.outline, folder ? [...folders, folder] : folders, outlines);
+      }
+    }
+  }
+
+  private folderFor(root: any[], tags: string[]): any[] {
+    let level = root;
+
+    for (const tag of tags) {
+      let folder = level.find(node => node['@_text'] === tag && !node['@_xmlUrl']);
+      if (!folder) {
+        folder = { '@_text': tag, '@_title': tag, outline: [] };
+        level.push(folder);
+      }
+      level = folder.outline;
+    }
+
+    return level;
+  }
+
+  private toOutline(source: ISource): any {
+    const label = source.title || source.feedUrl;
+
+    return {
+      '@_type': 'rss',
+      '@_text': label,
+      '@_title': label,
+      '@_xmlUrl': source.feedUrl,
+      ...(source.siteUrl && { '@_htmlUrl': source.siteUrl })
+    };
+  }
+
+  private isValidFeedUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default OpmlService;
@@ -0,0 +1,161 @@
+import Article, { ArticleStatus, IArticle } from '../models/Article';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+export const ALLOWED_TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  draft: ['in_review', 'archived'],
+  in_review: ['draft', 'scheduled', 'published'],
+  scheduled: ['draft', 'in_review', 'published'],
+  published: ['archived'],
+  archived: ['draft']
+};
+
+/** Transitions an article's author may make without `articles:publish`: submitting a draft for review. */
+export const AUTHOR_TRANSITIONS: Partial<Record<ArticleStatus, ArticleStatus[]>> = {
+  draft: ['in_review']
+};
+
+export class InvalidTransitionError extends ConflictError {
+  readonly code = 'invalid_transition';
+
+  constructor(
+    readonly from: ArticleStatus,
+    readonly to: ArticleStatus
+  ) {
+    super(`Cannot move an article from ${from} to ${to}`);
+  }
+
+  get allowed(): ArticleStatus[] {
+    return ALLOWED_TRANSITIONS[this.from];
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return { from: this.from, to: this.to, allowed: this.allowed };
+  }
+}
+
+export class InvalidScheduleError extends ValidationError {
+  readonly code = 'invalid_schedule';
+}
+
+export class PublishingService {
+  canTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+  }
+
+  isAuthorTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+    return AUTHOR_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Moves an article to a new workflow state. The update is conditional on
+   * the status the article was read with, so two editors racing on the same
+   * article cannot both succeed.
+   */
+  async transition(article: IArticle, to: ArticleStatus, publishAt?: Date, now: Date = new Date()): Promise<IArticle | null> {
+    const from = article.status;
+
+    if (!this.canTransition(from, to)) {
+      throw new InvalidTransitionError(from, to);
+    }
+
+    const update: any = { $set: { status: to } };
+
+    if (to === 'scheduled') {
+      if (!publishAt || isNaN(publishAt.getTime())) {
+        throw new InvalidScheduleError('publishAt is required to schedule an article');
+      }
+      if (publishAt <= now) {
+        throw new InvalidScheduleError('publishAt must be in the future');
+      }
+      update.$set.publishAt = publishAt;
+    } else {
+      update.$unset = { publishAt: 1 };
+    }
+
+    if (to === 'published' && !article.publishedAt) {
+      update.$set.publishedAt = now;
+    }
+
+    return Article.findOneAndUpdate(
+      { _id: article._id, status: from },
+      update,
+      { new: true }
+    ).select('-__v');
+  }
+
+  async publishDue(now: Date = new Date()): Promise<number> {
+    const due = await Article.find({ status: 'scheduled', publishAt: { $lte: now } }).select('_id publishAt publishedAt');
+    let published = 0;
+
+    for (const article of due) {
+      const result = await Article.updateOne(
+        { _id: article._id, status: 'scheduled' },
+        {
+          $set: { status: 'published', publishedAt: article.publishedAt || article.publishAt },
+          $unset: { publishAt: 1 }
+        }
+      );
+      published += result.modifiedCount;
+    }
+
+    return published;
+  }
+
+  /**
+   * Articles stored before the workflow existed have no status and were
+   * already visible, so they are marked published.
+   */
+  async backfillLegacyStatus(): Promise<number> {
+    const result = await Article.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: 'published' } }
+    );
+    return result.modifiedCount;
+  }
+}
+
+export class PublishScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly publishingService: PublishingService = new PublishingService(),
+    private readonly tickIntervalMs: number = 30 * 1000
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Scheduled publishing failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const published = await this.publishingService.publishDue(now);
+      if (published > 0) {
+        console.log(`Published ${published} scheduled article(s)`);
+      }
+      return published;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default PublishingService;
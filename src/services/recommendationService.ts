@@ -1,7 +1,8 @@
 import mongoose from 'mongoose';
-import Article, { IArticle } from '../models/Article';
+import Article, { IArticle, PUBLISHED_FILTER } from '../models/Article';
 import User, { IUser } from '../models/User';
 import Interaction, { IInteraction } from '../models/Interaction';
+import { NotFoundError } from '../utils/errors';
 
 export interface RecommendationScore {
   article: IArticle;
@@ -13,13 +14,14 @@ export class RecommendationService {
   async getRecommendations(userId: string, limit: number = 10): Promise<RecommendationScore[]> {
     const user = await User.findById(userId);
     if (!user) {
-      throw new Error('User not found');
+      throw new NotFoundError('User not found');
     }
 
     const userInteractions = await Interaction.find({ userId }).select('articleId');
     const interactedArticleIds = userInteractions.map(interaction => interaction.articleId);
 
     const candidateArticles = await Article.find({
+      ...PUBLISHED_FILTER,
       _id: { $nin: interactedArticleIds }
     }).limit(limit * 2);
 
@@ -129,7 +131,7 @@ export class RecommendationService {
   }
 
   private async calculateAuthorScore(author: string): Promise<number> {
-    const authorArticles = await Article.find({ author }).limit(10);
+    const authorArticles = await Article.find({ ...PUBLISHED_FILTER, author }).limit(10);
     
     if (authorArticles.length === 0) {
       return 0.5;
@@ -158,10 +160,20 @@ export class RecommendationService {
         }
       },
       { $sort: { likeCount: -1, interactionCount: -1 } },
+      {
+        $lookup: {
+          from: 'articles',
+          localField: '_id',
+          foreignField: '_id',
+          pipeline: [{ $match: { ...PUBLISHED_FILTER, deletedAt: null } }, { $project: { _id: 1 } }],
+          as: 'article'
+        }
+      },
+      { $match: { article: { $ne: [] } } },
       { $limit: limit }
     ]);
 
     const articleIds = trending.map(item => item._id);
-    return await Article.find({ _id: { $in: articleIds } });
+    return await Article.find({ ...PUBLISHED_FILTER, _id: { $in: articleIds } });
   }
 }
\ No newline at end of file
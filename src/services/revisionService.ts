@@ -0,0 +1,133 @@
+import { ClientSession, Types } from 'mongoose';
+import Article, { IArticle } from '../models/Article';
+import ArticleRevision, { IArticleRevision, REVISIONED_FIELDS, RevisionedField } from '../models/ArticleRevision';
+import { NotFoundError } from '../utils/errors';
+import { diffWords, WordDiff } from '../utils/wordDiff';
+
+export const ANONYMOUS_EDITOR = 'anonymous';
+
+export interface RevisionOptions {
+  editedBy?: string;
+  reason: IArticleRevision['reason'];
+  restoredFrom?: number;
+}
+
+export interface RevisionComparison {
+  from: number;
+  to: number;
+  changedFields: RevisionedField[];
+  fields: Partial<Record<RevisionedField, WordDiff>>;
+}
+
+export class RevisionService {
+  /**
+   * Stores the article's current state as the next revision. Updates that
+   * leave every tracked field unchanged do not create a revision. Pass the
+   * session of the transaction that wrote the article, so the article and its
+   * revision are saved together.
+   */
+  async recordRevision(article: IArticle, options: RevisionOptions, session?: ClientSession): Promise<IArticleRevision | null> {
+    const previous = await this.latest(article._id as Types.ObjectId, session);
+    const changedFields = previous ? this.changedFields(previous, article) : [...REVISIONED_FIELDS];
+
+    if (previous && changedFields.length === 0 && options.reason === 'update') {
+      return null;
+    }
+
+    const [revision] = await ArticleRevision.create([{
+      articleId: article._id,
+      revision: await this.nextRevision(article._id as Types.ObjectId, session),
+      ...this.snapshot(article),
+      changedFields,
+      editedBy: options.editedBy || ANONYMOUS_EDITOR,
+      reason: options.reason,
+      restoredFrom: options.restoredFrom
+    }], { session });
+    return revision;
+  }
+
+  /**
+   * Articles written before revision tracking have no history; their current
+   * state is stored as revision 1 before the first change is recorded.
+   */
+  async ensureBaseline(article: IArticle, session?: ClientSession): Promise<void> {
+    const exists = await ArticleRevision.exists({ articleId: article._id }).session(session || null);
+    if (!exists) {
+      await ArticleRevision.create([{
+        articleId: article._id,
+        revision: 1,
+        ...this.snapshot(article),
+        changedFields: [...REVISIONED_FIELDS],
+        editedBy: ANONYMOUS_EDITOR,
+        reason: 'create',
+        createdAt: article.createdAt
+      }], { session });
+      await Article.updateOne({ _id: article._id }, { $max: { revisionCount: 1 } }, { session, timestamps: false });
+    }
+  }
+
+  async listRevisions(articleId: string): Promise<IArticleRevision[]> {
+    return ArticleRevision.find({ articleId })
+      .sort({ revision: -1 })
+      .select('-content -summary -__v');
+  }
+
+  async getRevision(articleId: string, revision: number): Promise<IArticleRevision | null> {
+    return ArticleRevision.findOne({ articleId, revision }).select('-__v');
+  }
+
+  compare(from: IArticleRevision, to: IArticleRevision): RevisionComparison {
+    const fields: RevisionComparison['fields'] = {};
+    const changedFields: RevisionedField[] = [];
+
+    REVISIONED_FIELDS.forEach(field => {
+      const before = this.fieldText(from, field);
+      const after = this.fieldText(to, field);
+      if (before !== after) {
+        changedFields.push(field);
+        fields[field] = diffWords(before, after);
+      }
+    });
+
+    return { from: from.revision, to: to.revision, changedFields, fields };
+  }
+
+  private async latest(articleId: Types.ObjectId, session?: ClientSession): Promise<IArticleRevision | null> {
+    return ArticleRevision.findOne({ articleId }).sort({ revision: -1 }).session(session || null);
+  }
+
+  private async nextRevision(articleId: Types.ObjectId, session?: ClientSession): Promise<number> {
+    const counter = await Article.findByIdAndUpdate(
+      articleId,
+      { $inc: { revisionCount: 1 } },
+      { new: true, session, timestamps: false }
+    ).select('revisionCount');
+
+    if (!counter) {
+      throw new NotFoundError('Article not found');
+    }
+    return counter.revisionCount!;
+  }
+
+  private snapshot(article: IArticle): Pick<IArticleRevision, RevisionedField> {
+    return {
+      title: article.title,
+      content: article.content,
+      author: article.author,
+      summary: article.summary,
+      tags: [...(article.tags || [])]
+    };
+  }
+
+  private changedFields(previous: IArticleRevision, article: IArticle): RevisionedField[] {
+    const current = this.snapshot(article);
+    return REVISIONED_FIELDS.filter(field => this.fieldText(previous, field) !== this.fieldText(current, field));
+  }
+
+  private fieldText(source: Pick<IArticleRevision, RevisionedField>, field: RevisionedField): string {
+    const value = source[field];
+    return Array.isArray(value) ? value.join(' ') : value || '';
+  }
+}
+
+export default RevisionService;
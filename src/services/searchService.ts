@@ -0,0 +1,221 @@
+import natural from 'natural';
+import { escapeRegex } from '../utils/regex';
+import { STOP_WORDS } from './summaryService';
+
+export const SEARCH_FIELD_WEIGHTS = {
+  title: 10,
+  summary: 5,
+  author: 3,
+  content: 1
+};
+
+type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+const MAX_QUERY_PARTS = 20;
+const SNIPPET_LENGTH = 200;
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  prefixes: string[];
+  excluded: string[];
+}
+
+export interface SearchHighlights {
+  title?: string;
+  summary?: string;
+  content?: string;
+}
+
+export interface SearchableDocument {
+  title: string;
+  summary?: string;
+  author: string;
+  content: string;
+}
+
+export class SearchService {
+  private readonly stemmer = natural.PorterStemmer;
+
+  parse(query: string): ParsedSearchQuery {
+    const parsed: ParsedSearchQuery = { terms: [], phrases: [], prefixes: [], excluded: [] };
+    const pattern = /(-?)"([^"]*)"|(-?)(\S+)/g;
+    let match: RegExpExecArray | null;
+    let parts = 0;
+
+    while ((match = pattern.exec(query)) !== null && parts < MAX_QUERY_PARTS) {
+      parts++;
+
+      if (match[2] !== undefined) {
+        const phrase = this.clean(match[2]);
+        if (!phrase) continue;
+        (match[1] ? parsed.excluded : parsed.phrases).push(phrase);
+        continue;
+      }
+
+      const negated = !!match[3];
+      const raw = match[4];
+      const isPrefix = raw.endsWith('*');
+      const word = this.clean(raw);
+
+      if (!word) continue;
+
+      if (negated) {
+        parsed.excluded.push(word);
+      } else if (isPrefix && !word.includes(' ')) {
+        parsed.prefixes.push(word);
+      } else {
+        parsed.terms.push(...word.split(' ').filter(term => term.length > 1 && !STOP_WORDS.has(term)));
+      }
+    }
+
+    return parsed;
+  }
+
+  isEmpty(parsed: ParsedSearchQuery): boolean {
+    return parsed.terms.length === 0
+      && parsed.phrases.length === 0
+      && parsed.prefixes.length === 0
+      && parsed.excluded.length === 0;
+  }
+
+  /**
+   * Builds the MongoDB filter for a parsed query. Terms and phrases go through
+   * the weighted text index; prefix and exclusion-only clauses fall back to
+   * escaped regular expressions because $text cannot express them.
+   */
+  buildFilter(parsed: ParsedSearchQuery): { filter: any; usesTextIndex: boolean } {
+    const filter: any = {};
+    const conditions: any[] = [];
+    const usesTextIndex = parsed.terms.length > 0 || parsed.phrases.length > 0;
+
+    if (usesTextIndex) {
+      filter.$text = {
+        $search: [
+          ...parsed.terms,
+          ...parsed.phrases.map(phrase => `"${phrase}"`),
+          ...parsed.excluded.map(excluded => excluded.includes(' ') ? `-"${excluded}"` : `-${excluded}`)
+        ].join(' ')
+      };
+    } else if (parsed.excluded.length > 0) {
+      conditions.push({
+        $nor: parsed.excluded.flatMap(excluded => this.fieldConditions(`\\b${escapeRegex(excluded)}\\b`))
+      });
+    }
+
+    parsed.prefixes.forEach(prefix => {
+      conditions.push({ $or: this.fieldConditions(`\\b${escapeRegex(prefix)}`) });
+    });
+
+    if (conditions.length > 0) {
+      filter.$and = conditions;
+    }
+
+    return { filter, usesTextIndex };
+  }
+
+  /**
+   * In-process relevance used when the text index cannot provide a score.
+   */
+  score(document: SearchableDocument, parsed: ParsedSearchQuery): number {
+    const pattern = this.highlightPattern(parsed);
+    if (!pattern) return 0;
+
+    let score = 0;
+    (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      const value = document[field] || '';
+      const matches = value.match(pattern)?.length || 0;
+      score += matches * SEARCH_FIELD_WEIGHTS[field];
+    });
+
+    return Math.round((score / Math.log2(2 + document.content.length / 500)) * 100) / 100;
+  }
+
+  highlight(document: SearchableDocument, parsed: ParsedSearchQuery): SearchHighlights {
+    const pattern = this.highlightPattern(parsed);
+    const highlights: SearchHighlights = {};
+    if (!pattern) return highlights;
+
+    if (this.matches(document.title, pattern)) {
+      highlights.title = this.mark(document.title, pattern);
+    }
+
+    if (document.summary && this.matches(document.summary, pattern)) {
+      highlights.summary = this.mark(document.summary, pattern);
+    }
+
+    const contentSnippet = this.snippet(document.content, pattern);
+    if (contentSnippet) {
+      highlights.content = contentSnippet;
+    }
+
+    return highlights;
+  }
+
+  private snippet(text: string, pattern: RegExp): string | undefined {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    if (!match) return undefined;
+
+    let start = Math.max(0, match.index - SNIPPET_LENGTH / 3);
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < match.index ? space + 1 : start;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > match.index + match[0].length ? space : end;
+    }
+
+    return `${start > 0 ? '…' : ''}${this.mark(text.substring(start, end), pattern)}${end < text.length ? '…' : ''}`;
+  }
+
+  private mark(text: string, pattern: RegExp): string {
+    pattern.lastIndex = 0;
+    return this.escapeHtml(text).replace(pattern, matched => `<mark>${matched}</mark>`);
+  }
+
+  private matches(text: string, pattern: RegExp): boolean {
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+  }
+
+  private highlightPattern(parsed: ParsedSearchQuery): RegExp | null {
+    const alternatives = [
+      ...parsed.phrases.map(phrase => phrase.split(' ').map(escapeRegex).join('\\s+')),
+      ...parsed.terms.map(term => `${escapeRegex(this.stemmer.stem(term))}\\w*`),
+      ...parsed.prefixes.map(prefix => `${escapeRegex(prefix)}\\w*`)
+    ];
+
+    if (alternatives.length === 0) {
+      return null;
+    }
+
+    return new RegExp(`\\b(?:${alternatives.join('|')})`, 'gi');
+  }
+
+  private fieldConditions(pattern: string): any[] {
+    return (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).map(field => ({
+      [field]: { $regex: pattern, $options: 'i' }
+    }));
+  }
+
+  private clean(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+export default SearchService;
@@ -0,0 +1,172 @@
+import SummaryCacheEntry from '../models/SummaryCacheEntry';
+import { contentHash } from '../utils/contentHash';
+import { SummaryConfig } from './summaryProviders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A provider as currently configured; a cached summary is only reused for the same provider and model. */
+export interface SummaryCacheCandidate {
+  provider: string;
+  model: string;
+}
+
+export interface CachedSummary {
+  summary: string;
+  provider: string;
+  /** The model that answered when the entry was written. */
+  model: string;
+  generatedAt: Date;
+}
+
+export interface SummaryCacheFilter {
+  provider?: string;
+  model?: string;
+  contentHash?: string;
+}
+
+export interface SummaryCacheStats {
+  enabled: boolean;
+  ttlDays: number;
+  /** Lookups since the process started that found an entry. */
+  hits: number;
+  /** Lookups since the process started that found none, so a provider was called. */
+  misses: number;
+  hitRate: number;
+  entries: number;
+  providers: Record<string, { hits: number; entries: number }>;
+}
+
+/** Canonical form of the options that shape a summary; the model is keyed separately. */
+export const summaryConfigKey = (config: SummaryConfig): string =>
+  Object.entries(config)
+    .filter(([key, value]) => key !== 'model' && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+/**
+ * Stores AI summaries in MongoDB keyed by normalized-content hash, provider,
+ * model and summary options, so re-ingested feeds, repeated regeneration and
+ * duplicate articles do not pay for the same provider call twice. Hit and
+ * miss counts are kept per process.
+ */
+export class SummaryCacheService {
+  private hits = 0;
+  private misses = 0;
+  private readonly providerHits = new Map<string, number>();
+  private readonly ttlDays: number;
+
+  constructor(
+    ttlDays: number = Number(process.env.SUMMARY_CACHE_TTL_DAYS) || 30,
+    private readonly enabled: boolean = process.env.SUMMARY_CACHE_ENABLED !== 'false'
+  ) {
+    this.ttlDays = Math.max(ttlDays, 1);
+  }
+
+  /**
+   * Returns the cached summary from the first candidate, in fallback order,
+   * that has one for this content and these options.
+   */
+  async lookup(content: string, candidates: SummaryCacheCandidate[], config: SummaryConfig): Promise<CachedSummary | null> {
+    if (!this.enabled || candidates.length === 0) {
+      return null;
+    }
+
+    const entries = await SummaryCacheEntry.find({
+      contentHash: contentHash(content),
+      configKey: summaryConfigKey(config),
+      expiresAt: { $gt: new Date() },
+      $or: candidates.map(({ provider, model }) => ({ provider, configuredModel: model }))
+    });
+
+    const entry = candidates
+      .map(({ provider, model }) => entries.find(cached => cached.provider === provider && cached.configuredModel === model))
+      .find(cached => cached !== undefined);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    this.providerHits.set(entry.provider, (this.providerHits.get(entry.provider) ?? 0) + 1);
+    await SummaryCacheEntry.updateOne({ _id: entry._id }, { $inc: { hits: 1 }, lastHitAt: new Date() });
+
+    return {
+      summary: entry.summary,
+      provider: entry.provider,
+      model: entry.generatedModel,
+      generatedAt: entry.generatedAt
+    };
+  }
+
+  /** Records a provider's summary, replacing any entry with the same key and restarting its TTL. */
+  async store(
+    content: string,
+    { provider, model }: SummaryCacheCandidate,
+    config: SummaryConfig,
+    summary: string,
+    generatedModel: string
+  ): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const now = new Date();
+    await SummaryCacheEntry.updateOne(
+      { contentHash: contentHash(content), provider, configuredModel: model, configKey: summaryConfigKey(config) },
+      {
+        summary,
+        generatedModel,
+        generatedAt: now,
+        hits: 0,
+        expiresAt: new Date(now.getTime() + this.ttlDays * DAY_MS),
+        $unset: { lastHitAt: 1 }
+      },
+      { upsert: true }
+    );
+  }
+
+  /** Removes every entry, or those matching a provider, model or content hash. */
+  async invalidate(filter: SummaryCacheFilter = {}): Promise<number> {
+    const { provider, model, contentHash: hash } = filter;
+    const result = await SummaryCacheEntry.deleteMany({
+      ...(provider && { provider }),
+      ...(model && { configuredModel: model }),
+      ...(hash && { contentHash: hash })
+    });
+    return result.deletedCount;
+  }
+
+  async stats(): Promise<SummaryCacheStats> {
+    const counts = await SummaryCacheEntry.aggregate<{ _id: string; entries: number }>([
+      { $match: { expiresAt: { $gt: new Date() } } },
+      { $group: { _id: '$provider', entries: { $sum: 1 } } }
+    ]);
+
+    const providers: SummaryCacheStats['providers'] = {};
+    counts.forEach(({ _id, entries }) => {
+      providers[_id] = { hits: 0, entries };
+    });
+    this.providerHits.forEach((hits, provider) => {
+      providers[provider] = { hits, entries: providers[provider]?.entries ?? 0 };
+    });
+
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.enabled,
+      ttlDays: this.ttlDays,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      entries: counts.reduce((total, { entries }) => total + entries, 0),
+      providers
+    };
+  }
+}
+
+/** Shared by every SummaryService in the process, so its counts cover requests and background jobs alike. */
+export const summaryCacheService = new SummaryCacheService();
+
+export default SummaryCacheService;
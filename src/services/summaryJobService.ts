@@ -0,0 +1,195 @@
+import { Types } from 'mongoose';
+import Article, { IArticle } from '../models/Article';
+import SummaryJob, { ISummaryJob, SummaryJobReason, SummaryJobStatus } from '../models/SummaryJob';
+import { ArticleSummary, SummaryService } from './summaryService';
+
+// A running job not finished within this long is assumed lost with its worker and may be claimed again.
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface EnqueueOptions {
+  reason: SummaryJobReason;
+  maxSentences?: number;
+}
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+export class SummaryJobService {
+  constructor(
+    private readonly summaryService: SummaryService = new SummaryService(),
+    private readonly maxAttempts: number = Number(process.env.SUMMARY_JOB_MAX_ATTEMPTS) || 3,
+    private readonly retryDelayMs: number = Number(process.env.SUMMARY_JOB_RETRY_DELAY_MS) || 30 * 1000
+  ) {}
+
+  /**
+   * Queues summary generation for an article and marks its summary pending.
+   * An article that already has a job waiting gets that job back, restarted,
+   * instead of a second one.
+   */
+  async enqueue(articleId: Types.ObjectId | string, { reason, maxSentences = 3 }: EnqueueOptions): Promise<ISummaryJob> {
+    await Article.updateOne({ _id: articleId }, { summaryStatus: 'pending' });
+
+    const waiting = await SummaryJob.findOneAndUpdate(
+      { articleId, status: 'pending' },
+      { maxSentences, attempts: 0, runAt: new Date(), $unset: { lastError: 1 } },
+      { new: true }
+    );
+
+    return waiting ?? SummaryJob.create({ articleId, reason, maxSentences, maxAttempts: this.maxAttempts });
+  }
+
+  /** Cancels waiting jobs for an article whose summary was just set some other way. */
+  async cancelPending(articleId: Types.ObjectId | string, reason: string): Promise<number> {
+    const result = await SummaryJob.updateMany(
+      { articleId, status: 'pending' },
+      { status: 'cancelled', lastError: reason, completedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  /** Atomically takes the oldest due job, or one whose worker went away. */
+  async claimNext(now: Date = new Date()): Promise<ISummaryJob | null> {
+    return SummaryJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', runAt: { $lte: now } },
+          { status: 'running', lockedAt: { $lte: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }
+        ]
+      },
+      { status: 'running', lockedAt: now, $inc: { attempts: 1 } },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Generates and stores the summary for a claimed job. When every AI
+   * provider failed, the extractive result is stored straight away and the
+   * job retried with backoff until its attempts run out.
+   */
+  async run(job: ISummaryJob): Promise<ISummaryJob> {
+    const article = await Article.findById(job.articleId);
+
+    if (!article) {
+      return this.finish(job, 'cancelled', 'Article no longer exists');
+    }
+
+    let generated: ArticleSummary;
+    try {
+      generated = await this.summaryService.generateSummaryForArticle(article.content, undefined, job.maxSentences);
+    } catch (error) {
+      return this.retryOrFail(job, article, errorMessage(error));
+    }
+
+    const retryForAI = generated.provenance.method === 'extractive'
+      && job.attempts < job.maxAttempts
+      && this.summaryService.hasAIProviders();
+
+    const stored = await this.store(article, generated, retryForAI ? 'pending' : 'ready');
+
+    if (!stored) {
+      return this.finish(job, 'cancelled', 'The summary was set while the job was queued');
+    }
+
+    if (retryForAI) {
+      return this.reschedule(job, 'Every AI provider failed; the extractive summary is stored meanwhile');
+    }
+
+    job.result = {
+      provider: generated.provenance.provider,
+      model: generated.provenance.model,
+      method: generated.provenance.method
+    };
+    return this.finish(job, 'completed');
+  }
+
+  private async retryOrFail(job: ISummaryJob, article: IArticle, message: string): Promise<ISummaryJob> {
+    if (job.attempts < job.maxAttempts) {
+      return this.reschedule(job, message);
+    }
+
+    await this.store(article, this.summaryService.truncatedSummary(article.content), 'failed');
+    return this.finish(job, 'failed', message);
+  }
+
+  // Only articles still waiting on a job are written, so a summary set meanwhile is never overwritten.
+  private async store(article: IArticle, { summary, provenance }: ArticleSummary, summaryStatus: 'pending' | 'ready' | 'failed'): Promise<boolean> {
+    const result = await Article.updateOne(
+      { _id: article._id, summaryStatus: 'pending' },
+      { summary, summaryProvenance: provenance, summaryStatus }
+    );
+    return result.matchedCount > 0;
+  }
+
+  private async reschedule(job: ISummaryJob, message: string): Promise<ISummaryJob> {
+    job.status = 'pending';
+    job.runAt = new Date(Date.now() + this.retryDelayMs * 2 ** (job.attempts - 1));
+    job.lockedAt = undefined;
+    job.lastError = message;
+    return job.save();
+  }
+
+  private async finish(job: ISummaryJob, status: SummaryJobStatus, message?: string): Promise<ISummaryJob> {
+    job.status = status;
+    job.completedAt = new Date();
+    job.lockedAt = undefined;
+    job.lastError = message;
+    return job.save();
+  }
+}
+
+export class SummaryWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly jobService: SummaryJobService = new SummaryJobService(),
+    private readonly concurrency: number = Number(process.env.SUMMARY_WORKER_CONCURRENCY) || 2,
+    private readonly tickIntervalMs: number = 5 * 1000
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Summary job processing failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Runs due jobs `concurrency` at a time until the queue has nothing due. */
+  async tick(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      let processed = 0;
+
+      while (true) {
+        const claimed = await Promise.all(Array.from({ length: this.concurrency }, () => this.jobService.claimNext()));
+        const jobs = claimed.filter((job): job is ISummaryJob => job !== null);
+
+        await Promise.all(jobs.map(job =>
+          this.jobService.run(job).catch(error => console.error(`Summary job ${job._id} failed:`, error))
+        ));
+        processed += jobs.length;
+
+        if (jobs.length < this.concurrency) {
+          return processed;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default SummaryJobService;
@@ -0,0 +1,491 @@
+import axios from 'axios';
+import { Semaphore } from '../utils/semaphore';
+
+export interface SummaryConfig {
+  maxSentences?: number;
+  maxTokens?: number;
+  temperature?: number;
+  model?: string;
+  maxLength?: number;
+}
+
+export interface ProviderSummary {
+  summary: string;
+  /** The model that actually produced the summary, which may differ from the one requested. */
+  model: string;
+}
+
+/**
+ * A summarization backend. Providers are registered by name and tried in the
+ * order configured by `SUMMARY_PROVIDERS`; `AISummaryService` only sees this
+ * interface.
+ */
+export interface SummaryProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Why the provider cannot be called, such as a missing API key, or null when it is configured. */
+  unavailableReason(): string | null;
+  summarize(content: string, config: SummaryConfig): Promise<ProviderSummary>;
+}
+
+export interface SummaryProviderSettings {
+  name: string;
+  model?: string;
+  /** Most calls in flight at once across the process. */
+  concurrency?: number;
+}
+
+export interface ResolvedSummaryProvider {
+  provider: SummaryProvider;
+  model: string;
+  limit: Semaphore;
+}
+
+interface HuggingFaceResponse {
+  summary_text: string;
+}
+
+interface OpenAIResponse {
+  choices: Array<{
+    message: { content: string };
+  }>;
+}
+
+interface OllamaResponse {
+  response: string;
+  done: boolean;
+}
+
+interface CohereResponse {
+  summary: string;
+}
+
+export const cleanSummary = (summary: string): string => {
+  return summary
+    .replace(/^\[.*?\]\s*/, '')
+    .replace(/^(summary|summary:)\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^["']|["']$/g, '')
+    .trim();
+};
+
+export const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const message = error.response?.data?.error?.message || error.message;
+    return `HTTP ${status} - ${message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const requireSummary = (summary: string | undefined, source: string): string => {
+  if (!summary || summary.length < 10) {
+    throw new Error(`Invalid response from ${source}`);
+  }
+  return cleanSummary(summary);
+};
+
+export class OllamaProvider implements SummaryProvider {
+  readonly name = 'ollama';
+  readonly defaultModel = 'llama2';
+
+  constructor(private readonly baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434') {}
+
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  async summarize(content: string, config: SummaryConfig): Promise<ProviderSummary> {
+    const { model = this.defaultModel, maxLength = 150 } = config;
+
+    try {
+      const prompt = `Please provide a concise summary of the following text in 2-3 sentences. Focus on the main points and key insights:
+
+${content.substring(0, 2000)}${content.length > 2000 ? '...' : ''}
+
+Summary:`;
+
+      const response = await axios.post<OllamaResponse>(
+        `${this.baseUrl}/api/generate`,
+        {
+          model,
+          prompt,
+          stream: false,
+          options: {
+            temperature: 0.3,
+            top_p: 0.9,
+            num_predict: maxLength
+          }
+        },
+        {
+          timeout: 60000,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+
+      return { summary: requireSummary(response.data.response?.trim(), 'Ollama'), model };
+    } catch (error) {
+      throw new Error(`Ollama error: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+export class CohereProvider implements SummaryProvider {
+  readonly name = 'cohere';
+  readonly defaultModel = 'command-light';
+
+  constructor(private readonly apiKey: string = process.env.COHERE_API_KEY || '') {}
+
+  unavailableReason(): string | null {
+    return this.apiKey ? null : 'API key not provided';
+  }
+
+  async summarize(content: string, config: SummaryConfig): Promise<ProviderSummary> {
+    const { model = this.defaultModel, maxLength = 150 } = config;
+
+    try {
+      const response = await axios.post<CohereResponse>(
+        'https://api.cohere.ai/v1/summarize',
+        {
+          text: content.substring(0, 100000),
+          length: maxLength < 100 ? 'short' : maxLength < 200 ? 'medium' : 'long',
+          format: 'paragraph',
+          model,
+          extractiveness: 'low',
+          temperature: 0.3
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 30000
+        }
+      );
+
+      return { summary: requireSummary(response.data.summary?.trim(), 'Cohere'), model };
+    } catch (error) {
+      throw new Error(`Cohere error: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+export class HuggingFaceProvider implements SummaryProvider {
+  readonly name = 'huggingface';
+  readonly defaultModel = 'sshleifer/distilbart-cnn-12-6';
+
+  // Models on the free inference tier, tried in turn when the requested one fails.
+  private readonly freeModels: Record<string, { maxLength: number; minLength: number }> = {
+    'sshleifer/distilbart-cnn-12-6': { maxLength: 1024, minLength: 30 },
+    't5-small': { maxLength: 512, minLength: 20 }
+  };
+
+  constructor(private readonly apiKey: string = process.env.HUGGINGFACE_API_KEY || '') {}
+
+  unavailableReason(): string | null {
+    return this.apiKey ? null : 'API key not provided';
+  }
+
+  async summarize(content: string, config: SummaryConfig): Promise<ProviderSummary> {
+    const { model = this.defaultModel } = config;
+
+    const freeModels = Object.keys(this.freeModels);
+    const modelsToTry = freeModels.includes(model) ? [model, ...freeModels.filter(m => m !== model)] : freeModels;
+
+    for (const currentModel of modelsToTry) {
+      try {
+        const limits = this.freeModels[currentModel];
+
+        const response = await axios.post<HuggingFaceResponse[]>(
+          `https://api-inference.huggingface.co/models/${currentModel}`,
+          {
+            inputs: this.truncateContent(content, 1000),
+            parameters: {
+              max_length: Math.min(limits.maxLength, 200),
+              min_length: Math.min(limits.minLength, 30),
+              do_sample: false,
+              early_stopping: true
+            }
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${this.apiKey}`,
+              'Content-Type': 'application/json'
+            },
+            timeout: 60000
+          }
+        );
+
+        return { summary: requireSummary(response.data[0]?.summary_text?.trim(), currentModel), model: currentModel };
+      } catch (error) {
+        if (currentModel === modelsToTry[modelsToTry.length - 1]) {
+          throw new Error(`HuggingFace error: ${getErrorMessage(error)}`);
+        }
+      }
+    }
+
+    throw new Error('All HuggingFace models failed');
+  }
+
+  private truncateContent(content: string, maxTokens: number): string {
+    const estimatedChars = maxTokens * 3;
+    return content.length > estimatedChars ? content.substring(0, estimatedChars) + '...' : content;
+  }
+}
+
+export interface OpenAIChatProviderOptions {
+  name: string;
+  label: string;
+  /** Base URL of the API, up to but excluding `/chat/completions`. */
+  baseUrl?: string;
+  apiKey?: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+/**
+ * Speaks the OpenAI chat completions API, which also covers local servers
+ * such as llama.cpp, vLLM or LM Studio that expose the same endpoint.
+ */
+export class OpenAIChatProvider implements SummaryProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(private readonly options: OpenAIChatProviderOptions) {
+    this.name = options.name;
+    this.defaultModel = options.defaultModel;
+  }
+
+  unavailableReason(): string | null {
+    if (!this.options.baseUrl) {
+      return 'Base URL not provided';
+    }
+    return this.options.requiresApiKey && !this.options.apiKey ? 'API key not provided' : null;
+  }
+
+  async summarize(content: string, config: SummaryConfig): Promise<ProviderSummary> {
+    const { maxTokens = 150, temperature = 0.3, model = this.defaultModel } = config;
+
+    try {
+      const response = await axios.post<OpenAIResponse>(
+        `${this.options.baseUrl!.replace(/\/+$/, '')}/chat/completions`,
+        {
+          model,
+          messages: [{
+            role: 'user',
+            content: `Summarize the following text in 2-3 concise sentences:\n\n${content.substring(0, 3000)}`
+          }],
+          max_tokens: maxTokens,
+          temperature
+        },
+        {
+          headers: {
+            ...(this.options.apiKey && { 'Authorization': `Bearer ${this.options.apiKey}` }),
+            'Content-Type': 'application/json'
+          },
+          timeout: 30000
+        }
+      );
+
+      return { summary: requireSummary(response.data.choices[0]?.message?.content?.trim(), this.options.label), model };
+    } catch (error) {
+      throw new Error(`${this.options.label} error: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+export interface FakeSummaryProviderOptions {
+  name?: string;
+  /** Summaries returned in turn, cycling; without any, the opening words of the content are echoed back. */
+  responses?: string[];
+  latencyMs?: number;
+  /** Share of calls, from 0 to 1, that throw. */
+  failureRate?: number;
+  /** Share of calls, from 0 to 1, that return output `isValidSummary` rejects. */
+  invalidRate?: number;
+  seed?: number;
+}
+
+// mulberry32: a tiny seeded generator, so failure and invalid-output rates replay identically.
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const rate = (value: number | undefined): number => Math.min(Math.max(value || 0, 0), 1);
+
+/**
+ * A scripted provider that never touches the network, for tests and offline
+ * development. Identical options and call order always produce identical
+ * results; `reset()` rewinds the script.
+ */
+export class FakeSummaryProvider implements SummaryProvider {
+  readonly name: string;
+  readonly defaultModel = 'scripted';
+  private random!: () => number;
+  private calls = 0;
+
+  constructor(private readonly options: FakeSummaryProviderOptions = {}) {
+    this.name = options.name || 'fake';
+    this.reset();
+  }
+
+  unavailableReason(): string | null {
+    return null;
+  }
+
+  get callCount(): number {
+    return this.calls;
+  }
+
+  reset(): void {
+    this.random = seededRandom(this.options.seed ?? 1);
+    this.calls = 0;
+  }
+
+  async summarize(content: string, config: SummaryConfig): Promise<ProviderSummary> {
+    const { model = this.defaultModel } = config;
+    const call = this.calls++;
+
+    // Both draws happen on every call so one rate never shifts the other's sequence.
+    const fails = this.random() < rate(this.options.failureRate);
+    const invalid = this.random() < rate(this.options.invalidRate);
+
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+
+    if (fails) {
+      throw new Error(`Fake provider error: scripted failure on call ${call + 1}`);
+    }
+
+    if (invalid) {
+      return { summary: 'Summary failed: undefined', model };
+    }
+
+    const { responses = [] } = this.options;
+    const summary = responses.length > 0 ? responses[call % responses.length] : this.echo(content);
+
+    return { summary, model };
+  }
+
+  private echo(content: string): string {
+    const words = content.split(/\s+/).filter(Boolean);
+    return words.slice(0, Math.min(25, Math.floor(words.length / 2))).join(' ');
+  }
+}
+
+const parseResponses = (value: string | undefined): string[] | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const responses = JSON.parse(value);
+  if (!Array.isArray(responses) || !responses.every(response => typeof response === 'string')) {
+    throw new Error('SUMMARY_FAKE_RESPONSES must be a JSON array of strings');
+  }
+  return responses;
+};
+
+export const DEFAULT_PROVIDER_CONCURRENCY = 2;
+
+export class SummaryProviderRegistry {
+  private readonly providers = new Map<string, SummaryProvider>();
+  // Shared by every service resolving from this registry, so the cap holds process-wide.
+  private readonly limits = new Map<string, Semaphore>();
+
+  register(provider: SummaryProvider): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Summary provider "${provider.name}" is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  get(name: string): SummaryProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * The enabled providers in fallback order, each with the model it should use
+   * and the limiter its calls go through. A provider's limit is fixed by the
+   * first resolve that names it.
+   */
+  resolve(settings: SummaryProviderSettings[]): ResolvedSummaryProvider[] {
+    return settings.map(({ name, model, concurrency }) => {
+      const provider = this.providers.get(name);
+
+      if (!provider) {
+        throw new Error(`Unknown summary provider "${name}"; registered providers are ${this.names().join(', ')}`);
+      }
+
+      if (!this.limits.has(name)) {
+        this.limits.set(name, new Semaphore(concurrency || DEFAULT_PROVIDER_CONCURRENCY));
+      }
+
+      return { provider, model: model || provider.defaultModel, limit: this.limits.get(name)! };
+    });
+  }
+}
+
+export const DEFAULT_SUMMARY_PROVIDERS = ['ollama', 'cohere', 'huggingface', 'openai'];
+
+const providerVariable = (prefix: string, name: string): string =>
+  `${prefix}_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+
+/**
+ * Reads the fallback order from `SUMMARY_PROVIDERS` (comma-separated; providers
+ * left out are disabled), each provider's model from `SUMMARY_MODEL_<NAME>`,
+ * e.g. `SUMMARY_MODEL_OPENAI_COMPATIBLE` for `openai-compatible`, and its call
+ * limit from `SUMMARY_CONCURRENCY_<NAME>`.
+ */
+export const summaryProviderSettings = (env: NodeJS.ProcessEnv = process.env): SummaryProviderSettings[] => {
+  const names = env.SUMMARY_PROVIDERS !== undefined
+    ? env.SUMMARY_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_SUMMARY_PROVIDERS;
+
+  return [...new Set(names)].map(name => ({
+    name,
+    model: env[providerVariable('SUMMARY_MODEL', name)] || undefined,
+    concurrency: Number(env[providerVariable('SUMMARY_CONCURRENCY', name)]) || undefined
+  }));
+};
+
+/** Every built-in provider; register additional backends here before the summary services are created. */
+export const summaryProviderRegistry = new SummaryProviderRegistry()
+  .register(new OllamaProvider())
+  .register(new CohereProvider())
+  .register(new HuggingFaceProvider())
+  .register(new OpenAIChatProvider({
+    name: 'openai',
+    label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    defaultModel: 'gpt-3.5-turbo',
+    requiresApiKey: true
+  }))
+  .register(new OpenAIChatProvider({
+    name: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    defaultModel: 'default',
+    requiresApiKey: false
+  }))
+  .register(new FakeSummaryProvider({
+    responses: parseResponses(process.env.SUMMARY_FAKE_RESPONSES),
+    latencyMs: Number(process.env.SUMMARY_FAKE_LATENCY_MS) || 0,
+    failureRate: Number(process.env.SUMMARY_FAKE_FAILURE_RATE) || 0,
+    invalidRate: Number(process.env.SUMMARY_FAKE_INVALID_RATE) || 0,
+    seed: Number(process.env.SUMMARY_FAKE_SEED) || 1
+  }));
@@ -0,0 +1,251 @@
+import { ClientSession, Model, Types } from 'mongoose';
+import Article, { IArticle } from '../models/Article';
+import User, { IUser } from '../models/User';
+import { SoftDeletable } from '../models/plugins/softDelete';
+import { CascadeReport, CascadeService, InteractionOwner } from './cascadeService';
+import { withTransaction } from '../utils/transaction';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashPage<T> {
+  items: T[];
+  total: number;
+}
+
+export interface TrashOutcome<T> {
+  item: T;
+  cascade: CascadeReport;
+}
+
+export interface BulkTrashOutcome {
+  trashed: number;
+  cascade: CascadeReport;
+}
+
+export interface PurgeResult {
+  articles: number;
+  users: number;
+  interactions: number;
+  anonymized: number;
+  revisions: number;
+}
+
+export class TrashService {
+  readonly retentionDays: number;
+
+  constructor(
+    retentionDays: number = Number(process.env.TRASH_RETENTION_DAYS) || 30,
+    private readonly cascadeService: CascadeService = new CascadeService()
+  ) {
+    this.retentionDays = Math.max(retentionDays, 1);
+  }
+
+  purgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + this.retentionDays * DAY_MS);
+  }
+
+  trashArticle(id: string): Promise<TrashOutcome<IArticle> | null> {
+    return this.trash(Article, 'articleId', id);
+  }
+
+  restoreArticle(id: string): Promise<TrashOutcome<IArticle> | null> {
+    return this.restore(Article, 'articleId', id);
+  }
+
+  listTrashedArticles(limit: number, offset: number): Promise<TrashPage<IArticle>> {
+    return this.list(Article, limit, offset);
+  }
+
+  /**
+   * Trashes every live article matching the filter, e.g. all articles of a
+   * removed feed source, with the same cascade as a single article. Joins
+   * the caller's transaction when given a session.
+   */
+  trashArticles(filter: object, session?: ClientSession): Promise<BulkTrashOutcome> {
+    if (session) {
+      return this.trashMatching(filter, session);
+    }
+    return withTransaction(current => this.trashMatching(filter, current));
+  }
+
+  private async trashMatching(filter: object, session?: ClientSession): Promise<BulkTrashOutcome> {
+    const articles = await Article.find(filter).select('_id').session(session || null);
+    const ids = articles.map(article => article._id as Types.ObjectId);
+
+    if (ids.length === 0) {
+      return { trashed: 0, cascade: { interactions: 0 } };
+    }
+
+    const deletedAt = new Date();
+    const result = await Article.updateMany(
+      { _id: { $in: ids }, deletedAt: null },
+      { $set: { deletedAt } },
+      { session }
+    );
+    const cascade = await this.cascadeService.hide('articleId', ids, deletedAt, session);
+
+    return { trashed: result.modifiedCount, cascade };
+  }
+
+  trashUser(id: string): Promise<TrashOutcome<IUser> | null> {
+    return this.trash(User, 'userId', id);
+  }
+
+  restoreUser(id: string): Promise<TrashOutcome<IUser> | null> {
+    return this.restore(User, 'userId', id);
+  }
+
+  listTrashedUsers(limit: number, offset: number): Promise<TrashPage<IUser>> {
+    return this.list(User, limit, offset);
+  }
+
+  /**
+   * Permanently removes everything that has been in the trash longer than the
+   * retention period, applying the cascade policy to dependent data.
+   */
+  purgeExpired(now: Date = new Date()): Promise<PurgeResult> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS);
+    const expired = { deletedAt: { $lte: cutoff } };
+
+    return withTransaction(async session => {
+      const totals: PurgeResult = { articles: 0, users: 0, interactions: 0, anonymized: 0, revisions: 0 };
+
+      const articles = await Article.find(expired).select('_id').session(session || null);
+      if (articles.length > 0) {
+        const ids = articles.map(article => article._id as Types.ObjectId);
+        this.addCascade(totals, await this.cascadeService.purge('articleId', ids, session));
+        totals.articles = (await Article.deleteMany({ _id: { $in: ids }, ...expired }, { session })).deletedCount;
+      }
+
+      const users = await User.find(expired).select('_id').session(session || null);
+      if (users.length > 0) {
+        const ids = users.map(user => user._id as Types.ObjectId);
+        this.addCascade(totals, await this.cascadeService.purge('userId', ids, session));
+        totals.users = (await User.deleteMany({ _id: { $in: ids }, ...expired }, { session })).deletedCount;
+      }
+
+      return totals;
+    });
+  }
+
+  private trash<T extends SoftDeletable>(
+    model: Model<T>,
+    owner: InteractionOwner,
+    id: string
+  ): Promise<TrashOutcome<T> | null> {
+    return withTransaction(async session => {
+      const item = await model.findOneAndUpdate(
+        { _id: id, deletedAt: null },
+        { $set: { deletedAt: new Date() } },
+        { new: true, session }
+      ).select('-__v');
+
+      if (!item) {
+        return null;
+      }
+
+      const cascade = await this.cascadeService.hide(owner, [new Types.ObjectId(id)], item.deletedAt!, session);
+      return { item, cascade };
+    });
+  }
+
+  private restore<T extends SoftDeletable>(
+    model: Model<T>,
+    owner: InteractionOwner,
+    id: string
+  ): Promise<TrashOutcome<T> | null> {
+    return withTransaction(async session => {
+      const trashed = await model.findOne({ _id: id, deletedAt: { $ne: null } })
+        .select('deletedAt')
+        .session(session || null);
+
+      if (!trashed) {
+        return null;
+      }
+
+      const deletedAt = trashed.deletedAt!;
+      const item = await model.findOneAndUpdate(
+        { _id: id, deletedAt },
+        { $set: { deletedAt: null } },
+        { new: true, session }
+      ).select('-__v');
+
+      if (!item) {
+        return null;
+      }
+
+      const cascade = await this.cascadeService.unhide(owner, new Types.ObjectId(id), deletedAt, session);
+      return { item, cascade };
+    });
+  }
+
+  private async list<T extends SoftDeletable>(model: Model<T>, limit: number, offset: number): Promise<TrashPage<T>> {
+    const trashed = { deletedAt: { $ne: null } };
+
+    const [items, total] = await Promise.all([
+      model.find(trashed)
+        .sort({ deletedAt: -1 })
+        .limit(limit)
+        .skip(offset)
+        .select('-__v'),
+      model.countDocuments(trashed)
+    ]);
+
+    return { items, total };
+  }
+
+  private addCascade(totals: PurgeResult, report: CascadeReport): void {
+    totals.interactions += report.interactions;
+    totals.anonymized += report.anonymized || 0;
+    totals.revisions += report.revisions || 0;
+  }
+}
+
+export class TrashPurger {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly trashService: TrashService = new TrashService(),
+    private readonly tickIntervalMs: number = 60 * 60 * 1000
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Trash purge failed:', error));
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(now: Date = new Date()): Promise<PurgeResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.trashService.purgeExpired(now);
+      if (result.articles > 0 || result.users > 0) {
+        console.log(
+          `Purged ${result.articles} article(s) and ${result.users} user(s) from trash; ` +
+          `${result.interactions} interaction(s) removed, ${result.anonymized} comment(s) anonymized`
+        );
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default TrashService;
@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+/** Normalizes whitespace so reflowed or re-indented text hashes the same. */
+export const normalizeContent = (content: string): string => content.replace(/\s+/g, ' ').trim();
+
+/** SHA-256 hex digest of the normalized content. */
+export const contentHash = (content: string): string =>
+  crypto.createHash('sha256').update(normalizeContent(content)).digest('hex');
@@ -0,0 +1,110 @@
+import { STATUS_CODES } from 'http';
+
+/**
+ * An RFC 7807 problem document. `code` is a stable, machine-readable
+ * identifier clients can branch on; `detail` is meant for humans and may
+ * change wording at any time.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export const problemType = (code: string): string => `/problems/${code}`;
+
+/**
+ * Base class for errors that map to a client-facing response. Subclasses
+ * pick the status and a default code; more specific errors narrow the code
+ * and add extension members such as the missing permission.
+ */
+export abstract class AppError extends Error {
+  abstract readonly status: number;
+  abstract readonly code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /** Extra members merged into the problem document. */
+  protected extensions(): Record<string, unknown> {
+    return {};
+  }
+
+  toProblem(instance?: string): ProblemDetails {
+    return {
+      type: problemType(this.code),
+      title: STATUS_CODES[this.status] ?? 'Error',
+      status: this.status,
+      detail: this.message,
+      code: this.code,
+      ...(instance && { instance }),
+      ...this.extensions()
+    };
+  }
+}
+
+export class ValidationError extends AppError {
+  readonly status: number = 400;
+  readonly code: string = 'validation_failed';
+
+  constructor(message: string, readonly errors: FieldError[] = []) {
+    super(message);
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return this.errors.length > 0 ? { errors: this.errors } : {};
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  readonly status = 401;
+  readonly code: string = 'unauthorized';
+}
+
+export class ForbiddenError extends AppError {
+  readonly status = 403;
+  readonly code: string = 'forbidden';
+
+  constructor(message: string = 'You do not have permission to perform this operation', readonly permission?: string) {
+    super(message);
+  }
+
+  protected extensions(): Record<string, unknown> {
+    return this.permission ? { permission: this.permission } : {};
+  }
+}
+
+export class NotFoundError extends AppError {
+  readonly status = 404;
+  readonly code: string = 'not_found';
+}
+
+export class ConflictError extends AppError {
+  readonly status = 409;
+  readonly code: string = 'conflict';
+}
+
+/** The request was well-formed but its content could not be used, such as a page with no readable article. */
+export class UnprocessableError extends AppError {
+  readonly status = 422;
+  readonly code: string = 'unprocessable';
+}
+
+/** A service the request depends on, such as a fetched web page or a summarization provider, failed. */
+export class UpstreamUnavailableError extends AppError {
+  readonly status = 502;
+  readonly code: string = 'upstream_unavailable';
+}
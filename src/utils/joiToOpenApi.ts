@@ -0,0 +1,128 @@
+import Joi from 'joi';
+
+export type OpenApiObject = Record<string, any>;
+
+// The parts of `Joi.Schema#describe()` the converter understands.
+interface JoiDescription {
+  type: string;
+  flags?: Record<string, any>;
+  rules?: Array<{ name: string; args?: Record<string, any> }>;
+  allow?: unknown[];
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  matches?: Array<{ schema?: JoiDescription }>;
+  examples?: unknown[];
+  metas?: OpenApiObject[];
+}
+
+const LIMIT_KEYWORDS: Record<string, Record<string, string[]>> = {
+  string: { min: ['minLength'], max: ['maxLength'], length: ['minLength', 'maxLength'] },
+  array: { min: ['minItems'], max: ['maxItems'], length: ['minItems', 'maxItems'] },
+  number: { min: ['minimum'], max: ['maximum'] },
+  object: { min: ['minProperties'], max: ['maxProperties'] }
+};
+
+const isPrimitive = (value: unknown): boolean => value === null || typeof value !== 'object';
+
+const baseSchema = (description: JoiDescription): OpenApiObject => {
+  switch (description.type) {
+    case 'object': {
+      const properties: OpenApiObject = {};
+      const required: string[] = [];
+
+      Object.entries(description.keys ?? {}).forEach(([key, child]) => {
+        if (child.flags?.presence === 'forbidden') return;
+        properties[key] = convert(child);
+        if (child.flags?.presence === 'required') required.push(key);
+      });
+
+      return { type: 'object', properties, ...(required.length > 0 && { required }) };
+    }
+    case 'array': {
+      const items = (description.items ?? []).map(convert);
+      return { type: 'array', ...(items.length > 0 && { items: items.length === 1 ? items[0] : { oneOf: items } }) };
+    }
+    case 'alternatives':
+      return { oneOf: (description.matches ?? []).flatMap(match => match.schema ? [convert(match.schema)] : []) };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return { type: description.type };
+    default:
+      return {};
+  }
+};
+
+const applyRule = (schema: OpenApiObject, type: string, name: string, args: Record<string, any> = {}): void => {
+  const limitKeywords = LIMIT_KEYWORDS[type]?.[name];
+  if (limitKeywords && typeof args.limit === 'number') {
+    limitKeywords.forEach(keyword => { schema[keyword] = args.limit; });
+    return;
+  }
+
+  switch (name) {
+    case 'integer':
+      schema.type = 'integer';
+      break;
+    case 'pattern':
+      schema.pattern = String(args.regex).slice(1, String(args.regex).lastIndexOf('/'));
+      break;
+    case 'uri':
+      schema.format = 'uri';
+      break;
+    case 'unique':
+      schema.uniqueItems = true;
+      break;
+  }
+};
+
+const convert = (description: JoiDescription): OpenApiObject => {
+  const flags = description.flags ?? {};
+  const schema = baseSchema(description);
+
+  (description.rules ?? []).forEach(rule => applyRule(schema, description.type, rule.name, rule.args));
+
+  const allowed = (description.allow ?? []).filter(isPrimitive);
+  if (flags.only) {
+    schema.enum = allowed.filter(value => value !== null);
+  }
+  if (allowed.includes(null)) {
+    schema.nullable = true;
+  }
+
+  if (flags.description) {
+    schema.description = flags.description;
+  }
+  if (isPrimitive(flags.default) && flags.default !== undefined) {
+    schema.default = flags.default;
+  }
+  if (description.examples?.length) {
+    schema.example = description.examples[0];
+  }
+
+  // `.meta({ format: 'password' })` and the like pass straight through.
+  (description.metas ?? []).forEach(meta => Object.assign(schema, meta));
+
+  return schema;
+};
+
+export const joiToOpenApi = (schema: Joi.Schema): OpenApiObject =>
+  convert(schema.describe() as JoiDescription);
+
+/** Turns the keys of an object schema into OpenAPI path or query parameters. */
+export const joiToParameters = (schema: Joi.ObjectSchema, location: 'path' | 'query'): OpenApiObject[] => {
+  const { properties = {}, required = [] } = joiToOpenApi(schema);
+
+  return Object.entries(properties as Record<string, OpenApiObject>).map(([name, { description, ...propertySchema }]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(description && { description }),
+    schema: propertySchema
+  }));
+};
+
+export const schemaKeys = (schema: Joi.ObjectSchema): string[] =>
+  Object.keys((schema.describe() as JoiDescription).keys ?? {});
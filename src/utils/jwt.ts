@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { UnauthorizedError } from './errors';
+import { signingSecret } from './secrets';
+
+const JWT_SECRET = signingSecret('JWT_SECRET');
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+export interface TokenClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export class InvalidTokenError extends UnauthorizedError {
+  readonly code = 'invalid_token';
+
+  constructor(message: string = 'Invalid or expired access token') {
+    super(message);
+  }
+}
+
+const sign = (input: string): string =>
+  crypto.createHmac('sha256', JWT_SECRET).update(input).digest('base64url');
+
+/**
+ * Issues an HS256 JSON Web Token for `subject` that expires after `ttlSeconds`.
+ */
+export const signToken = (
+  subject: string,
+  ttlSeconds: number,
+  claims: Record<string, unknown> = {},
+  now: Date = new Date()
+): string => {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload = Buffer.from(JSON.stringify({ ...claims, sub: subject, iat, exp: iat + ttlSeconds })).toString('base64url');
+  const input = `${HEADER}.${payload}`;
+
+  return `${input}.${sign(input)}`;
+};
+
+export const verifyToken = (token: string, now: Date = new Date()): TokenClaims => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature || header !== HEADER) {
+    throw new InvalidTokenError();
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new InvalidTokenError();
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError();
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new InvalidTokenError();
+  }
+
+  if (claims.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new InvalidTokenError('Access token has expired');
+  }
+
+  return claims;
+};
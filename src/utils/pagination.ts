@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { ValidationError } from './errors';
+import { signingSecret } from './secrets';
+
+const CURSOR_SECRET = signingSecret('CURSOR_SECRET');
+
+type CursorDirection = 'next' | 'prev';
+
+interface CursorPayload {
+  createdAt: string;
+  id: string;
+  direction: CursorDirection;
+}
+
+export interface CursorPosition {
+  filter: any;
+  sort: { createdAt: 1 | -1; _id: 1 | -1 };
+  direction: CursorDirection;
+  hasCursor: boolean;
+}
+
+export interface CursorPagination {
+  mode: 'cursor';
+  limit: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface PageLinks {
+  next: string | null;
+  prev: string | null;
+}
+
+type PageRequest = Pick<Request, 'baseUrl' | 'path'> & { query: object };
+
+interface PaginationQuery {
+  cursor?: unknown;
+  offset?: unknown;
+  page?: unknown;
+}
+
+interface Paginated {
+  _id: unknown;
+  createdAt: Date;
+}
+
+export class InvalidCursorError extends ValidationError {
+  readonly code = 'invalid_cursor';
+
+  constructor() {
+    super('Invalid or tampered pagination cursor');
+  }
+}
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', CURSOR_SECRET).update(payload).digest('base64url');
+
+export const encodeCursor = (item: Paginated, direction: CursorDirection): string => {
+  const payload = Buffer.from(JSON.stringify({
+    createdAt: item.createdAt.toISOString(),
+    id: String(item._id),
+    direction
+  })).toString('base64url');
+
+  return `${payload}.${sign(payload)}`;
+};
+
+export const decodeCursor = (cursor: string): CursorPayload => {
+  const [payload, signature] = cursor.split('.');
+  if (!payload || !signature) {
+    throw new InvalidCursorError();
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new InvalidCursorError();
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!Types.ObjectId.isValid(decoded.id) || isNaN(Date.parse(decoded.createdAt))
+      || (decoded.direction !== 'next' && decoded.direction !== 'prev')) {
+      throw new InvalidCursorError();
+    }
+    return decoded;
+  } catch {
+    throw new InvalidCursorError();
+  }
+};
+
+/**
+ * Offset pagination is kept for clients that ask for it explicitly with
+ * `offset` or `page`; everything else pages by cursor.
+ */
+export const usesOffsetPagination = (query: PaginationQuery): boolean =>
+  !query.cursor && (query.offset !== undefined || query.page !== undefined);
+
+/**
+ * Turns an optional cursor into the range filter and sort order for the next
+ * query. Results are ordered newest first by (createdAt, _id); a `prev`
+ * cursor walks the same order backwards and the page is reversed afterwards.
+ */
+export const cursorPosition = (cursor?: unknown): CursorPosition => {
+  if (typeof cursor !== 'string' || cursor.length === 0) {
+    return { filter: {}, sort: { createdAt: -1, _id: -1 }, direction: 'next', hasCursor: false };
+  }
+
+  const { createdAt, id, direction } = decodeCursor(cursor);
+  const boundary = new Date(createdAt);
+  const objectId = new Types.ObjectId(id);
+  const operator = direction === 'next' ? '$lt' : '$gt';
+  const order = direction === 'next' ? -1 : 1;
+
+  return {
+    filter: {
+      $or: [
+        { createdAt: { [operator]: boundary } },
+        { createdAt: boundary, _id: { [operator]: objectId } }
+      ]
+    },
+    sort: { createdAt: order, _id: order },
+    direction,
+    hasCursor: true
+  };
+};
+
+export const withCursor = (filter: any, position: CursorPosition): any => {
+  if (!position.hasCursor) {
+    return filter;
+  }
+  return { ...filter, $and: [...(filter.$and || []), position.filter] };
+};
+
+/**
+ * Builds the page from a query that fetched `limit + 1` documents, so the
+ * extra document tells whether more results exist in the walking direction.
+ */
+export const cursorPage = <T extends Paginated>(
+  req: PageRequest,
+  documents: T[],
+  limit: number,
+  position: CursorPosition
+): { items: T[]; pagination: CursorPagination; links: PageLinks } => {
+  const hasMore = documents.length > limit;
+  const items = documents.slice(0, limit);
+
+  if (position.direction === 'prev') {
+    items.reverse();
+  }
+
+  const hasNext = position.direction === 'next' ? hasMore : true;
+  const hasPrev = position.direction === 'prev' ? hasMore : position.hasCursor;
+
+  const nextCursor = hasNext && items.length > 0 ? encodeCursor(items[items.length - 1], 'next') : null;
+  const prevCursor = hasPrev && items.length > 0 ? encodeCursor(items[0], 'prev') : null;
+
+  return {
+    items,
+    pagination: { mode: 'cursor', limit, hasNext, hasPrev, nextCursor, prevCursor },
+    links: {
+      next: nextCursor && pageLink(req, nextCursor),
+      prev: prevCursor && pageLink(req, prevCursor)
+    }
+  };
+};
+
+const pageLink = (req: PageRequest, cursor: string): string => {
+  const params = new URLSearchParams();
+
+  // Validated queries hold numbers and booleans as well as strings.
+  Object.entries(req.query as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'cursor' || key === 'offset' || key === 'page') return;
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return;
+    params.set(key, String(value));
+  });
+  params.set('cursor', cursor);
+
+  return `${req.baseUrl}${req.path === '/' ? '' : req.path}?${params.toString()}`;
+};
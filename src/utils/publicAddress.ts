@@ -0,0 +1,75 @@
+import { promises as dns, LookupAddress } from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// carrier-grade NAT, multicast and reserved ranges, which a server-side fetch
+// must never reach on a caller's behalf. BlockList checks IPv4-mapped IPv6
+// addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const NON_PUBLIC = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export class BlockedAddressError extends Error {
+  constructor(readonly host: string) {
+    super(`Refusing to connect to non-public address for ${host}`);
+  }
+}
+
+/** Decides which resolved addresses a fetch may connect to. */
+export type AddressFilter = (address: string) => boolean;
+
+export const isPublicAddress: AddressFilter = (address: string): boolean => {
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Rejects URLs that are not http(s) or name a non-public IP literal. Hostnames
+ * are checked when connecting, by `publicLookup`.
+ */
+export const assertPublicUrl = (url: URL, allow: AddressFilter = isPublicAddress): void => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !allow(host)) {
+    throw new BlockedAddressError(host);
+  }
+};
+
+/**
+ * DNS lookup for HTTP clients that fails when any address a hostname resolves
+ * to is not allowed. It runs for every connection, so redirects and answers
+ * that change between requests are checked too.
+ */
+export const lookupAllowing = (allow: AddressFilter) => async (hostname: string): Promise<[LookupAddress[]]> => {
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !allow(address))) {
+    throw new BlockedAddressError(hostname);
+  }
+
+  return [addresses];
+};
+
+export const publicLookup = lookupAllowing(isPublicAddress);
@@ -0,0 +1,61 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AddressFilter, assertPublicUrl, isPublicAddress, lookupAllowing } from './publicAddress';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 5;
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+export interface PublicResponse<T> extends AxiosResponse<T> {
+  /** Where the response came from after redirects. */
+  url: URL;
+}
+
+export const createPublicHttp = (): AxiosInstance => axios.create({
+  timeout: 15000,
+  maxContentLength: MAX_CONTENT_LENGTH,
+  headers: { 'User-Agent': 'SmartContentAggregator/1.0 (+https://github.com/Adecom16/Smart-Content-Aggregator-API)' }
+});
+
+/**
+ * GETs URLs on a caller's behalf, connecting only to addresses `allow`
+ * accepts, public ones by default. Redirects are followed by hand so each
+ * target is checked before it is requested.
+ */
+export class PublicHttpClient {
+  private readonly lookup: ReturnType<typeof lookupAllowing>;
+
+  constructor(
+    private readonly http: AxiosInstance = createPublicHttp(),
+    private readonly allow: AddressFilter = isPublicAddress
+  ) {
+    this.lookup = lookupAllowing(allow);
+  }
+
+  async get<T>(url: string, config: AxiosRequestConfig = {}): Promise<PublicResponse<T>> {
+    const accept = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    let target = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+      assertPublicUrl(target, this.allow);
+
+      const response = await this.http.get<T>(target.href, {
+        ...config,
+        maxRedirects: 0,
+        lookup: this.lookup,
+        validateStatus: status => REDIRECT_STATUSES.has(status) || accept(status)
+      });
+
+      if (!REDIRECT_STATUSES.has(response.status)) {
+        return Object.assign(response, { url: target });
+      }
+
+      const location = response.headers.location;
+      if (!location || redirects >= MAX_REDIRECTS) {
+        throw new Error(location ? 'Too many redirects' : `Redirect ${response.status} without a location`);
+      }
+      target = new URL(String(location), target);
+    }
+  }
+}
+
+export default PublicHttpClient;
@@ -0,0 +1,4 @@
+/**
+ * Escapes regular expression metacharacters so user input can be matched literally.
+ */
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+// Sample values that would let anyone who has read the docs forge signatures.
+const PLACEHOLDERS = new Set(['change_me', 'changeme', 'secret', 'your_secret_here']);
+
+/**
+ * Reads the signing secret in environment variable `name`. Without one, a
+ * random secret is used, so whatever it signs stays valid only for the
+ * lifetime of the process. Throws on a known placeholder value.
+ */
+export const signingSecret = (name: string): string => {
+  const value = process.env[name];
+
+  if (value && PLACEHOLDERS.has(value.trim().toLowerCase())) {
+    throw new Error(`${name} is set to the placeholder "${value}"; set a random value or leave it unset`);
+  }
+  return value || crypto.randomBytes(32).toString('hex');
+};
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import natural from 'natural';
+
+const tokenizer = new natural.WordTokenizer();
+const SHINGLE_SIZE = 2;
+const BAND_COUNT = 8;
+
+/** Largest Hamming distance that band lookups are guaranteed to find. */
+export const MAX_DETECTABLE_DISTANCE = BAND_COUNT - 1;
+
+const hashShingle = (shingle: string): bigint => {
+  const digest = crypto.createHash('md5').update(shingle).digest();
+  return digest.readBigUInt64BE(0);
+};
+
+/**
+ * 64-bit SimHash over word shingles, returned as a 16 character hex string.
+ * Texts that differ only slightly produce fingerprints a few bits apart.
+ */
+export const simhash = (text: string): string => {
+  const tokens = (tokenizer.tokenize(text.toLowerCase()) || []).filter(token => token.length > 1);
+  const shingles: string[] = [];
+
+  if (tokens.length < SHINGLE_SIZE) {
+    shingles.push(tokens.join(' '));
+  } else {
+    for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+      shingles.push(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const shingle of shingles) {
+    const hash = hashShingle(shingle);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & BigInt(1) ? 1 : -1;
+    }
+  }
+
+  let fingerprint = BigInt(0);
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      fingerprint |= BigInt(1) << BigInt(bit);
+    }
+  }
+
+  return fingerprint.toString(16).padStart(16, '0');
+};
+
+/**
+ * Splits a fingerprint into prefixed 8-bit bands. Two fingerprints within
+ * MAX_DETECTABLE_DISTANCE bits of each other always share at least one band,
+ * which lets candidates be found with an indexed equality lookup.
+ */
+export const fingerprintBands = (fingerprint: string): string[] => {
+  const bandLength = fingerprint.length / BAND_COUNT;
+  return Array.from({ length: BAND_COUNT }, (_, i) =>
+    `${i}:${fingerprint.substring(i * bandLength, (i + 1) * bandLength)}`
+  );
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+
+  return distance;
+};
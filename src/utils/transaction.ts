@@ -0,0 +1,33 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+let transactionsSupported: boolean | undefined;
+
+const isTransactionUnsupported = (error: any): boolean =>
+  error?.code === 20 || /Transaction numbers are only allowed/i.test(error?.message || '');
+
+/**
+ * Runs `work` inside a MongoDB transaction. Standalone servers cannot run
+ * transactions, so on those the work runs without a session instead (the
+ * first attempt fails before anything is written).
+ */
+export const withTransaction = async <T>(work: (session?: ClientSession) => Promise<T>): Promise<T> => {
+  if (transactionsSupported === false) {
+    return work();
+  }
+
+  try {
+    let result!: T;
+    await mongoose.connection.transaction(async session => {
+      result = await work(session);
+    });
+    transactionsSupported = true;
+    return result;
+  } catch (error) {
+    if (transactionsSupported === undefined && isTransactionUnsupported(error)) {
+      transactionsSupported = false;
+      console.warn('MongoDB deployment does not support transactions; running cascades without one');
+      return work();
+    }
+    throw error;
+  }
+};
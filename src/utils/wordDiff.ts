@@ -0,0 +1,128 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+export interface WordDiff {
+  segments: DiffSegment[];
+  added: number;
+  removed: number;
+}
+
+// Beyond this many edits, or tokens across both texts, the texts are treated
+// as wholly replaced. The edit cap bounds the backtracking trace (roughly
+// edits² entries, about a million here) and the token cap the time spent
+// following diagonals.
+const MAX_EDIT_DISTANCE = 1000;
+const MAX_TOKENS = 40000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const isWord = (token: string): boolean => !/^\s+$/.test(token);
+
+/**
+ * Myers' O(ND) shortest edit script over word and whitespace tokens, or null
+ * when the texts are too long or too different to diff.
+ */
+const editScript = (a: string[], b: string[]): { op: DiffOperation; token: string }[] | null => {
+  const n = a.length;
+  const m = b.length;
+  if (n + m > MAX_TOKENS) {
+    return null;
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): { op: DiffOperation; token: string }[] => {
+  const script: { op: DiffOperation; token: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      script.push({ op: 'equal', token: a[--x] });
+      y--;
+    }
+
+    if (x === previousX) {
+      script.push({ op: 'insert', token: b[--y] });
+    } else {
+      script.push({ op: 'delete', token: a[--x] });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    script.push({ op: 'equal', token: a[--x] });
+    y--;
+  }
+
+  return script.reverse();
+};
+
+/**
+ * Word-level diff between two texts. Adjacent tokens with the same operation
+ * are merged into segments; `added` and `removed` count words, not whitespace.
+ */
+export const diffWords = (before: string = '', after: string = ''): WordDiff => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const script = editScript(a, b) || [
+    ...a.map(token => ({ op: 'delete' as const, token })),
+    ...b.map(token => ({ op: 'insert' as const, token }))
+  ];
+
+  const segments: DiffSegment[] = [];
+  let added = 0;
+  let removed = 0;
+
+  for (const { op, token } of script) {
+    if (op === 'insert' && isWord(token)) added++;
+    if (op === 'delete' && isWord(token)) removed++;
+
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += token;
+    } else {
+      segments.push({ op, text: token });
+    }
+  }
+
+  return { segments, added, removed };
+};
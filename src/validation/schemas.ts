@@ -1,37 +1,553 @@
 import Joi from 'joi';
+import {
+  ARTICLE_STATUSES,
+  ArticleStatus,
+  SUMMARY_METHODS,
+  SUMMARY_STATUSES,
+  SummaryMethod,
+  SummaryStatus
+} from '../models/Article';
+import { SUMMARY_JOB_STATUSES, SummaryJobStatus } from '../models/SummaryJob';
+import { API_KEY_SCOPES, ApiKeyScope } from '../models/ApiKey';
+import { InteractionType } from '../models/Interaction';
+import { USER_ROLES, UserRole } from '../models/User';
+import { PUBLISHED_RANGES, PublishedRange } from '../services/facetService';
+import { MIN_PASSWORD_LENGTH } from '../services/authService';
+
+/**
+ * Each schema is declared against the TypeScript shape it produces, so the
+ * compiler flags a schema and its request type drifting apart. Controllers
+ * type `req` with these shapes: `validate` has already converted and
+ * defaulted the values by the time they run.
+ */
+
+// MongoDB ObjectId validation
+export const objectIdSchema = Joi.string()
+  .pattern(/^[0-9a-fA-F]{24}$/)
+  .messages({ 'string.pattern.base': '{{#label}} must be a valid ObjectId' });
+
+export interface IdParams {
+  id: string;
+}
+
+export const idParamsSchema = Joi.object<IdParams, true>({
+  id: objectIdSchema.required().description('Resource ID')
+});
+
+// Pagination
+export interface PageQuery {
+  limit: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface OffsetPageQuery {
+  limit: number;
+  offset: number;
+}
+
+const limitSchema = (defaultLimit: number, maxLimit: number = 100) =>
+  Joi.number().integer().min(1).max(maxLimit).default(defaultLimit).description('Number of items to return');
+
+// No default for offset: its presence is what switches a list to offset pagination.
+const pageKeys = (defaultLimit: number, maxLimit?: number) => ({
+  limit: limitSchema(defaultLimit, maxLimit),
+  offset: Joi.number().integer().min(0).optional()
+    .description('Number of items to skip (switches to offset pagination)'),
+  cursor: Joi.string().optional()
+    .description('Opaque cursor from a previous response (nextCursor or prevCursor)')
+});
+
+const offsetPageKeys = (defaultLimit: number) => ({
+  limit: limitSchema(defaultLimit),
+  offset: Joi.number().integer().min(0).default(0).description('Number of items to skip')
+});
+
+export const pageQuerySchema = Joi.object<PageQuery, true>(pageKeys(20));
+
+const tagsSchema = Joi.array().items(Joi.string().trim().lowercase().max(30));
+
+// Auth validation schemas
+export interface LoginBody {
+  username: string;
+  password: string;
+}
+
+export interface RefreshTokenBody {
+  refreshToken: string;
+}
+
+export const loginSchema = Joi.object<LoginBody, true>({
+  username: Joi.string().trim().required().example('johndoe123'),
+  password: Joi.string().required().meta({ format: 'password' })
+});
+
+export const refreshTokenSchema = Joi.object<RefreshTokenBody, true>({
+  refreshToken: Joi.string().required()
+});
+
+// API key validation schemas
+export interface CreateApiKeyBody {
+  name: string;
+  scopes: ApiKeyScope[];
+  application?: string;
+  expiresAt?: Date;
+}
+
+export const createApiKeySchema = Joi.object<CreateApiKeyBody, true>({
+  name: Joi.string().trim().max(100).required().example('ingestion-worker'),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+  application: Joi.string().trim().max(100).optional()
+    .description('Issue the key to a named application instead of the calling user'),
+  expiresAt: Joi.date().iso().greater('now').optional()
+});
 
 // Article validation schemas
-export const createArticleSchema = Joi.object({
-  title: Joi.string().trim().min(5).max(200).required(),
-  content: Joi.string().trim().min(50).required(),
-  author: Joi.string().trim().min(2).max(100).required(),
-  summary: Joi.string().trim().max(500).optional().allow('', null),
-  tags: Joi.array().items(Joi.string().trim().lowercase().max(30)).optional()
+export interface CreateArticleBody {
+  title: string;
+  content: string;
+  author: string;
+  summary?: string | null;
+  tags?: string[];
+  status?: 'draft' | 'in_review';
+}
+
+export interface CreateArticleFromUrlBody {
+  url: string;
+  author?: string;
+  summary?: string | null;
+  tags?: string[];
+  status?: 'draft' | 'in_review';
+}
+
+export interface DuplicateQuery {
+  onDuplicate: 'reject' | 'merge';
+}
+
+export interface GetArticlesQuery extends PageQuery {
+  page?: number;
+  search?: string;
+  tags?: string;
+  tagsMode: 'any' | 'all';
+  author?: string;
+  match: 'any' | 'all';
+  published?: PublishedRange;
+  source?: string;
+  collapse: boolean;
+  facets: boolean;
+  status: ArticleStatus;
+  summaryMethod?: SummaryMethod;
+  summaryProvider?: string;
+  summaryStatus?: SummaryStatus;
+}
+
+export interface UpdateArticleBody {
+  title?: string;
+  content?: string;
+  author?: string;
+  summary?: string;
+  tags?: string[];
+}
+
+export interface TransitionBody {
+  status: ArticleStatus;
+  publishAt?: Date;
+}
+
+export interface RegenerateSummaryBody {
+  maxSentences: number;
+  refresh: boolean;
+}
+
+export interface BulkRegenerateSummariesBody extends Omit<RegenerateSummaryBody, 'refresh'> {
+  batchSize: number;
+  summaryMethod?: SummaryMethod;
+}
+
+export interface SummaryCacheQuery {
+  provider?: string;
+  model?: string;
+}
+
+export interface ArticleClusterQuery {
+  days: number;
+  threshold?: number;
+}
+
+export interface TagsParams {
+  tags: string;
+}
+
+export interface RevisionParams extends IdParams {
+  revision: number;
+}
+
+export interface RevisionDiffQuery {
+  from?: number;
+  to?: number;
+}
+
+// Publishing always goes through review, so new articles start as a draft or in review.
+const initialStatusSchema = Joi.string<'draft' | 'in_review'>().valid('draft', 'in_review').optional()
+  .description('Initial workflow state; articles are only public once published');
+
+export const createArticleSchema = Joi.object<CreateArticleBody, true>({
+  title: Joi.string().trim().min(5).max(200).required().example('Introduction to Machine Learning'),
+  content: Joi.string().trim().min(50).required()
+    .example('Machine learning is a subset of artificial intelligence...'),
+  author: Joi.string().trim().min(2).max(100).required().example('John Doe'),
+  summary: Joi.string().trim().max(500).optional().allow('', null)
+    .description('Optional summary - will be auto-generated if empty'),
+  tags: tagsSchema.optional().example(['machine-learning', 'ai', 'technology']),
+  status: initialStatusSchema
+});
+
+export const createArticleFromUrlSchema = Joi.object<CreateArticleFromUrlBody, true>({
+  url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).required().example('https://example.com/news/big-story'),
+  author: Joi.string().trim().min(2).max(100).optional()
+    .description('Used when no author can be extracted from the page'),
+  summary: Joi.string().trim().max(500).optional().allow('', null)
+    .description('Optional summary - will be auto-generated if empty'),
+  tags: tagsSchema.optional(),
+  status: initialStatusSchema
+});
+
+export const duplicateQuerySchema = Joi.object<DuplicateQuery, true>({
+  onDuplicate: Joi.string<'reject' | 'merge'>().valid('reject', 'merge').default('reject')
+    .description("Reject near-duplicates with 409, or save them as part of the original's story cluster")
+});
+
+export const getArticlesSchema = Joi.object<GetArticlesQuery, true>({
+  ...pageKeys(10),
+  page: Joi.number().integer().min(1).optional().description('Page number (alternative to offset)'),
+  search: Joi.string().trim().max(500).optional()
+    .description('Full-text query over title, summary, author and content, ranked by relevance. '
+      + 'Supports "quoted phrases", prefix* terms and -excluded terms.'),
+  tags: Joi.string().trim().max(500).optional().description('Comma-separated list of tags to filter by'),
+  tagsMode: Joi.string<'any' | 'all'>().valid('any', 'all').default('any')
+    .description('Whether an article needs any or all of the selected tags'),
+  author: Joi.string().trim().max(500).optional()
+    .description('Comma-separated list of author names (partial match); an article matching any of them is included'),
+  match: Joi.string<'any' | 'all'>().valid('any', 'all').default('all')
+    .description('Whether both the tags and author selections must match, or either is enough'),
+  published: Joi.string<PublishedRange>().valid(...Object.keys(PUBLISHED_RANGES)).optional()
+    .description('Only articles published within the last day, week or month'),
+  source: objectIdSchema.optional().description('Filter by feed source ID'),
+  collapse: Joi.boolean().default(false)
+    .description('Hide near-duplicates and report a duplicateCount on each original instead'),
+  facets: Joi.boolean().default(false)
+    .description('Include tag, author, source and publish-date counts for the filtered result set'),
+  status: Joi.string<ArticleStatus>().valid(...ARTICLE_STATUSES).default('published')
+    .description('Workflow state to list; anything other than published requires an editor or admin'),
+  summaryMethod: Joi.string<SummaryMethod>().valid(...SUMMARY_METHODS).optional()
+    .description('Only articles whose summary was produced this way, e.g. extractive to find ones worth upgrading'),
+  summaryProvider: Joi.string().trim().max(100).optional()
+    .description('Only articles whose summary came from this provider, e.g. ollama'),
+  summaryStatus: Joi.string<SummaryStatus>().valid(...SUMMARY_STATUSES).optional()
+    .description('Only articles whose summary is in this state, e.g. pending while a summary job is queued')
+});
+
+export const updateArticleSchema = Joi.object<UpdateArticleBody, true>({
+  title: Joi.string().trim().min(5).max(200).optional(),
+  content: Joi.string().trim().min(50).optional(),
+  author: Joi.string().trim().min(2).max(100).optional(),
+  summary: Joi.string().trim().max(500).optional().allow(''),
+  tags: tagsSchema.optional()
+}).min(1);
+
+export const transitionSchema = Joi.object<TransitionBody, true>({
+  status: Joi.string<ArticleStatus>().valid(...ARTICLE_STATUSES).required(),
+  publishAt: Joi.date().iso().optional().description('Required when scheduling; must be in the future')
+});
+
+const maxSentencesSchema = Joi.number().integer().min(1).max(10).default(3)
+  .description('Maximum sentences in generated summaries');
+
+export const regenerateSummarySchema = Joi.object<RegenerateSummaryBody, true>({
+  maxSentences: maxSentencesSchema,
+  refresh: Joi.boolean().default(false)
+    .description('Call the providers again instead of reusing a cached summary of the same content, replacing the cached one')
+});
+
+export const bulkRegenerateSummariesSchema = Joi.object<BulkRegenerateSummariesBody, true>({
+  batchSize: Joi.number().integer().min(1).max(20).default(5).description('Number of articles to process in one batch'),
+  maxSentences: maxSentencesSchema,
+  summaryMethod: Joi.string<SummaryMethod>().valid('extractive', 'truncated', 'ai').optional()
+    .description('Regenerate summaries produced this way instead of missing or very short ones')
+});
+
+export const summaryCacheQuerySchema = Joi.object<SummaryCacheQuery, true>({
+  provider: Joi.string().trim().max(100).optional().description('Only entries written by this provider, e.g. openai'),
+  model: Joi.string().trim().max(200).optional().description('Only entries for this configured model')
+});
+
+export const articleClusterSchema = Joi.object<ArticleClusterQuery, true>({
+  days: Joi.number().integer().min(1).max(30).default(3)
+    .description('How many days either side of the article to look for related coverage'),
+  threshold: Joi.number().min(0).max(1).optional()
+    .description('Minimum cosine similarity for an article to join the cluster')
+});
+
+export const tagsParamsSchema = Joi.object<TagsParams, true>({
+  tags: Joi.string().trim().max(500).required().description('Comma-separated list of tags')
+});
+
+export const revisionParamsSchema = Joi.object<RevisionParams, true>({
+  id: objectIdSchema.required().description('Article ID'),
+  revision: Joi.number().integer().min(1).required().description('Revision number')
+});
+
+export const revisionDiffSchema = Joi.object<RevisionDiffQuery, true>({
+  from: Joi.number().integer().min(1).optional().description('Base revision (defaults to the one before `to`)'),
+  to: Joi.number().integer().min(1).optional().description('Target revision (defaults to the latest)')
 });
 
-export const getArticlesSchema = Joi.object({
-  limit: Joi.number().integer().min(1).max(100).default(10),
-  offset: Joi.number().integer().min(0).default(0),
-  page: Joi.number().integer().min(1).optional()
+export const articlePageQuerySchema = Joi.object<PageQuery, true>(pageKeys(10));
+
+export const articleTrashQuerySchema = Joi.object<OffsetPageQuery, true>(offsetPageKeys(10));
+
+// Cluster validation schemas
+export interface ClustersQuery {
+  days: number;
+  minSize: number;
+  limit: number;
+  threshold?: number;
+}
+
+export const clustersSchema = Joi.object<ClustersQuery, true>({
+  days: Joi.number().integer().min(1).max(30).default(3).description('How many days of articles to cluster'),
+  minSize: Joi.number().integer().min(1).max(100).default(2).description('Smallest cluster size to return'),
+  limit: limitSchema(20).description('Maximum number of clusters to return'),
+  threshold: Joi.number().min(0).max(1).optional()
+    .description('Minimum cosine similarity for an article to join a cluster')
 });
 
 // User validation schemas
-export const createUserSchema = Joi.object({
-  username: Joi.string().trim().alphanum().min(3).max(30).required(),
-  interests: Joi.array().items(Joi.string().trim().lowercase().max(50)).optional()
+export interface CreateUserBody {
+  username: string;
+  password: string;
+  interests?: string[];
+}
+
+export interface UpdateUserBody {
+  interests: string[];
+}
+
+export interface UpdateUserRoleBody {
+  role: UserRole;
+}
+
+export interface SetUserPasswordBody {
+  password: string;
+}
+
+const interestsSchema = Joi.array().items(Joi.string().trim().lowercase().max(50))
+  .example(['technology', 'science', 'sports']);
+
+export const createUserSchema = Joi.object<CreateUserBody, true>({
+  username: Joi.string().trim().pattern(/^[a-zA-Z0-9_]+$/).min(3).max(30).required().example('johndoe123'),
+  password: Joi.string().min(MIN_PASSWORD_LENGTH).max(200).required()
+    .description('Used to log in via POST /auth/login')
+    .meta({ format: 'password' }),
+  interests: interestsSchema.optional()
+});
+
+export const updateUserSchema = Joi.object<UpdateUserBody, true>({
+  interests: interestsSchema.required()
+});
+
+export const updateUserRoleSchema = Joi.object<UpdateUserRoleBody, true>({
+  role: Joi.string<UserRole>().valid(...USER_ROLES).required()
+});
+
+export const setUserPasswordSchema = Joi.object<SetUserPasswordBody, true>({
+  password: Joi.string().min(MIN_PASSWORD_LENGTH).max(200).required()
+    .description('Replaces the current password, if any; the user\'s existing sessions are ended')
+    .meta({ format: 'password' })
 });
 
+export const userTrashQuerySchema = Joi.object<OffsetPageQuery, true>(offsetPageKeys(20));
+
 // Interaction validation schemas
-export const createInteractionSchema = Joi.object({
-  user_id: Joi.string().hex().length(24).required(),
-  article_id: Joi.string().hex().length(24).required(),
-  interaction_type: Joi.string().valid('view', 'like', 'share', 'comment').required()
+export interface ShareMetadata {
+  platform: 'twitter' | 'facebook' | 'linkedin' | 'email' | 'copy_link' | 'whatsapp';
+  message?: string;
+}
+
+export interface CreateInteractionBody {
+  user_id?: string;
+  article_id: string;
+  interaction_type: InteractionType;
+  content?: string;
+  shareMetadata?: ShareMetadata;
+}
+
+export interface RemoveInteractionBody {
+  user_id?: string;
+  article_id: string;
+  interaction_type: Exclude<InteractionType, 'comment'>;
+}
+
+export interface UpdateCommentBody {
+  content: string;
+}
+
+export interface ArticleParams {
+  articleId: string;
+}
+
+export interface UserParams {
+  userId: string;
+}
+
+export interface UserArticleParams extends UserParams, ArticleParams {}
+
+export interface InteractionsQuery extends PageQuery {
+  interaction_type?: InteractionType;
+}
+
+const interactionTypeSchema = Joi.string<InteractionType>().valid('view', 'like', 'share', 'comment');
+
+const articleIdSchema = objectIdSchema.description('MongoDB ObjectId of the article').example('65f1a2b3c4d5e6f7a8b9c0d1');
+
+const userIdSchema = objectIdSchema.description('MongoDB ObjectId of the user').example('65f1a2b3c4d5e6f7a8b9c0d2');
+
+const actingUserIdSchema = userIdSchema.optional()
+  .description('User to act on behalf of; only read from callers using an application API key');
+
+export const createInteractionSchema = Joi.object<CreateInteractionBody, true>({
+  user_id: actingUserIdSchema,
+  article_id: articleIdSchema.required(),
+  interaction_type: interactionTypeSchema.required().description('Type of interaction').example('like'),
+  content: Joi.string().trim().max(1000).description('Required for comment interactions')
+    .example('This is a great article about data science!').when('interaction_type', {
+    is: 'comment',
+    then: Joi.required(),
+    otherwise: Joi.any().strip()
+  }),
+  shareMetadata: Joi.object<ShareMetadata, true>({
+    platform: Joi.string<ShareMetadata['platform']>()
+      .valid('twitter', 'facebook', 'linkedin', 'email', 'copy_link', 'whatsapp')
+      .required()
+      .example('twitter'),
+    message: Joi.string().trim().max(500).optional().example('Check out this amazing article!')
+  }).description('Required for share interactions').when('interaction_type', {
+    is: 'share',
+    then: Joi.required(),
+    otherwise: Joi.any().strip()
+  })
+}).description('The interaction is recorded for the authenticated user');
+
+export const removeInteractionSchema = Joi.object<RemoveInteractionBody, true>({
+  user_id: actingUserIdSchema,
+  article_id: articleIdSchema.required(),
+  interaction_type: Joi.string<RemoveInteractionBody['interaction_type']>()
+    .valid('view', 'like', 'share')
+    .required()
+    .example('like')
+    .messages({ 'any.only': 'Comments are removed with DELETE /interactions/:id' })
 });
 
-// MongoDB ObjectId validation
-export const objectIdSchema = Joi.string().hex().length(24);
+export const updateCommentSchema = Joi.object<UpdateCommentBody, true>({
+  content: Joi.string().trim().max(1000).required()
+    .description('Updated comment content')
+    .example('Updated comment content with more insights')
+});
+
+export const articleParamsSchema = Joi.object<ArticleParams, true>({
+  articleId: articleIdSchema.required()
+});
+
+export const userParamsSchema = Joi.object<UserParams, true>({
+  userId: userIdSchema.required()
+});
+
+export const userArticleParamsSchema = Joi.object<UserArticleParams, true>({
+  userId: userIdSchema.required(),
+  articleId: articleIdSchema.required()
+});
+
+export const interactionsQuerySchema = Joi.object<InteractionsQuery, true>({
+  ...pageKeys(20),
+  interaction_type: interactionTypeSchema.optional().description('Filter by interaction type')
+});
+
+export const commentsQuerySchema = Joi.object<PageQuery, true>(pageKeys(10, 50));
+
+// Source validation schemas
+export interface CreateSourceBody {
+  feedUrl: string;
+  title?: string;
+  pollIntervalMinutes?: number;
+  defaultTags?: string[];
+}
+
+export type UpdateSourceBody = Omit<CreateSourceBody, 'feedUrl'>;
+
+export interface SourcesQuery extends PageQuery {
+  status?: 'active' | 'paused';
+}
+
+export interface DeleteSourceQuery {
+  cascade: boolean;
+}
+
+export type OpmlImportBody = string | { opml: string };
+
+export const createSourceSchema = Joi.object<CreateSourceBody, true>({
+  feedUrl: Joi.string().trim().uri({ scheme: ['http', 'https'] }).required().example('https://example.com/feed.xml'),
+  title: Joi.string().trim().max(200).optional().example('Example Tech Blog'),
+  pollIntervalMinutes: Joi.number().integer().min(1).max(1440).optional(),
+  defaultTags: tagsSchema.optional().example(['technology'])
+});
+
+export const updateSourceSchema = Joi.object<UpdateSourceBody, true>({
+  title: Joi.string().trim().max(200).optional(),
+  pollIntervalMinutes: Joi.number().integer().min(1).max(1440).optional(),
+  defaultTags: tagsSchema.optional()
+}).min(1);
+
+export const sourcesQuerySchema = Joi.object<SourcesQuery, true>({
+  ...pageKeys(20),
+  status: Joi.string<'active' | 'paused'>().valid('active', 'paused').optional().description('Filter by polling status')
+});
+
+export const deleteSourceSchema = Joi.object<DeleteSourceQuery, true>({
+  cascade: Joi.boolean().default(false)
+    .description("Move the source's articles to the trash as well instead of orphaning them")
+});
+
+// OPML arrives either as the raw XML body or as the "opml" field of a JSON body.
+export const opmlImportSchema = Joi.alternatives<OpmlImportBody>().try(
+  Joi.string().trim().min(1).label('opml'),
+  Joi.object({ opml: Joi.string().trim().required() })
+);
+
+// Summary job validation
+export interface SummaryJobsQuery extends PageQuery {
+  status?: SummaryJobStatus;
+  articleId?: string;
+}
+
+export const summaryJobsQuerySchema = Joi.object<SummaryJobsQuery, true>({
+  ...pageKeys(20),
+  status: Joi.string<SummaryJobStatus>().valid(...SUMMARY_JOB_STATUSES).optional().description('Filter by job state'),
+  articleId: objectIdSchema.optional().description('Only jobs for this article')
+});
 
 // Recommendation validation
-export const recommendationSchema = Joi.object({
-  limit: Joi.number().integer().min(1).max(50).default(10)
-});
\ No newline at end of file
+export interface RecommendationParams {
+  user_id: string;
+}
+
+export interface RecommendationQuery {
+  limit: number;
+}
+
+export const recommendationParamsSchema = Joi.object<RecommendationParams, true>({
+  user_id: userIdSchema.required()
+});
+
+export const recommendationSchema = Joi.object<RecommendationQuery, true>({
+  limit: limitSchema(10, 50).description('Maximum number of articles to return')
+});